@@ -1,163 +1,196 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  ALERT_RULE_LABEL,
+  ALL_MARKETS,
+  AUDITED_FIELDS,
+  BENCHMARK_LABEL,
+  DEFAULT_ALERT_RULES,
+  FEED_STALE_MS,
+  MARKET_PRESET,
+  MARKET_TZ,
+  PROFILE_VOLS,
+  SCHEMA_VERSION,
+  acknowledgeAlert,
+  addIndication,
+  addMinutes,
+  aggregateOrders,
+  alertRulesFor,
+  allocationFor,
+  annotateChange,
+  applyExecReports,
+  applyStep,
+  applyTick,
+  assessAuction,
+  auditValue,
+  basketStats,
+  benchmarkSlippage,
+  buildPlan,
+  buildVolumeCurve,
+  captureStep,
+  carryOver,
+  changeLogTable,
+  clamp,
+  clearExecution,
+  compareStrategies,
+  complianceReport,
+  complianceReportHtml,
+  complianceTable,
+  createBookChannel,
+  createFeedClient,
+  createLeaderElection,
+  createSimClock,
+  curveFor,
+  curveKey,
+  dailyCap,
+  dailySchedule,
+  dayReportHtml,
+  defaultOrder,
+  dueReminders,
+  editedAfter,
+  emptyHistory,
+  evaluateAlerts,
+  executedByRow,
+  feedAgeMs,
+  fillNotional,
+  fillTotals,
+  finalEnd,
+  formatAuditValue,
+  hasLimit,
+  hasTalWindow,
+  importBlotter,
+  impliedMarketVWAP,
+  isImpactRow,
+  latestIndication,
+  marketTz,
+  mergeBook,
+  migrateBook,
+  minutesBetween,
+  multiDaySummary,
+  newBasket,
+  newFillId,
+  newMultiDay,
+  newerSchema,
+  normalizeOrder,
+  nowHHMM,
+  nowHHMMSS,
+  orderReportHtml,
+  paceOf,
+  paramChanges,
+  pacingTarget,
+  parseFixLog,
+  planTable,
+  progressSeries,
+  pushHistory,
+  reconcileTotals,
+  recordChanges,
+  recordedTape,
+  redoStep,
+  replayStep,
+  sameStrategy,
+  replanInputs,
+  scheduleFor,
+  sessionPhase,
+  setClock,
+  simStep,
+  snoozeAlert,
+  snapshotTable,
+  snapshotTape,
+  strategyOf,
+  suggestedVariants,
+  syntheticTape,
+  sortFills,
+  stampUpdate,
+  syncAlerts,
+  toCsv,
+  todayISO,
+  tzLabel,
+  undoStep,
+  visibleAlerts,
+  withFills,
+  withMarket,
+  writeBook,
+  zonedEpoch,
+  type Alert,
+  type AlertEvent,
+  type AuctionIndication,
+  type AlertRuleId,
+  type AlertRules,
+  type Basket,
+  type Benchmark,
+  type BookStep,
+  type BuiltPlan,
+  type CalendarEntry,
+  type CapMode,
+  type Curve,
+  type CurveLibrary,
+  type ExecMode,
+  type ExecReport,
+  type FeedKind,
+  type FeedStatus,
+  type Fill,
+  type FixImportResult,
+  type FixMapping,
+  type LiquidityProfile,
+  type MarketKey,
+  type MultiDay,
+  type Order,
+  type PersistedBook,
+  type PlanMetrics,
+  type ProgressPoint,
+  type ProgressSeries,
+  type ProgressWindow,
+  type Reminder,
+  type ReportItem,
+  type Side,
+  type SimClock,
+  type Slice,
+  type Snapshot,
+  type StrategyParams,
+  type SyncConflict,
+  type SyncedBook,
+  type Tape,
+  type UndoHistory,
+  type VolumeCurve,
+  type WindowRole
+} from "./engine";
 
 /** ======================================================================
  * Execution Planner — Pacing, Alerts, Interval Reminders (with sound)
  * - Per-order market preset & "Start from now"
+ * - Bulk order import from a blotter CSV (per-row validation)
+ * - Market calendars: weekends, holidays, half days, Ramadan hours, breaks
  * - OTD math fixed: continuous = orderQty - auctionReserve (no off-by-one)
+ * - Historical intraday volume curves per symbol/market (CSV import)
+ * - Leftovers flow continuous → auction → TAL (each capped)
+ * - Closing auction: indicative price / matched volume / imbalance entry, recomputed allowance, price-move & TAL suggestions
  * - Accumulated Suggested (time-aware, partial live slice) vs Executed
+ * - Intraday progress chart from snapshots: plan vs executed, realized participation, order vs market VWAP
+ * - Re-plan of the remaining qty from "now", shown beside the original plan
+ * - What-if comparison of strategy variants (mode, curve, cap, reserve) with one-click apply
  * - Pacing gauge (Ahead/On/Lag), Completion %, Slippage (bps), Next Action
- * - Alerts: Critical / Important / Info
- * - Notifications & Sound reminders per order (slice-boundary or N-min)
+ * - Benchmarks: VWAP, arrival, TWAP, close, implementation shortfall
+ * - Optional limit price: pacing counts only in-limit volume
+ * - Cap compliance: realized participation per slice vs max %, graded breaches, report & live CRIT alert
+ * - Alerts: Critical / Important / Info from configurable desk / per-order rules, with ack, snooze & history
+ * - Multi-day orders: daily allocation by % of ADV, remainder carried over, cumulative performance
+ * - Baskets: per-side gross/net notional, cash imbalance vs tolerance, basket pacing & leg-gap alerts
+ * - Notifications & Sound reminders per order (slice-boundary or N-min), auction / TAL / close-lead events
+ * - Central reminder scheduler; escalates (louder, repeated, CRIT banner) when market / exec go unupdated
+ * - Session math on each market's own time zone; card shows exchange & dealer time
  * - Simple view (glance) & Advanced view (details + guidance)
+ * - Simulation (synthetic or recorded tape) and replay of archived days on a controllable clock
  * - Mark Completed → quick post-trade card
+ * - CSV export (plan, snapshots) and printable HTML reports per order / per day
+ * - Parameter change log per order (field, old → new, reason) in exports; global undo / redo incl. Remove
+ * - Fill ledger (time/qty/price/venue) drives executed totals & VWAP
+ * - FIX drop-copy import: execution reports become fills (duplicates skipped, busts / corrections applied)
+ * - Market-data feed adapter (SSE / WebSocket, reconnect, stale detection) with source & age per order
+ * - Multi-window: edits sync across tabs (three-way merge, conflict notice); pop-out window per order
+ * - Autosave to localStorage (versioned schema); previous days archived
  * ====================================================================== */
 
-/* -------------------- Types -------------------- */
-type ExecMode = "OTD" | "INLINE";
-type CapMode = "NONE" | "PCT";
-type Curve = "equal" | "ucurve";
-type Side = "BUY" | "SELL";
-type MarketKey = "Egypt" | "Kuwait" | "Qatar" | "DFM" | "ADX" | "Saudi";
-type PaceClass = "AHEAD" | "ON" | "LAG";
-
-type Snapshot = {
-  at: string; // HH:MM:SS
-  note?: string;
-  currentVol: number;
-  expectedContVol: number;
-  expectedAuctionVol: number;
-  orderExecQty: number;
-  orderExecNotional: number;
-  marketTurnover: number;
-  marketVWAPInput: number;
-};
-
-type LiquidityProfile = "Quiet" | "Normal" | "Volatile";
-
-type Order = {
-  id: string;
-  name: string;
-  symbol: string;
-  side: Side;
-
-  orderQty: number;
-
-  execMode: ExecMode;
-  capMode: CapMode;
-  maxPart: number; // %
-  reserveAuctionPct: number; // %
-  deferCompletion: boolean;
-
-  sessionStart: string;
-  sessionEnd: string;
-  auctionStart: string;
-  auctionEnd: string;
-  talStart: string;
-  talEnd: string;
-  intervalMins: number;
-  curve: Curve;
-
-  // volumes (dealer-updated intraday)
-  startVol: number;      // market volume at the time order starts tracking
-  currentVol: number;    // current cumulative market volume
-  expectedContVol: number;
-  expectedAuctionVol: number;
-
-  // VWAP monitor
-  marketTurnover: number;
-  marketVWAPInput: number;
-
-  // executed so far
-  orderExecQty: number;
-  orderExecNotional: number;
-
-  // extras
-  market?: MarketKey;
-  startFromNow?: boolean;
-  snapshots: Snapshot[];
-  liquidity: LiquidityProfile;
-  completed: boolean;
-
-  // reminders / notifications
-  notificationsOn: boolean;
-  soundOn: boolean;
-  sliceReminders: boolean;     // remind at slice boundaries
-  remindEveryMins: number;     // or remind every N minutes
-};
-
-/* -------------------- Market presets -------------------- */
-const MARKET_PRESET: Record<
-  MarketKey,
-  { start: string; auction: string; auctionMatch: string; talStart: string; talEnd: string }
-> = {
-  Egypt: { start: "10:00", auction: "14:15", auctionMatch: "14:25", talStart: "14:25", talEnd: "14:30" },
-  Kuwait:{ start: "09:00", auction: "12:30", auctionMatch: "12:40", talStart: "12:40", talEnd: "12:45" },
-  Qatar: { start: "09:30", auction: "13:00", auctionMatch: "13:10", talStart: "13:10", talEnd: "13:15" },
-  DFM:   { start: "09:00", auction: "13:45", auctionMatch: "13:55", talStart: "13:55", talEnd: "14:00" },
-  ADX:   { start: "09:00", auction: "13:45", auctionMatch: "13:55", talStart: "13:55", talEnd: "14:00" },
-  Saudi: { start: "10:00", auction: "15:00", auctionMatch: "15:10", talStart: "15:10", talEnd: "15:20" },
-};
-
-// Profiles minimize typing — used to prefill expected volumes
-const PROFILE_VOLS: Record<LiquidityProfile, { cont: number; auction: number }> = {
-  Quiet:   { cont: 400_000, auction: 300_000 },
-  Normal:  { cont: 800_000, auction: 400_000 },
-  Volatile:{ cont: 1_300_000, auction: 600_000 },
-};
-
-/* -------------------- Utilities -------------------- */
-const clamp = (n: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, n));
-
-function minutesBetween(t1: string, t2: string) {
-  const [h1, m1] = t1.split(":").map((x) => parseInt(x || "0", 10));
-  const [h2, m2] = t2.split(":").map((x) => parseInt(x || "0", 10));
-  return h2 * 60 + m2 - (h1 * 60 + m1);
-}
-function addMinutes(t: string, mins: number) {
-  const [h, m] = t.split(":").map((x) => parseInt(x || "0", 10));
-  const total = h * 60 + m + mins;
-  const hh = Math.floor(total / 60) % 24;
-  const mm = ((total % 60) + 60) % 60;
-  return `${String(hh).padStart(2, "0")}:${String(mm).padStart(2, "0")}`;
-}
-function nowHHMM() {
-  const d = new Date();
-  return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
-}
-function nowHHMMSS() {
-  const d = new Date();
-  return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}:${String(
-    d.getSeconds()
-  ).padStart(2, "0")}`;
-}
-
-function timeSlices(start: string, end: string, step: number) {
-  const out: { s: string; e: string; label: string; mins: number }[] = [];
-  const total = Math.max(0, minutesBetween(start, end));
-  const n = Math.max(1, Math.ceil(total / step));
-  for (let i = 0; i < n; i++) {
-    const s = addMinutes(start, i * step);
-    const e = i === n - 1 ? end : addMinutes(start, (i + 1) * step);
-    out.push({ s, e, label: `${s} – ${e}`, mins: Math.max(0, minutesBetween(s, e)) });
-  }
-  return out;
-}
-function uCurveWeights(n: number) {
-  if (n <= 0) return [] as number[];
-  const w: number[] = [];
-  const mid = (n - 1) / 2;
-  for (let i = 0; i < n; i++) {
-    const x = Math.abs(i - mid) / (mid || 1);
-    w.push(0.6 + 0.8 * (1 - x));
-  }
-  const sum = w.reduce((a, b) => a + b, 0) || 1;
-  return w.map((x) => x / sum);
-}
-function equalWeights(n: number) {
-  if (n <= 0) return [] as number[];
-  return Array(n).fill(1 / n);
-}
 
+/* -------------------- Formatting (UI) -------------------- */
 function formatInt(n: number | null | undefined) {
   if (n == null || isNaN(n as any)) return "";
   return Math.trunc(Number(n)).toLocaleString();
@@ -190,10 +223,10 @@ function requestNotifyPermission() {
     Notification.requestPermission().catch(() => {});
   }
 }
-function fireNotification(title: string, body: string) {
+function fireNotification(title: string, body: string, sticky = false) {
   if (!("Notification" in window)) return;
   if (Notification.permission === "granted") {
-    new Notification(title, { body });
+    new Notification(title, { body, requireInteraction: sticky });
   }
 }
 function playBeep(volume = 0.05, seconds = 0.2) {
@@ -213,152 +246,36 @@ function playBeep(volume = 0.05, seconds = 0.2) {
     }, seconds * 1000);
   } catch {}
 }
-
-/* -------------------- Planning & analytics -------------------- */
-function applyCap(capMode: CapMode, maxPart: number, qty: number, sliceVol: number) {
-  if (capMode === "NONE") return Math.max(0, Math.floor(qty));
-  const allowed = Math.floor((sliceVol * maxPart) / 100);
-  return Math.max(0, Math.min(Math.floor(qty), allowed));
+// Escalation gets louder, longer and repeats once per stage
+function playAlarm(stage: number) {
+  const n = Math.max(1, Math.min(4, stage));
+  for (let i = 0; i < n; i++) setTimeout(() => playBeep(Math.min(0.4, 0.05 * (1 + 2 * stage)), 0.2 + 0.1 * stage), i * 450);
 }
 
-type BuiltRow = {
-  interval: string;
-  s: string;
-  e: string;
-  mins: number;
-  expMktVol: number;
-  maxAllowed: number | "∞";
-  suggestedQty: number;
-};
-
-type BuiltPlan = {
-  rows: BuiltRow[];
-  contPlanned: number;
-  auctionAllowed: number;
-  auctionPlanned: number;
-};
-
-function buildPlan(order: Order): BuiltPlan {
-  const slices = timeSlices(order.sessionStart, order.sessionEnd, order.intervalMins);
-  const weights = order.curve === "equal" ? equalWeights(slices.length) : uCurveWeights(slices.length);
-  const contVolPerSlice = weights.map((w) => Math.floor(w * order.expectedContVol));
-  const reserveAuctionQty = Math.floor((order.orderQty * Math.max(0, order.reserveAuctionPct)) / 100);
-
-  const auctionAllowed =
-    order.capMode === "PCT" ? Math.floor((order.expectedAuctionVol * order.maxPart) / 100) : order.expectedAuctionVol;
-
-  const rows: BuiltRow[] = [];
-
-  if (order.execMode === "OTD") {
-    const targetContinuousQty = Math.max(0, order.orderQty - reserveAuctionQty);
-    let remaining = targetContinuousQty;
-
-    for (let i = 0; i < slices.length; i++) {
-      const sl = slices[i];
-      const sliceVol = Math.max(0, contVolPerSlice[i]);
-      let base = Math.floor(weights[i] * targetContinuousQty);
-      base = Math.min(base, remaining);
-      let suggested = applyCap(order.capMode, order.maxPart, base, sliceVol);
-
-      const isLast = i === slices.length - 1;
-      if (order.deferCompletion && !isLast) {
-        const keepBack = Math.ceil(targetContinuousQty * 0.05);
-        if (remaining - suggested <= 0) suggested = Math.max(0, remaining - keepBack);
-      }
-
-      suggested = Math.min(suggested, remaining);
-      remaining -= suggested;
-
-      rows.push({
-        interval: sl.label,
-        s: sl.s,
-        e: sl.e,
-        mins: sl.mins,
-        expMktVol: sliceVol,
-        maxAllowed: order.capMode === "PCT" ? Math.floor((sliceVol * order.maxPart) / 100) : "∞",
-        suggestedQty: suggested,
-      });
-    }
-
-    const contPlanned = rows.reduce((a, r) => a + r.suggestedQty, 0);
-    // Whatever wasn’t scheduled in continuous goes to auction, capped by auctionAllowed
-    const auctionPlanned = Math.min(reserveAuctionQty + Math.max(0, targetContinuousQty - contPlanned), auctionAllowed);
-
-    return { rows, contPlanned, auctionAllowed, auctionPlanned };
-  }
-
-  // INLINE
-  const expectedTotalVol = order.currentVol + order.expectedContVol + order.expectedAuctionVol;
-  const pov = expectedTotalVol > 0 ? Math.min(1, order.orderQty / expectedTotalVol) : 0;
-
-  for (let i = 0; i < slices.length; i++) {
-    const sl = slices[i];
-    const sliceVol = Math.max(0, contVolPerSlice[i]);
-    const base = Math.floor(sliceVol * pov);
-    const suggested = applyCap(order.capMode, order.maxPart, base, sliceVol);
-    rows.push({
-      interval: sl.label,
-      s: sl.s,
-      e: sl.e,
-      mins: sl.mins,
-      expMktVol: sliceVol,
-      maxAllowed: order.capMode === "PCT" ? Math.floor((sliceVol * order.maxPart) / 100) : "∞",
-      suggestedQty: suggested,
-    });
-  }
-
-  const contPlanned = rows.reduce((a, r) => a + r.suggestedQty, 0);
-  let auctionPlanned =
-    order.capMode === "PCT"
-      ? Math.floor((order.expectedAuctionVol * pov * order.maxPart) / 100)
-      : Math.floor(order.expectedAuctionVol * pov);
-
-  // Do not exceed total; shave auction or last slices if needed
-  let totalPlanned = contPlanned + auctionPlanned;
-  if (totalPlanned > order.orderQty) {
-    const excess = totalPlanned - order.orderQty;
-    if (order.deferCompletion) {
-      for (let i = rows.length - 1; i >= 0 && totalPlanned > order.orderQty; i--) {
-        const trim = Math.min(excess, rows[i].suggestedQty);
-        rows[i].suggestedQty -= trim;
-        totalPlanned -= trim;
-      }
-    } else {
-      auctionPlanned = Math.max(0, auctionPlanned - excess);
-    }
-  }
-
-  return { rows, contPlanned, auctionAllowed, auctionPlanned };
+/* -------------------- Export helpers -------------------- */
+function downloadText(filename: string, text: string, mime = "text/csv") {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
-
-/* -------------------- Accumulated Suggested (time-aware) -------------------- */
-function accumulatedSuggested(plan: BuiltPlan, sessionStart: string, now: string) {
-  let acc = 0;
-  for (const r of plan.rows) {
-    if (now >= r.e) acc += r.suggestedQty;
-    else if (now > r.s && now < r.e) {
-      const elapsed = clamp(minutesBetween(r.s, now), 0, r.mins);
-      const frac = r.mins > 0 ? elapsed / r.mins : 0;
-      acc += Math.floor(r.suggestedQty * frac);
-      break;
-    } else if (now < r.s) {
-      break;
-    }
-  }
-  return acc;
+// Reports open in their own tab so the browser's print dialog can save them as PDF
+function openReport(html: string) {
+  const w = window.open("", "_blank");
+  if (!w) return alert("Allow pop-ups to open the report.");
+  w.document.write(html);
+  w.document.close();
 }
-
-/* -------------------- Performance & pacing -------------------- */
-function performanceBps(side: Side, orderVWAP: number, marketVWAP: number) {
-  if (!marketVWAP || !orderVWAP) return 0;
-  return side === "BUY"
-    ? ((marketVWAP - orderVWAP) / marketVWAP) * 10000
-    : ((orderVWAP - marketVWAP) / marketVWAP) * 10000;
+// One order by itself in its own window; it shares the book like any other tab
+function popOutOrder(id: string) {
+  const w = window.open(`${window.location.pathname}?order=${encodeURIComponent(id)}`, `order-${id}`, "popup,width=1100,height=900");
+  if (!w) return alert("Allow pop-ups to open the order in its own window.");
+  w.focus();
 }
-
-function impliedMarketVWAP(turnover: number, curVol: number, manual: number) {
-  if (curVol > 0 && turnover > 0) return turnover / curVol;
-  return manual || 0;
+function fileStem(...parts: string[]) {
+  return parts.map((p) => p.trim().replace(/[^\w.-]+/g, "_")).filter(Boolean).join("_");
 }
 
 /* -------------------- Inputs -------------------- */
@@ -423,227 +340,1032 @@ function Stat({ title, value }: { title: string; value: React.ReactNode }) {
   );
 }
 
-/* -------------------- Themes -------------------- */
-function theme(side: Side) {
-  return side === "BUY"
-    ? { text: "text-emerald-700", bgSoft: "bg-emerald-50", border: "border-emerald-300", strong: "bg-emerald-600" }
-    : { text: "text-rose-700", bgSoft: "bg-rose-50", border: "border-rose-300", strong: "bg-rose-600" };
+/* -------------------- Parameter change log -------------------- */
+function ChangeLog({ order, onChange }: { order: Order; onChange: (o: Order) => void }) {
+  const log = order.changeLog || [];
+  return (
+    <div className="space-y-2">
+      <h3 className="font-semibold">Parameter changes</h3>
+      <div className="rounded-xl border overflow-x-auto max-h-64">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50">
+            <tr className="text-left">
+              <th className="p-2">Time</th>
+              <th className="p-2">Field</th>
+              <th className="p-2">From</th>
+              <th className="p-2">To</th>
+              <th className="p-2">Reason</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...log].reverse().map((c, i) => {
+              const idx = log.length - 1 - i;
+              return (
+                <tr key={`${idx}-${c.at}-${c.field}`} className="border-t">
+                  <td className="p-2 font-mono">{c.at}</td>
+                  <td className="p-2">{AUDITED_FIELDS[c.field] || c.field}</td>
+                  <td className="p-2">{formatAuditValue(c.from)}</td>
+                  <td className="p-2">{formatAuditValue(c.to)}</td>
+                  <td className="p-1">
+                    <input className="w-full border rounded px-1 py-0.5" defaultValue={c.reason || ""} placeholder="Add reason"
+                      onBlur={(e)=>{
+                        if (e.target.value.trim() !== (c.reason || "")) onChange(annotateChange(order, idx, e.target.value));
+                      }}/>
+                  </td>
+                </tr>
+              );
+            })}
+            {log.length === 0 && (
+              <tr><td className="p-2 text-slate-500" colSpan={5}>No parameter changes yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
 }
 
-/* -------------------- Planner Card -------------------- */
-function PlannerCard({
-  order, onChange, onRemove, onDuplicate, onFocusMe,
-}: {
-  order: Order;
-  onChange: (o: Order) => void;
-  onRemove: () => void;
-  onDuplicate: () => void;
-  onFocusMe?: () => void;
-}) {
-  const t = theme(order.side);
-  const [clock, setClock] = useState(nowHHMMSS());
-  useEffect(() => {
-    const id = setInterval(() => setClock(nowHHMMSS()), 1000);
-    return () => clearInterval(id);
-  }, []);
+/* -------------------- Fills ledger editor -------------------- */
+function FillsLedger({ order, onChange }: { order: Order; onChange: (o: Order) => void }) {
+  const blank = { at: "", qty: 0, price: 0, venue: "", brokerRef: "" };
+  const [draft, setDraft] = useState(blank);
+  const [editingId, setEditingId] = useState<string | null>(null);
 
-  // Market preset apply (per order)
-  function applyMarketPreset(m: MarketKey, startFromNow: boolean) {
-    const p = MARKET_PRESET[m];
-    const sStart = startFromNow ? nowHHMM() : p.start;
-    onChange({
-      ...order,
-      market: m,
-      startFromNow,
-      sessionStart: sStart,
-      sessionEnd: p.auction,
-      auctionStart: p.auction,
-      auctionEnd: p.auctionMatch,
-      talStart: p.talStart,
-      talEnd: p.talEnd,
-    });
+  function startEdit(f: Fill) {
+    setEditingId(f.id);
+    setDraft({ at: f.at, qty: f.qty, price: f.price, venue: f.venue || "", brokerRef: f.brokerRef || "" });
   }
-
-  // Volume profiles (reduce typing)
-  function applyProfile(profile: LiquidityProfile) {
-    const pv = PROFILE_VOLS[profile];
-    onChange({ ...order, liquidity: profile, expectedContVol: pv.cont, expectedAuctionVol: pv.auction });
+  function cancel() {
+    setEditingId(null);
+    setDraft(blank);
+  }
+  function save() {
+    if (draft.qty <= 0 || draft.price <= 0) return;
+    const fill: Fill = {
+      id: editingId || newFillId(),
+      at: draft.at ? (draft.at.length === 5 ? draft.at + ":00" : draft.at) : nowHHMMSS(marketTz(order.market)),
+      qty: draft.qty,
+      price: draft.price,
+      venue: draft.venue || undefined,
+      brokerRef: draft.brokerRef || undefined,
+      kind: "FILL",
+    };
+    const rest = order.fills.filter((f) => f.id !== fill.id);
+    onChange(withFills(order, [...rest, fill]));
+    cancel();
+  }
+  function remove(id: string) {
+    onChange(withFills(order, order.fills.filter((f) => f.id !== id)));
+    if (editingId === id) cancel();
   }
 
-  const plan = useMemo(() => buildPlan(order), [order]);
-  const totalPlanned = plan.contPlanned + plan.auctionPlanned;
-  const remaining = Math.max(0, order.orderQty - totalPlanned);
-
-  /* ---- Accumulated Suggested & Executed ---- */
-  const now = new Date().toTimeString().slice(0, 5);
-  const accSuggested = useMemo(
-    () => accumulatedSuggested(plan, order.sessionStart, now),
-    [plan, order.sessionStart, now]
+  const totals = fillTotals(order.fills);
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold">Fills</h3>
+      <div className="rounded-xl border overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50">
+            <tr className="text-left">
+              <th className="p-2">Time</th>
+              <th className="p-2">Qty</th>
+              <th className="p-2">Price</th>
+              <th className="p-2">Notional</th>
+              <th className="p-2">Venue</th>
+              <th className="p-2">Broker Ref</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortFills(order.fills).map((f) => (
+              <tr key={f.id} className={`border-t ${editingId === f.id ? "bg-amber-50" : ""}`}>
+                <td className="p-2 font-mono">{f.at}</td>
+                <td className="p-2">{formatInt(f.qty)}</td>
+                <td className="p-2">{f.kind === "RECON" ? "—" : formatMoney(f.price, 4)}</td>
+                <td className="p-2">{formatMoney(fillNotional(f), 2)}</td>
+                <td className="p-2">{f.kind === "RECON" ? <span className="opacity-60">reconciliation</span> : f.venue || "—"}</td>
+                <td className="p-2">{f.brokerRef || "—"}</td>
+                <td className="p-2 whitespace-nowrap">
+                  {f.kind === "FILL" && (
+                    <button onClick={() => startEdit(f)} className="px-2 py-0.5 rounded border mr-1">Edit</button>
+                  )}
+                  <button onClick={() => remove(f.id)} className="px-2 py-0.5 rounded border">Delete</button>
+                </td>
+              </tr>
+            ))}
+            {order.fills.length === 0 && (
+              <tr><td className="p-2 text-slate-500" colSpan={7}>No fills yet.</td></tr>
+            )}
+          </tbody>
+          <tfoot>
+            <tr className="border-t bg-slate-50 font-semibold">
+              <td className="p-2">Total</td>
+              <td className="p-2">{formatInt(totals.qty)}</td>
+              <td className="p-2">{totals.qty > 0 ? formatMoney(totals.notional / totals.qty, 4) : "—"}</td>
+              <td className="p-2">{formatMoney(totals.notional, 2)}</td>
+              <td className="p-2" colSpan={3}></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+        <label className="text-sm">Time
+          <input type="time" step={1} className="mt-1 w-full border rounded-xl p-2"
+            value={draft.at} onChange={(e)=>setDraft({ ...draft, at: e.target.value })}/>
+        </label>
+        <IntInput label="Qty" value={draft.qty} onChange={(n)=>setDraft({ ...draft, qty: n })}/>
+        <MoneyInput label="Price" value={draft.price} onNumberChange={(n)=>setDraft({ ...draft, price: n })}/>
+        <label className="text-sm">Venue
+          <input className="mt-1 w-full border rounded-xl p-2" value={draft.venue}
+            onChange={(e)=>setDraft({ ...draft, venue: e.target.value })}/>
+        </label>
+        <label className="text-sm">Broker Ref
+          <input className="mt-1 w-full border rounded-xl p-2" value={draft.brokerRef}
+            onChange={(e)=>setDraft({ ...draft, brokerRef: e.target.value })}/>
+        </label>
+        <div className="flex gap-2">
+          <button onClick={save} className="px-3 py-2 rounded-xl bg-slate-900 text-white text-sm">
+            {editingId ? "Save fill" : "Add fill"}
+          </button>
+          {editingId && <button onClick={cancel} className="px-3 py-2 rounded-xl border text-sm">Cancel</button>}
+        </div>
+      </div>
+      <div className="text-xs opacity-60">Times are exchange time; leave empty to stamp the fill with the current time.</div>
+    </div>
   );
-  const accExecuted = order.orderExecQty;
-  const deltaVsPlan = accExecuted - accSuggested;
-
-  // Completion
-  const completionPct = order.orderQty > 0 ? Math.min(100, Math.round((accExecuted / order.orderQty) * 100)) : 0;
-
-  // Pacing class
-  const paceClass: PaceClass =
-    accSuggested === 0
-      ? "ON"
-      : deltaVsPlan >= accSuggested * 0.05
-      ? "AHEAD"
-      : deltaVsPlan <= -accSuggested * 0.05
-      ? "LAG"
-      : "ON";
-
-  // VWAP performance
-  const marketVWAP = impliedMarketVWAP(order.marketTurnover, order.currentVol - order.startVol, order.marketVWAPInput);
-  const orderVWAP = order.orderExecQty > 0 ? order.orderExecNotional / order.orderExecQty : 0;
-  const perf = performanceBps(order.side, orderVWAP, marketVWAP);
-
-  // Next Action (simple)
-  let nextAction = "Keep steady.";
-  if (paceClass === "LAG") nextAction = "Increase clip size or relax cap.";
-  if (paceClass === "AHEAD") nextAction = "Ease slightly; protect auction reserve.";
-  if (remaining <= 0) nextAction = "Done — maintain auction stance as configured.";
-
-  // Alerts
-  const alerts: { level: "CRIT" | "WARN" | "INFO"; msg: string }[] = [];
-  const missingVWAP = !(order.marketTurnover > 0 || order.marketVWAPInput > 0);
-  if (missingVWAP) alerts.push({ level: "WARN", msg: "Missing market VWAP (turnover or manual)" });
+}
 
-  // If order started mid-session, use (currentVol - startVol) for pacing awareness
-  if (order.currentVol <= order.startVol) {
-    alerts.push({ level: "INFO", msg: "Market volume not updated since start — pacing may be stale." });
+/* -------------------- What-if comparison -------------------- */
+function StrategyCompare({
+  order, histCurve, onApply,
+}: {
+  order: Order;
+  histCurve?: VolumeCurve;
+  onApply: (params: StrategyParams) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [variants, setVariants] = useState<StrategyParams[]>([]);
+  const results = useMemo(() => compareStrategies(order, variants, histCurve), [order, variants, histCurve]);
+  const current = strategyOf(order);
+
+  function toggle() {
+    if (!open) setVariants(suggestedVariants(order));
+    setOpen((o) => !o);
   }
+  const edit = (i: number, patch: Partial<StrategyParams>) =>
+    setVariants((vs) => vs.map((v, j) => (j === i ? { ...v, ...patch } : v)));
+
+  const metricRows: { label: string; value: (m: PlanMetrics) => string }[] = [
+    { label: "Continuous", value: (m) => `${formatInt(m.contPlanned)} (${Math.round(m.contShare * 100)}%)` },
+    { label: "Auction + TAL", value: (m) => `${formatInt(m.closePlanned)} (${Math.round((1 - m.contShare) * 100)}%)` },
+    { label: "Cap-bound slices", value: (m) => `${m.capBound} / ${m.slices}` },
+    { label: "Peak participation", value: (m) => `${(m.peakParticipation * 100).toFixed(1)}%` },
+    { label: "Unfilled", value: (m) => formatInt(m.unfilled) },
+    { label: "Impact flags", value: (m) => String(m.impactFlags) },
+  ];
+  const cell = "py-1.5 pr-3 align-top";
 
-  // Must-complete logic (OTD & no auction reserve or very late)
-  const minsToEnd = Math.max(0, minutesBetween(now, order.sessionEnd));
-  if (remaining > 0 && minsToEnd <= order.intervalMins) {
-    alerts.push({ level: "CRIT", msg: "Session ending — finalize remaining quantity." });
-  }
+  return (
+    <div className="mt-3 text-sm">
+      <button onClick={toggle} className="font-semibold">
+        {open ? "▾" : "▸"} Compare strategies
+      </button>
+      {open && (
+        <div className="mt-2 overflow-x-auto rounded-xl border">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50">
+              <tr className="text-left">
+                <th className={cell}></th>
+                {results.map((r, i) => (
+                  <th key={i} className={cell}>
+                    {sameStrategy(r.params, current) ? "Current" : `Variant ${i + 1}`}
+                    {variants.length > 1 && (
+                      <button onClick={() => setVariants((vs) => vs.filter((_, j) => j !== i))}
+                        className="ml-2 px-1.5 rounded border font-normal">×</button>
+                    )}
+                  </th>
+                ))}
+                <th className={cell}>
+                  <button onClick={() => setVariants((vs) => [...vs, vs[vs.length - 1] || current])}
+                    className="px-2 py-0.5 rounded border font-normal">+ Variant</button>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t">
+                <td className={`${cell} font-semibold`}>Mode</td>
+                {variants.map((v, i) => (
+                  <td key={i} className={cell}>
+                    <select className="border rounded p-1" value={v.execMode}
+                      onChange={(e)=>edit(i, { execMode: e.target.value as ExecMode })}>
+                      <option value="OTD">OTD</option>
+                      <option value="INLINE">Inline</option>
+                    </select>
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td className={`${cell} font-semibold`}>Curve</td>
+                {variants.map((v, i) => (
+                  <td key={i} className={cell}>
+                    <select className="border rounded p-1" value={v.curve}
+                      onChange={(e)=>edit(i, { curve: e.target.value as Curve })}>
+                      <option value="ucurve">U-curve</option>
+                      <option value="equal">Equal</option>
+                      <option value="historical">{histCurve ? "Historical" : "Historical (→ U)"}</option>
+                    </select>
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td className={`${cell} font-semibold`}>Max part. % (0 = no cap)</td>
+                {variants.map((v, i) => (
+                  <td key={i} className={cell}>
+                    <input type="number" className="w-20 border rounded p-1" value={v.capMode === "NONE" ? 0 : v.maxPart}
+                      onChange={(e)=>{
+                        const n = Math.max(0, parseFloat(e.target.value || "0"));
+                        edit(i, n > 0 ? { capMode: "PCT", maxPart: n } : { capMode: "NONE" });
+                      }}/>
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td className={`${cell} font-semibold`}>Auction reserve %</td>
+                {variants.map((v, i) => (
+                  <td key={i} className={cell}>
+                    <input type="number" className="w-20 border rounded p-1" value={v.reserveAuctionPct}
+                      onChange={(e)=>edit(i, { reserveAuctionPct: Math.max(0, parseFloat(e.target.value || "0")) })}/>
+                  </td>
+                ))}
+              </tr>
+              {metricRows.map((row) => (
+                <tr key={row.label} className="border-t">
+                  <td className={cell}>{row.label}</td>
+                  {results.map((r, i) => <td key={i} className={cell}>{row.value(r.metrics)}</td>)}
+                </tr>
+              ))}
+              <tr className="border-t">
+                <td className={cell}></td>
+                {results.map((r, i) => (
+                  <td key={i} className={cell}>
+                    <button onClick={() => onApply(r.params)} disabled={sameStrategy(r.params, current)}
+                      className="px-2 py-1 rounded bg-slate-900 text-white disabled:opacity-30">Apply</button>
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
 
-  // Cap-binding hint: if many rows have suggested == maxAllowed
-  const capHitCount = plan.rows.filter((r) => typeof r.maxAllowed === "number" && r.suggestedQty >= r.maxAllowed).length;
-  if (order.capMode === "PCT" && capHitCount >= Math.ceil(plan.rows.length * 0.3)) {
-    alerts.push({ level: "WARN", msg: "Cap binding frequently — consider OTD or raise max participation slightly." });
-  }
+/* -------------------- Progress chart -------------------- */
+const CHART_W = 640;
+const PANES = { qty: { y: 8, h: 130 }, part: { y: 160, h: 60 }, vwap: { y: 242, h: 80 } };
+const CHART_H = 340;
+const WINDOW_FILL: Record<ProgressWindow["kind"], string> = { BREAK: "#e2e8f0", AUCTION: "#fde68a", TAL: "#c7d2fe" };
 
-  // Status colors
-  const paceTag =
-    paceClass === "AHEAD" ? "bg-emerald-600" : paceClass === "ON" ? "bg-slate-600" : "bg-amber-600";
+function ProgressChart({ order, plan }: { order: Order; plan: BuiltPlan }) {
+  const [open, setOpen] = useState(false);
+  const series = useMemo(() => (open ? progressSeries(order, plan) : null), [open, order, plan]);
 
-  // Notifications / reminders
-  useEffect(() => {
-    if (!order.notificationsOn) return;
-    requestNotifyPermission();
-  }, [order.notificationsOn]);
+  return (
+    <div className="mt-3 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Progress chart
+      </button>
+      {open && series && (series.points.length === 0
+        ? <div className="mt-2 text-xs text-slate-500">No snapshots yet — log snapshots through the day to chart progress.</div>
+        : <ProgressSvg order={order} series={series} />)}
+    </div>
+  );
+}
 
-  // Slice-boundary reminders OR every N mins
-  const lastReminderRef = useRef<string>("");
-  useEffect(() => {
-    if (!order.notificationsOn) return;
+function ProgressSvg({ order, series }: { order: Order; series: ProgressSeries }) {
+  const span = Math.max(1, minutesBetween(series.start, series.end));
+  const x = (at: string) => (clamp(minutesBetween(series.start, at.slice(0, 5)), 0, span) / span) * CHART_W;
+  const scaled = (pane: { y: number; h: number }, lo: number, hi: number) => (v: number) =>
+    pane.y + pane.h - (hi > lo ? ((v - lo) / (hi - lo)) * pane.h : pane.h / 2);
+  const path = (pts: [number, number][]) => pts.map(([a, b], i) => `${i ? "L" : "M"}${a.toFixed(1)},${b.toFixed(1)}`).join(" ");
+
+  const qtyMax = Math.max(1, order.orderQty, ...series.points.map((p) => p.executed));
+  const yQty = scaled(PANES.qty, 0, qtyMax);
+  // Plan is a step: flat until each boundary, then the next cumulative value
+  const planPts = series.planned.flatMap((p, i): [number, number][] =>
+    i === 0 ? [[x(p.at), yQty(p.qty)]] : [[x(p.at), yQty(series.planned[i - 1].qty)], [x(p.at), yQty(p.qty)]]);
+  const execPts = series.points.map((p): [number, number] => [x(p.at), yQty(p.executed)]);
+
+  const cap = order.capMode === "PCT" ? order.maxPart / 100 : 0;
+  const partMax = Math.max(0.01, cap * 1.25, ...series.points.map((p) => p.participation ?? 0));
+  const yPart = scaled(PANES.part, 0, partMax);
+
+  const prices = series.points.flatMap((p) => [p.orderVWAP, p.marketVWAP]).filter((v) => v > 0);
+  const pad = prices.length ? Math.max(...prices) * 0.001 : 0;
+  const yPx = scaled(PANES.vwap, Math.min(...prices, Infinity) - pad, Math.max(...prices, 0) + pad);
+  const line = (pick: (p: ProgressPoint) => number) =>
+    path(series.points.filter((p) => pick(p) > 0).map((p): [number, number] => [x(p.at), yPx(pick(p))]));
+
+  const label = "text-[10px]";
+  return (
+    <div className="mt-2 rounded-xl border p-2 overflow-x-auto">
+      <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full min-w-[480px]" role="img" aria-label="Intraday progress">
+        {series.windows.map((w, i) => (
+          <rect key={i} x={x(w.start)} y={0} width={Math.max(1, x(w.end) - x(w.start))} height={CHART_H - 14}
+            fill={WINDOW_FILL[w.kind]} opacity={0.5}><title>{`${w.kind} ${w.start}–${w.end}`}</title></rect>
+        ))}
+        {series.boundaries.map((b) => (
+          <line key={b} x1={x(b)} x2={x(b)} y1={0} y2={CHART_H - 14} stroke="#cbd5e1" strokeDasharray="2 3" />
+        ))}
 
-    function remind() {
-      const title = `${order.name}: update market & exec`;
-      const body = "Please refresh Current Vol, Exec Qty/Notional; pacing & coach will adjust.";
-      fireNotification(title, body);
-      if (order.soundOn) playBeep();
-      lastReminderRef.current = nowHHMMSS();
-    }
+        <text x={4} y={PANES.qty.y + 10} className={label}>Cumulative qty (plan dashed, executed solid)</text>
+        <path d={path(planPts)} fill="none" stroke="#64748b" strokeDasharray="5 3" strokeWidth={1.5} />
+        <path d={path(execPts)} fill="none" stroke="#0f172a" strokeWidth={2} />
+        {series.points.map((p) => (
+          <circle key={p.at} cx={x(p.at)} cy={yQty(p.executed)} r={2.5} fill="#0f172a">
+            <title>{`${p.at} · executed ${formatInt(p.executed)} · plan ${formatInt(p.suggested)}`}</title>
+          </circle>
+        ))}
 
-    let timer: number | undefined;
-
-    if (order.sliceReminders) {
-      // compute ms to next slice boundary
-      const setNext = () => {
-        const cur = new Date();
-        const curHHMM = cur.toTimeString().slice(0, 5);
-        const nextEdge = plan.rows.find((r) => curHHMM < r.e);
-        if (!nextEdge) return; // day done
-        const [eh, em] = nextEdge.e.split(":").map((x) => parseInt(x, 10));
-        const next = new Date(cur);
-        next.setHours(eh, em, 0, 0);
-        const ms = next.getTime() - cur.getTime();
-        timer = window.setTimeout(() => {
-          remind();
-          setNext();
-        }, Math.max(1000, ms));
-      };
-      setNext();
-      return () => timer && clearTimeout(timer);
-    } else {
-      // every N minutes
-      const ms = Math.max(1, order.remindEveryMins) * 60 * 1000;
-      timer = window.setInterval(() => remind(), ms) as unknown as number;
-      return () => timer && clearInterval(timer);
-    }
-  }, [order.notificationsOn, order.soundOn, order.sliceReminders, order.remindEveryMins, order.name, plan.rows]);
+        <text x={4} y={PANES.part.y - 4} className={label}>Realized participation per interval{cap ? ` (cap ${order.maxPart}%)` : ""}</text>
+        {series.points.map((p, i) => {
+          if (p.participation === null) return null;
+          const x0 = i ? x(series.points[i - 1].at) : x(series.start);
+          const x1 = x(p.at);
+          const over = cap > 0 && p.participation > cap;
+          return (
+            <rect key={p.at} x={x0} y={yPart(p.participation)} width={Math.max(1, x1 - x0 - 1)}
+              height={PANES.part.y + PANES.part.h - yPart(p.participation)} fill={over ? "#e11d48" : "#0ea5e9"}>
+              <title>{`${p.at} · ${(p.participation * 100).toFixed(1)}%`}</title>
+            </rect>
+          );
+        })}
+        {cap > 0 && <line x1={0} x2={CHART_W} y1={yPart(cap)} y2={yPart(cap)} stroke="#e11d48" strokeDasharray="4 2" />}
+
+        <text x={4} y={PANES.vwap.y - 4} className={label}>Order VWAP (solid) vs market VWAP (dashed)</text>
+        {prices.length > 0 && (
+          <>
+            <path d={line((p) => p.marketVWAP)} fill="none" stroke="#64748b" strokeDasharray="5 3" strokeWidth={1.5} />
+            <path d={line((p) => p.orderVWAP)} fill="none" stroke={order.side === "BUY" ? "#059669" : "#e11d48"} strokeWidth={2} />
+          </>
+        )}
+
+        {[series.start, ...series.windows.filter((w) => w.kind !== "BREAK").map((w) => w.start), series.end].map((t, i) => (
+          <text key={i} x={clamp(x(t), 14, CHART_W - 14)} y={CHART_H - 2} textAnchor="middle" className={label}>{t}</text>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-3 text-[11px] opacity-70 mt-1">
+        <span><span className="inline-block w-3 h-2 mr-1" style={{ background: WINDOW_FILL.AUCTION }} />Auction</span>
+        <span><span className="inline-block w-3 h-2 mr-1" style={{ background: WINDOW_FILL.TAL }} />TAL</span>
+        <span><span className="inline-block w-3 h-2 mr-1" style={{ background: WINDOW_FILL.BREAK }} />Break</span>
+        <span>Dotted lines: slice boundaries</span>
+      </div>
+    </div>
+  );
+}
 
-  // Snapshot
-  function logSnapshot(note?: string) {
-    const snap: Snapshot = {
-      at: nowHHMMSS(),
-      note,
-      currentVol: order.currentVol,
-      expectedContVol: order.expectedContVol,
-      expectedAuctionVol: order.expectedAuctionVol,
-      orderExecQty: order.orderExecQty,
-      orderExecNotional: order.orderExecNotional,
-      marketTurnover: order.marketTurnover,
-      marketVWAPInput: order.marketVWAPInput,
-    };
-    onChange({ ...order, snapshots: [...order.snapshots, snap] });
-  }
+/* -------------------- Closing auction indications -------------------- */
+function AuctionPanel({ order, plan, onChange }: { order: Order; plan: BuiltPlan; onChange: (o: Order) => void }) {
+  const tz = marketTz(order.market);
+  const inAuction = sessionPhase(order, nowHHMM(tz)) === "AUCTION";
+  const [open, setOpen] = useState(inAuction);
+  useEffect(() => { if (inAuction) setOpen(true); }, [inAuction]);
+  const last = latestIndication(order);
+  const [draft, setDraft] = useState<Omit<AuctionIndication, "at">>(
+    () => last ?? { price: 0, matchedVol: 0, imbalanceSide: "NONE", imbalanceQty: 0 }
+  );
+  const a = assessAuction(order, plan);
 
-  // Mark completed
-  function markCompleted() {
-    onChange({ ...order, completed: true });
+  function record() {
+    if (!(draft.matchedVol > 0)) return;
+    const imbalanceQty = draft.imbalanceSide === "NONE" ? 0 : draft.imbalanceQty;
+    onChange(addIndication(order, { ...draft, imbalanceQty, at: nowHHMMSS(tz) }));
   }
 
-  // Theme helpers
-  const barColor = t.strong;
-
-  // Simple/Advanced toggle
-  const [showAdvanced, setShowAdvanced] = useState(false);
-
   return (
-    <div className={`rounded-2xl shadow border ${t.border} bg-white overflow-hidden`}>
-      {/* Header: name editable & controls */}
-      <div className={`px-4 py-3 border-b ${t.border} flex items-center justify-between`}>
-        <div className="flex items-center gap-3">
-          <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold ${t.bgSoft} ${t.text}`}>
-            {order.side}
-          </span>
-          <input
-            className="border rounded-xl px-2 py-1 text-sm"
-            value={order.name}
-            onChange={(e) => onChange({ ...order, name: e.target.value })}
-            onFocus={onFocusMe}
-          />
-          <div className="text-xs opacity-60">Local time: <span className="font-mono">{clock}</span></div>
-        </div>
-        <div className="flex gap-2">
-          <button onClick={() => setShowAdvanced((s) => !s)} className="px-3 py-2 rounded-xl border text-sm">
-            {showAdvanced ? "Simple View" : "Advanced View"}
-          </button>
-          {!order.completed && (
-            <button onClick={markCompleted} className="px-3 py-2 rounded-xl bg-slate-900 text-white text-sm">
-              Mark Completed
-            </button>
+    <div className="mt-3 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Closing auction
+      </button>
+      {last && (
+        <span className="ml-2 text-xs opacity-70">
+          indicative {formatMoney(last.price, 4)} · matched {formatInt(last.matchedVol)}
+          {last.imbalanceSide !== "NONE" && <> · {last.imbalanceSide} imbalance {formatInt(last.imbalanceQty)}</>} ({last.at})
+        </span>
+      )}
+      {open && (
+        <div className="mt-2 space-y-2">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+            <MoneyInput label="Indicative price" value={draft.price} onNumberChange={(n)=>setDraft({ ...draft, price: n })}/>
+            <IntInput label="Matched vol" value={draft.matchedVol} onChange={(n)=>setDraft({ ...draft, matchedVol: n })}/>
+            <label className="text-sm">Imbalance
+              <select className="mt-1 w-full border rounded-xl p-2" value={draft.imbalanceSide}
+                onChange={(e)=>setDraft({ ...draft, imbalanceSide: e.target.value as AuctionIndication["imbalanceSide"] })}>
+                <option value="NONE">None</option>
+                <option value="BUY">Buy surplus</option>
+                <option value="SELL">Sell surplus</option>
+              </select>
+            </label>
+            <IntInput label="Imbalance qty" value={draft.imbalanceSide === "NONE" ? 0 : draft.imbalanceQty}
+              onChange={(n)=>setDraft({ ...draft, imbalanceQty: n })}/>
+            <label className="text-sm">Max share of imbalance %
+              <input type="number" className="mt-1 w-full border rounded-xl p-2" value={order.imbalanceSharePct}
+                onChange={(e)=>onChange({ ...order, imbalanceSharePct: clamp(parseFloat(e.target.value || "0"), 0, 100) })}/>
+            </label>
+            <button onClick={record} disabled={!(draft.matchedVol > 0)}
+              className="px-3 py-2 rounded-xl bg-slate-900 text-white text-sm disabled:opacity-40">Record indication</button>
+          </div>
+          {a && (
+            <div className="rounded-xl border p-3 space-y-1 text-xs">
+              <div className="flex flex-wrap gap-4">
+                <span>Ours for the auction: <b>{formatInt(a.ourQty)}</b></span>
+                <span>Allowed ({order.capMode === "PCT" ? `${order.maxPart}% of matched` : "no cap"}): <b>{formatInt(a.allowed)}</b>
+                  {a.allowed !== plan.auctionAllowed && <span className="opacity-60"> (plan {formatInt(plan.auctionAllowed)})</span>}</span>
+                {a.absorbable > 0 && <span>Imbalance share limit: <b>{formatInt(a.shareLimit)}</b></span>}
+                <span>Suggested in auction: <b>{formatInt(a.ourQty - a.toTal)}</b></span>
+                {hasTalWindow(order) && <span>TAL spare: <b>{formatInt(a.talSpare)}</b></span>}
+              </div>
+              {a.warnings.map((w, i) => <div key={i} className="text-amber-700">⚠ {w}</div>)}
+              <div className="font-semibold">{a.suggestion}</div>
+              {a.indication.matchedVol !== order.expectedAuctionVol && (
+                <button onClick={()=>onChange({ ...order, expectedAuctionVol: a.indication.matchedVol })}
+                  className="px-2 py-1 rounded border">Re-plan with matched {formatInt(a.indication.matchedVol)} as expected auction volume</button>
+              )}
+            </div>
+          )}
+          {(order.auctionIndications || []).length > 1 && (
+            <table className="text-xs">
+              <thead><tr className="text-left text-slate-500"><th className="pr-3">Time</th><th className="pr-3">Price</th><th className="pr-3">Matched</th><th>Imbalance</th></tr></thead>
+              <tbody>
+                {[...order.auctionIndications!].reverse().map((x, i) => (
+                  <tr key={i}>
+                    <td className="pr-3 font-mono">{x.at}</td>
+                    <td className="pr-3">{formatMoney(x.price, 4)}</td>
+                    <td className="pr-3">{formatInt(x.matchedVol)}</td>
+                    <td>{x.imbalanceSide === "NONE" ? "—" : `${x.imbalanceSide} ${formatInt(x.imbalanceQty)}`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           )}
-          <button onClick={onDuplicate} className="px-3 py-2 rounded-xl border text-sm">Duplicate</button>
-          <button onClick={onRemove} className="px-3 py-2 rounded-xl border text-sm">Remove</button>
         </div>
-      </div>
+      )}
+    </div>
+  );
+}
 
-      {/* Completed? → quick report */}
-      {order.completed && (
-        <div className="p-4 grid md:grid-cols-4 gap-3 bg-slate-50 border-b">
-          <Stat title="Final Completion" value={`${completionPct}%`} />
-          <Stat title="Order VWAP" value={orderVWAP ? formatMoney(orderVWAP, 4) : "—"} />
-          <Stat title="Market VWAP" value={marketVWAP ? formatMoney(marketVWAP, 4) : "—"} />
-          <Stat title="Slippage (bps)" value={Number.isFinite(perf) ? perf.toFixed(1) : "—"} />
+/* -------------------- Participation-cap compliance -------------------- */
+function CapCompliance({ order, plan, tradeDate }: { order: Order; plan: BuiltPlan; tradeDate: string }) {
+  const [open, setOpen] = useState(false);
+  const report = useMemo(() => complianceReport(order, plan), [order, plan]);
+  const observed = report.buckets.filter((b) => b.observedTo);
+  const pct = (p: number | null) => (p === null ? "—" : `${(p * 100).toFixed(1)}%`);
+  const item = { order, plan, now: nowHHMM(marketTz(order.market)) };
+
+  return (
+    <div className="mt-3 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Cap compliance
+      </button>
+      {report.capPct !== null && (
+        <span className={`ml-2 text-xs ${report.worst === "CRIT" ? "text-rose-700" : report.worst ? "text-amber-700" : "text-emerald-700"}`}>
+          {report.breaches === 0 ? "within cap" : `${report.breaches} breach(es), ${formatInt(report.excessQty)} over`}
+        </span>
+      )}
+      {open && (
+        <div className="mt-2 space-y-2">
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            <span>Max participation: {report.capPct === null ? "no cap" : `${report.capPct}%`}</span>
+            <span>Realized (session): {pct(report.session.participation)}
+              {report.session.observedTo && <span className="opacity-60"> to {report.session.observedTo}</span>}</span>
+            <button onClick={()=>downloadText(`${fileStem(tradeDate, order.symbol, order.name)}_compliance.csv`, toCsv(complianceTable(report)))}
+              disabled={observed.length === 0} className="px-2 py-1 rounded border disabled:opacity-40">Compliance CSV</button>
+            <button onClick={()=>openReport(complianceReportHtml(item, { tradeDate, generatedAt: new Date().toLocaleString() }))}
+              className="px-2 py-1 rounded border">Compliance report</button>
+          </div>
+          {observed.length === 0 ? (
+            <div className="text-xs text-slate-500">No market volume observed yet — snapshots (or feed updates) measure realized participation.</div>
+          ) : (
+            <div className="overflow-x-auto rounded-xl border">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50">
+                  <tr className="text-left">
+                    <th className="p-2">Interval</th>
+                    <th className="p-2">Market Vol</th>
+                    <th className="p-2">Executed</th>
+                    <th className="p-2">Realized</th>
+                    <th className="p-2">Allowed</th>
+                    <th className="p-2">Breach</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {observed.map((b) => (
+                    <tr key={b.label} className={`border-t ${b.breach?.severity === "CRIT" ? "bg-rose-50" : b.breach ? "bg-amber-50" : ""}`}>
+                      <td className="p-2">{b.label}{b.observedTo!.slice(0, 5) < b.e && <span className="opacity-60"> (to {b.observedTo})</span>}</td>
+                      <td className="p-2">{formatInt(b.marketVol)}</td>
+                      <td className="p-2">{formatInt(b.executed)}</td>
+                      <td className="p-2">{pct(b.participation)}</td>
+                      <td className="p-2">{b.allowed === null ? "∞" : formatInt(b.allowed)}</td>
+                      <td className="p-2">{b.breach ? `${b.breach.severity} · ${formatInt(b.breach.excessQty)} over` : "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* -------------------- Multi-day orders -------------------- */
+function MultiDayPanel({
+  order, tradeDate, calendar, onChange,
+}: {
+  order: Order;
+  tradeDate: string;
+  calendar: CalendarEntry[];
+  onChange: (o: Order) => void;
+}) {
+  const [open, setOpen] = useState(!!order.multiDay);
+  const md = order.multiDay;
+  const schedule = useMemo(() => (md ? dailySchedule(md, order.market, tradeDate, calendar) : null), [md, order.market, tradeDate, calendar]);
+  const summary = multiDaySummary(order, tradeDate);
+
+  // Today's quantity always follows the schedule
+  const setMultiDay = (next: MultiDay) => onChange({ ...order, multiDay: next, orderQty: allocationFor(next, order.market, tradeDate, calendar) });
+  const edit = (patch: Partial<MultiDay>) => md && setMultiDay({ ...md, ...patch });
+  const cell = "py-1.5 pr-3";
+
+  return (
+    <div className="mt-3 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Multi-day{md ? ` · parent ${formatInt(md.parentQty)}` : ""}
+      </button>
+      {open && !md && (
+        <div className="mt-2 flex items-center gap-3">
+          <span className="text-xs opacity-70">Work a large parent order over several sessions, capped at a share of ADV per day.</span>
+          <button onClick={() => setMultiDay(newMultiDay(order, tradeDate))} className="px-3 py-1.5 rounded-xl border text-xs">
+            Make multi-day
+          </button>
+        </div>
+      )}
+      {open && md && schedule && summary && (
+        <div className="mt-2 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <IntInput label="Parent Qty" value={md.parentQty} onChange={(n) => edit({ parentQty: n })} />
+            <IntInput label="ADV" value={md.adv} onChange={(n) => edit({ adv: n })} />
+            <label className="text-sm">Max % of ADV / day
+              <input type="number" className="mt-1 w-full border rounded-xl p-2" value={md.maxAdvPct}
+                onChange={(e)=>edit({ maxAdvPct: Math.max(0, parseFloat(e.target.value || "0")) })}/>
+            </label>
+            <label className="text-sm">Target days (0 = ASAP)
+              <input type="number" className="mt-1 w-full border rounded-xl p-2" value={md.targetDays}
+                onChange={(e)=>edit({ targetDays: Math.max(0, Math.floor(parseFloat(e.target.value || "0"))) })}/>
+            </label>
+          </div>
+          <div className="text-xs opacity-70">
+            Day {md.history.length + 1} · daily cap {formatInt(dailyCap(md))} · today's allocation {formatInt(order.orderQty)}
+            {schedule.capBinding && <span className="ml-2 text-amber-700">The ADV cap stretches the order to {schedule.days.length} days.</span>}
+            {order.orderQty === 0 && <span className="ml-2 text-amber-700">No allocation today (market closed or parent done).</span>}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-3">
+            <div className="rounded-xl border overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50">
+                  <tr className="text-left"><th className={cell}>Session</th><th className={cell}>Qty</th><th className={cell}>% ADV</th></tr>
+                </thead>
+                <tbody>
+                  {schedule.days.map((d) => (
+                    <tr key={d.date} className={`border-t ${d.date === tradeDate ? "font-semibold" : ""}`}>
+                      <td className={`${cell} font-mono`}>{d.date}</td>
+                      <td className={cell}>{formatInt(d.qty)}</td>
+                      <td className={cell}>{md.adv > 0 ? `${((d.qty / md.adv) * 100).toFixed(1)}%` : "—"}</td>
+                    </tr>
+                  ))}
+                  {schedule.days.length === 0 && (
+                    <tr><td className={`${cell} text-slate-500`} colSpan={3}>Nothing left to schedule.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="rounded-xl border overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50">
+                  <tr className="text-left">
+                    <th className={cell}>Session</th><th className={cell}>Executed</th><th className={cell}>Avg Px</th><th className={cell}>Mkt VWAP</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.days.map((d) => (
+                    <tr key={d.date} className="border-t">
+                      <td className={`${cell} font-mono`}>{d.date}{d.date === tradeDate ? " (today)" : ""}</td>
+                      <td className={cell}>{formatInt(d.executedQty)} / {formatInt(d.allocated)}</td>
+                      <td className={cell}>{d.executedQty > 0 ? formatMoney(d.executedNotional / d.executedQty, 4) : "—"}</td>
+                      <td className={cell}>{d.marketVWAP ? formatMoney(d.marketVWAP, 4) : "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t font-semibold">
+                    <td className={cell}>Cumulative</td>
+                    <td className={cell}>{formatInt(summary.executedQty)} ({Math.round(summary.completion * 100)}%)</td>
+                    <td className={cell}>{summary.avgPrice ? formatMoney(summary.avgPrice, 4) : "—"}</td>
+                    <td className={cell}>{summary.marketVWAP ? formatMoney(summary.marketVWAP, 4) : "—"}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Stat title="Parent completion" value={`${formatInt(summary.executedQty)} / ${formatInt(md.parentQty)}`} />
+            <Stat title="Vs multi-day VWAP (bps)" value={summary.avgPrice && summary.marketVWAP ? summary.vwapBps.toFixed(1) : "—"} />
+            <Stat title="Vs first arrival (bps)" value={summary.avgPrice && summary.arrivalPrice ? summary.arrivalBps.toFixed(1) : "—"} />
+            <div className="flex items-end">
+              <button onClick={() => onChange({ ...order, multiDay: undefined })} className="px-3 py-1.5 rounded-xl border text-xs">
+                Back to single day
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* -------------------- Alert rules & history -------------------- */
+const SNOOZE_MINS = 15;
+const THRESHOLD_FIELDS: { key: Exclude<keyof AlertRules, "off">; label: string; rule: AlertRuleId }[] = [
+  { key: "paceBandPct", label: "Pace band ±%", rule: "pace" },
+  { key: "capBindingPct", label: "Cap-bound slices %", rule: "capBinding" },
+  { key: "impactPct", label: "Impact % of slice vol", rule: "impact" },
+  { key: "sessionEndMins", label: "Session-end lead (min, 0 = interval)", rule: "sessionEnd" },
+  { key: "slippageBps", label: "Slippage worse than (bps, 0 = off)", rule: "slippage" },
+  { key: "remainingVolPct", label: "Remaining > % of expected vol (0 = off)", rule: "remainingVolume" },
+];
+
+function AlertRulesEditor({ rules, onChange }: { rules: AlertRules; onChange: (r: AlertRules) => void }) {
+  const toggle = (rule: AlertRuleId, enabled: boolean) =>
+    onChange({ ...rules, off: enabled ? rules.off.filter((x) => x !== rule) : [...rules.off, rule] });
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <div className="grid grid-cols-2 gap-2 content-start">
+        {THRESHOLD_FIELDS.map((f) => (
+          <label key={f.key} className="text-xs">{f.label}
+            <input type="number" className="mt-1 w-full border rounded-xl p-1.5" value={rules[f.key]}
+              onChange={(e)=>onChange({ ...rules, [f.key]: Math.max(0, parseFloat(e.target.value || "0")) })}/>
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-1 content-start">
+        {(Object.keys(ALERT_RULE_LABEL) as AlertRuleId[]).map((rule) => (
+          <label key={rule} className="text-xs flex items-center gap-2">
+            <input type="checkbox" checked={!rules.off.includes(rule)} onChange={(e)=>toggle(rule, e.target.checked)}/>
+            {ALERT_RULE_LABEL[rule]}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function AlertRulesPanel({ rules, onChange }: { rules: AlertRules; onChange: (r: AlertRules) => void }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Alert rules (desk)
+      </button>
+      {open && (
+        <div className="mt-2 space-y-2">
+          <div className="text-xs opacity-70">Apply to every order without its own rules.</div>
+          <AlertRulesEditor rules={rules} onChange={onChange} />
+          <button onClick={() => onChange(DEFAULT_ALERT_RULES)} className="px-3 py-1.5 rounded-xl border text-xs">Reset to defaults</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function OrderAlertsPanel({
+  order, deskRules, onChange,
+}: {
+  order: Order;
+  deskRules: AlertRules;
+  onChange: (o: Order) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const log = order.alertLog || [];
+  const kindCls: Record<AlertEvent["kind"], string> = {
+    RAISED: "text-amber-700", ESCALATED: "text-rose-700", CLEARED: "text-emerald-700", ACK: "opacity-60", SNOOZE: "opacity-60",
+  };
+  return (
+    <div className="text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="text-xs font-semibold">
+        {open ? "▾" : "▸"} Alert rules & history ({log.length})
+      </button>
+      {open && (
+        <div className="mt-2 space-y-3">
+          <label className="text-xs flex items-center gap-2">
+            <input type="checkbox" checked={!!order.alertRules}
+              onChange={(e)=>onChange({ ...order, alertRules: e.target.checked ? alertRulesFor(deskRules, order) : undefined })}/>
+            Own thresholds for this order (otherwise the desk's)
+          </label>
+          {order.alertRules && (
+            <AlertRulesEditor rules={order.alertRules} onChange={(r) => onChange({ ...order, alertRules: r })} />
+          )}
+          <div className="rounded-xl border overflow-x-auto max-h-56">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50">
+                <tr className="text-left"><th className="p-2">Time</th><th className="p-2">Event</th><th className="p-2">Level</th><th className="p-2">Alert</th></tr>
+              </thead>
+              <tbody>
+                {[...log].reverse().map((e, i) => (
+                  <tr key={i} className="border-t">
+                    <td className="p-2 font-mono">{e.at}</td>
+                    <td className={`p-2 ${kindCls[e.kind]}`}>{e.kind}</td>
+                    <td className="p-2">{e.level}</td>
+                    <td className="p-2">{e.msg}</td>
+                  </tr>
+                ))}
+                {log.length === 0 && <tr><td className="p-2 text-slate-500" colSpan={4}>No alerts raised yet.</td></tr>}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* -------------------- Themes -------------------- */
+function theme(side: Side) {
+  return side === "BUY"
+    ? { text: "text-emerald-700", bgSoft: "bg-emerald-50", border: "border-emerald-300", strong: "bg-emerald-600" }
+    : { text: "text-rose-700", bgSoft: "bg-rose-50", border: "border-rose-300", strong: "bg-rose-600" };
+}
+
+/* -------------------- Planner Card -------------------- */
+function PlannerCard({
+  order, tradeDate, histCurve, calendar, deskRules, baskets, onChange, onRemove, onDuplicate, onFocusMe, onPopOut,
+}: {
+  order: Order;
+  tradeDate: string;
+  baskets: Basket[];
+  histCurve?: VolumeCurve;
+  calendar: CalendarEntry[];
+  deskRules: AlertRules;
+  onChange: (o: Order) => void;
+  onRemove: () => void;
+  onDuplicate: () => void;
+  onFocusMe?: () => void;
+  onPopOut?: () => void;
+}) {
+  const t = theme(order.side);
+  const tz = marketTz(order.market);
+  const [clock, setClock] = useState({ exch: nowHHMMSS(tz), dealer: nowHHMMSS() });
+  useEffect(() => {
+    const id = setInterval(() => setClock({ exch: nowHHMMSS(tz), dealer: nowHHMMSS() }), 1000);
+    return () => clearInterval(id);
+  }, [tz]);
+
+  // Market preset apply (per order)
+  // Picks today's timetable (Ramadan / half day); falls back to the regular one when closed
+  function applyMarketPreset(m: MarketKey, startFromNow: boolean) {
+    const tzM = MARKET_TZ[m];
+    onChange(withMarket(order, m, todayISO(tzM), calendar, startFromNow ? nowHHMM(tzM) : undefined));
+  }
+
+  // Volume profiles (reduce typing)
+  function applyProfile(profile: LiquidityProfile) {
+    const pv = PROFILE_VOLS[profile];
+    onChange({ ...order, liquidity: profile, expectedContVol: pv.cont, expectedAuctionVol: pv.auction, expectedTalVol: pv.tal });
+  }
+
+  // Historical curve → expected volumes (averages over the imported days)
+  function applyHistoricalVolumes() {
+    if (!histCurve) return;
+    onChange({
+      ...order,
+      curve: "historical",
+      expectedContVol: histCurve.avgContVol,
+      expectedAuctionVol: histCurve.avgAuctionVol,
+      expectedTalVol: histCurve.avgTalVol,
+    });
+  }
+
+  const plan = useMemo(() => buildPlan(order, histCurve), [order, histCurve]);
+  const totalPlanned = plan.contPlanned + plan.auctionPlanned + plan.talPlanned;
+  const remaining = Math.max(0, order.orderQty - totalPlanned);
+
+  /* ---- Accumulated Suggested & Executed ---- */
+  const now = nowHHMM(tz);
+  // With a limit, only volume we could actually trade counts towards the pacing target
+  const limitSkip = hasLimit(order) ? order.outOfLimitSlices : [];
+  const accSuggested = useMemo(() => pacingTarget(order, plan, now), [order, plan, now]);
+  const accExecuted = fillTotals(order.fills).qty;
+  const execByRow = useMemo(() => executedByRow(plan.rows, order.fills), [plan.rows, order.fills]);
+  const [execAuction, execTal] = useMemo(
+    () => executedByRow([{ s: order.auctionStart, e: order.auctionEnd }, { s: order.talStart, e: order.talEnd }], order.fills),
+    [order.auctionStart, order.auctionEnd, order.talStart, order.talEnd, order.fills]
+  );
+  const deltaVsPlan = accExecuted - accSuggested;
+
+  // Re-plan of what is left, next to the original schedule
+  const replanIn = useMemo(
+    () => (order.replan ? replanInputs(order, plan, now) : null),
+    [order, plan, now]
+  );
+  const replanned = useMemo(
+    () => (replanIn ? buildPlan(order, histCurve, replanIn) : null),
+    [order, histCurve, replanIn]
+  );
+  const replanByEnd = useMemo(
+    () => new Map((replanned?.rows || []).map((r) => [r.e, r] as const)),
+    [replanned]
+  );
+  const replanTotal = replanned ? replanned.contPlanned + replanned.auctionPlanned + replanned.talPlanned : 0;
+  const replanLive = replanned?.rows.find((r) => now >= r.s && now < r.e);
+
+  // Completion
+  const completionPct = order.orderQty > 0 ? Math.min(100, Math.round((accExecuted / order.orderQty) * 100)) : 0;
+
+  // Pacing class
+  const rules = useMemo(() => alertRulesFor(deskRules, order), [deskRules, order.alertRules]);
+  const paceClass = paceOf(accExecuted, accSuggested, rules.paceBandPct);
+
+  // VWAP performance
+  const marketVWAP = impliedMarketVWAP(order.marketTurnover, order.currentVol - order.startVol, order.marketVWAPInput);
+  const execTotals = fillTotals(order.fills);
+  const orderVWAP = execTotals.qty > 0 ? execTotals.notional / execTotals.qty : 0;
+  const bmCtx = { orderVWAP, executedQty: execTotals.qty, marketVWAP, now };
+  const bench = benchmarkSlippage(order, order.benchmark, bmCtx);
+  const perf = bench.bps;
+  const bmLabel = BENCHMARK_LABEL[order.benchmark];
+
+  // Next Action (simple)
+  let nextAction = "Keep steady.";
+  if (paceClass === "LAG") nextAction = "Increase clip size or relax cap.";
+  if (paceClass === "AHEAD") nextAction = "Ease slightly; protect auction reserve.";
+  if (remaining <= 0) nextAction = "Done — maintain auction stance as configured.";
+  if (replanLive && paceClass !== "ON") nextAction = `Re-plan: work ${formatInt(replanLive.suggestedQty)} by ${replanLive.e}.`;
+  const liveRow = plan.rows.find((r) => now >= r.s && now < r.e);
+  const lastSnap = order.snapshots[order.snapshots.length - 1];
+  const outOfLimitNow = hasLimit(order) && ((liveRow && limitSkip.includes(liveRow.s)) || !!lastSnap?.outOfLimit);
+  if (outOfLimitNow) nextAction = "Market through limit — hold; resume when back inside.";
+
+  // Alerts: desk rules (or the order's own), acknowledged / snoozed ones muted
+  const exchDate = todayISO(tz);
+  const alerts = useMemo(
+    () => evaluateAlerts({ order, plan, now, dateISO: exchDate, calendar }, rules),
+    [order, plan, now, exchDate, calendar, rules]
+  );
+  // Raised / cleared transitions are recorded by the App-level alert sync, whether or not this card is shown
+  const shownAlerts = visibleAlerts(order, alerts, now);
+
+  // Status colors
+  const paceTag =
+    paceClass === "AHEAD" ? "bg-emerald-600" : paceClass === "ON" ? "bg-slate-600" : "bg-amber-600";
+
+  // Notifications / reminders
+  useEffect(() => {
+    if (!order.notificationsOn) return;
+    requestNotifyPermission();
+  }, [order.notificationsOn]);
+
+  // Reminders themselves run in the App-level scheduler, whether or not this card is shown
+
+  // Snapshot
+  function logSnapshot(note?: string, outOfLimit?: boolean) {
+    const snap: Snapshot = {
+      at: nowHHMMSS(tz),
+      note,
+      outOfLimit: outOfLimit || undefined,
+      currentVol: order.currentVol,
+      expectedContVol: order.expectedContVol,
+      expectedAuctionVol: order.expectedAuctionVol,
+      expectedTalVol: order.expectedTalVol,
+      orderExecQty: order.orderExecQty,
+      orderExecNotional: order.orderExecNotional,
+      marketTurnover: order.marketTurnover,
+      marketVWAPInput: order.marketVWAPInput,
+      lastPrice: order.lastPrice || undefined,
+    };
+    // First snapshot with a price doubles as arrival when none was captured at start
+    const arrival = !order.arrivalPrice && order.lastPrice ? { arrivalPrice: order.lastPrice, arrivalAt: snap.at } : {};
+    onChange({ ...order, ...arrival, snapshots: [...order.snapshots, snap] });
+  }
+
+  function captureArrival() {
+    if (!order.lastPrice) return;
+    onChange({ ...order, arrivalPrice: order.lastPrice, arrivalAt: nowHHMMSS(tz) });
+  }
+
+  function toggleSnapshotLimit(idx: number) {
+    onChange({
+      ...order,
+      snapshots: order.snapshots.map((sn, i) => (i === idx ? { ...sn, outOfLimit: !sn.outOfLimit || undefined } : sn)),
+    });
+  }
+  function toggleSliceLimit(start: string) {
+    const cur = order.outOfLimitSlices;
+    onChange({ ...order, outOfLimitSlices: cur.includes(start) ? cur.filter((x) => x !== start) : [...cur, start] });
+  }
+
+  // Mark completed
+  function markCompleted() {
+    onChange({ ...order, completed: true });
+  }
+
+  // Export
+  const stem = fileStem(tradeDate, order.symbol, order.name);
+  function exportPlanCsv() {
+    downloadText(`${stem}_plan.csv`, toCsv(planTable(order, plan)));
+  }
+  function exportSnapshotsCsv() {
+    downloadText(`${stem}_snapshots.csv`, toCsv(snapshotTable(order)));
+  }
+  function exportChangesCsv() {
+    downloadText(`${stem}_changes.csv`, toCsv(changeLogTable(order)));
+  }
+  function openOrderReport() {
+    openReport(orderReportHtml({ order, plan, now }, { tradeDate, generatedAt: new Date().toLocaleString() }));
+  }
+
+  // Theme helpers
+  const barColor = t.strong;
+
+  // Simple/Advanced toggle
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  return (
+    <div className={`rounded-2xl shadow border ${t.border} bg-white overflow-hidden`}>
+      {/* Header: name editable & controls */}
+      <div className={`px-4 py-3 border-b ${t.border} flex items-center justify-between`}>
+        <div className="flex items-center gap-3">
+          <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold ${t.bgSoft} ${t.text}`}>
+            {order.side}
+          </span>
+          <input
+            className="border rounded-xl px-2 py-1 text-sm"
+            value={order.name}
+            onChange={(e) => onChange({ ...order, name: e.target.value })}
+            onFocus={onFocusMe}
+          />
+          {baskets.length > 0 && (
+            <select className="border rounded-xl px-2 py-1 text-xs" value={order.basketId || ""}
+              onChange={(e)=>onChange({ ...order, basketId: e.target.value || undefined })}>
+              <option value="">No basket</option>
+              {baskets.map((b)=>(<option key={b.id} value={b.id}>{b.name}</option>))}
+            </select>
+          )}
+          <div className="text-xs opacity-60">
+            {tz ? <>Exchange ({tzLabel(tz)}): <span className="font-mono">{clock.exch}</span> · </> : null}
+            Dealer: <span className="font-mono">{clock.dealer}</span>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => setShowAdvanced((s) => !s)} className="px-3 py-2 rounded-xl border text-sm">
+            {showAdvanced ? "Simple View" : "Advanced View"}
+          </button>
+          {!order.completed && (
+            <button onClick={markCompleted} className="px-3 py-2 rounded-xl bg-slate-900 text-white text-sm">
+              Mark Completed
+            </button>
+          )}
+          <button onClick={exportPlanCsv} className="px-3 py-2 rounded-xl border text-sm">Plan CSV</button>
+          <button onClick={exportSnapshotsCsv} disabled={order.snapshots.length === 0}
+            className="px-3 py-2 rounded-xl border text-sm disabled:opacity-40">Snapshots CSV</button>
+          <button onClick={exportChangesCsv} disabled={!order.changeLog?.length}
+            className="px-3 py-2 rounded-xl border text-sm disabled:opacity-40">Changes CSV</button>
+          <button onClick={openOrderReport} className="px-3 py-2 rounded-xl border text-sm">Report</button>
+          {onPopOut && (
+            <button onClick={onPopOut} title="Open this order alone in a new window" className="px-3 py-2 rounded-xl border text-sm">Pop out</button>
+          )}
+          <button onClick={onDuplicate} className="px-3 py-2 rounded-xl border text-sm">Duplicate</button>
+          <button onClick={onRemove} className="px-3 py-2 rounded-xl border text-sm">Remove</button>
+        </div>
+      </div>
+
+      {/* Completed? → quick report */}
+      {order.completed && (
+        <div className="p-4 grid md:grid-cols-4 gap-3 bg-slate-50 border-b">
+          <Stat title="Final Completion" value={`${completionPct}%`} />
+          <Stat title="Order VWAP" value={orderVWAP ? formatMoney(orderVWAP, 4) : "—"} />
+          <Stat title="Market VWAP" value={marketVWAP ? formatMoney(marketVWAP, 4) : "—"} />
+          <Stat title={`Slippage vs ${bmLabel} (bps)`} value={bench.price && Number.isFinite(perf) ? perf.toFixed(1) : "—"} />
+          {(Object.keys(BENCHMARK_LABEL) as Benchmark[]).map((bm) => {
+            const r = benchmarkSlippage(order, bm, bmCtx);
+            return (
+              <Stat key={bm} title={`${BENCHMARK_LABEL[bm]}${bm === order.benchmark ? " (chosen)" : ""}`}
+                value={r.price ? `${formatMoney(r.price, 4)} · ${r.bps.toFixed(1)} bps` : "—"} />
+            );
+          })}
         </div>
       )}
 
@@ -674,7 +1396,7 @@ function PlannerCard({
               </div>
             </div>
           }/>
-          <Stat title="Slippage (bps)" value={Number.isFinite(perf) ? perf.toFixed(1) : "—"} />
+          <Stat title={`Slippage vs ${bmLabel} (bps)`} value={bench.price && Number.isFinite(perf) ? perf.toFixed(1) : "—"} />
           <Stat title="Remaining" value={formatInt(Math.max(0, order.orderQty - accExecuted))} />
           <div className="flex flex-col gap-1">
             <div className="opacity-60 text-xs">Next Best Action</div>
@@ -685,20 +1407,36 @@ function PlannerCard({
 
       {/* Alerts row */}
       {!order.completed && (
-        <div className="px-4 pb-2 flex flex-wrap gap-2">
-          {alerts.length === 0 ? (
-            <span className="text-xs px-2.5 py-1 rounded-full bg-slate-100">All checks OK</span>
+        <div className="px-4 pb-2 flex flex-wrap items-center gap-2">
+          {shownAlerts.length === 0 ? (
+            <span className="text-xs px-2.5 py-1 rounded-full bg-slate-100">
+              {alerts.length === 0 ? "All checks OK" : `All checks OK · ${alerts.length} muted`}
+            </span>
           ) : (
-            alerts.map((a, i) => {
+            shownAlerts.map((a) => {
               const cls =
                 a.level === "CRIT" ? "bg-rose-600 text-white"
                 : a.level === "WARN" ? `${t.bgSoft} ${t.text} border ${t.border}`
                 : "bg-slate-100";
               return (
-                <span key={i} className={`text-xs px-2.5 py-1 rounded-full ${cls}`}>{a.msg}</span>
+                <span key={a.rule} className={`text-xs pl-2.5 pr-1 py-1 rounded-full inline-flex items-center gap-1 ${cls}`}>
+                  {a.msg}
+                  <button onClick={()=>onChange(acknowledgeAlert(order, a.rule, nowHHMMSS(tz)))}
+                    title="Acknowledge — hide until it clears or escalates" className="px-1.5 rounded-full border border-current opacity-70">Ack</button>
+                  <button onClick={()=>onChange(snoozeAlert(order, a.rule, addMinutes(now, SNOOZE_MINS), nowHHMMSS(tz)))}
+                    title={`Snooze ${SNOOZE_MINS} min`} className="px-1.5 rounded-full border border-current opacity-70">{SNOOZE_MINS}m</button>
+                </span>
               );
             })
           )}
+          {shownAlerts.length > 0 && alerts.length > shownAlerts.length && (
+            <span className="text-xs opacity-60">{alerts.length - shownAlerts.length} muted</span>
+          )}
+        </div>
+      )}
+      {!order.completed && (
+        <div className="px-4 pb-2">
+          <OrderAlertsPanel order={order} deskRules={deskRules} onChange={onChange} />
         </div>
       )}
 
@@ -722,6 +1460,8 @@ function PlannerCard({
             </label>
             <IntInput label="Order Qty" value={order.orderQty}
               onChange={(n)=>onChange({ ...order, orderQty: n })}/>
+            <MoneyInput label="Limit Price (blank = market)" value={order.limitPrice}
+              onNumberChange={(n)=>onChange({ ...order, limitPrice: n })}/>
             <label className="text-sm">
               Market
               <div className="flex flex-wrap gap-2 mt-1">
@@ -747,6 +1487,13 @@ function PlannerCard({
                     {p}
                   </button>
                 ))}
+                {histCurve && (
+                  <button onClick={applyHistoricalVolumes}
+                    title={`${histCurve.days}-day averages for ${histCurve.symbol} (${histCurve.market})`}
+                    className={`px-3 py-1.5 rounded-full border ${order.curve==="historical" ? "bg-slate-900 text-white" : "bg-white"}`}>
+                    Historical
+                  </button>
+                )}
               </div>
             </label>
           </div>
@@ -771,28 +1518,44 @@ function PlannerCard({
                   onChange={(e)=>onChange({ ...order, curve: e.target.value as Curve })}>
                   <option value="ucurve">U-curve</option>
                   <option value="equal">Equal</option>
+                  <option value="historical">
+                    {histCurve ? `Historical (${histCurve.days}d)` : "Historical (none loaded → U-curve)"}
+                  </option>
                 </select>
               </label>
             </div>
 
             <h3 className="font-semibold mt-3">Volumes (quick)</h3>
+            <DataSourceBadge order={order} />
             <div className="grid grid-cols-2 gap-3">
               <IntInput label="Start Vol" value={order.startVol} onChange={(n)=>onChange({ ...order, startVol: n })}/>
               <IntInput label="Current Vol" value={order.currentVol} onChange={(n)=>onChange({ ...order, currentVol: n })}/>
               <IntInput className="col-span-2" label="Expected Continuous" value={order.expectedContVol}
                 onChange={(n)=>onChange({ ...order, expectedContVol: n })}/>
-              <IntInput className="col-span-2" label="Expected Auction" value={order.expectedAuctionVol}
+              <IntInput label="Expected Auction" value={order.expectedAuctionVol}
                 onChange={(n)=>onChange({ ...order, expectedAuctionVol: n })}/>
+              <IntInput label="Expected TAL" value={order.expectedTalVol}
+                onChange={(n)=>onChange({ ...order, expectedTalVol: n })}/>
             </div>
           </div>
 
           <div className="space-y-3">
             <h3 className="font-semibold">Exec & VWAP</h3>
             <div className="grid grid-cols-2 gap-3">
-              <IntInput label="Executed Qty" value={order.orderExecQty} onChange={(n)=>onChange({ ...order, orderExecQty: n })}/>
-              <MoneyInput label="Executed Notional" value={order.orderExecNotional} onNumberChange={(n)=>onChange({ ...order, orderExecNotional: n })}/>
+              <IntInput label="Executed Qty" value={order.orderExecQty}
+                onChange={(n)=>onChange(reconcileTotals(order, n, order.orderExecNotional))}/>
+              <MoneyInput label="Executed Notional" value={order.orderExecNotional}
+                onNumberChange={(n)=>onChange(reconcileTotals(order, order.orderExecQty, n))}/>
               <MoneyInput label="Market Turnover" value={order.marketTurnover} onNumberChange={(n)=>onChange({ ...order, marketTurnover: n })}/>
               <MoneyInput label="Manual Market VWAP" value={order.marketVWAPInput} onNumberChange={(n)=>onChange({ ...order, marketVWAPInput: n })}/>
+              <MoneyInput label="Last Price" value={order.lastPrice} onNumberChange={(n)=>onChange({ ...order, lastPrice: n })}/>
+              <MoneyInput label="Close Price" value={order.closePrice} onNumberChange={(n)=>onChange({ ...order, closePrice: n })}/>
+              <MoneyInput label={`Arrival Price${order.arrivalAt ? ` @ ${order.arrivalAt}` : ""}`} value={order.arrivalPrice}
+                onNumberChange={(n)=>onChange({ ...order, arrivalPrice: n, arrivalAt: n ? order.arrivalAt || nowHHMMSS(tz) : undefined })}/>
+              <button onClick={captureArrival} disabled={!order.lastPrice}
+                className="self-end px-3 py-2 rounded-xl border text-sm disabled:opacity-40">
+                Capture arrival = last
+              </button>
             </div>
 
             <h3 className="font-semibold mt-3">Reminders</h3>
@@ -819,6 +1582,27 @@ function PlannerCard({
                   onChange={(e)=>onChange({ ...order, remindEveryMins: Math.max(1, parseInt(e.target.value||"1")) })}/>
               </label>
             )}
+            <label className="text-sm flex items-center gap-2">
+              <input type="checkbox" checked={order.eventReminders}
+                onChange={(e)=>onChange({ ...order, eventReminders: e.target.checked })}/>
+              Remind at auction / TAL start and before the close
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {order.eventReminders && (
+                <label className="text-sm">
+                  Close lead (mins)
+                  <input type="number" className="mt-1 w-full border rounded-xl p-2"
+                    value={order.sessionEndLeadMins}
+                    onChange={(e)=>onChange({ ...order, sessionEndLeadMins: Math.max(0, parseInt(e.target.value||"0")) })}/>
+                </label>
+              )}
+              <label className="text-sm">
+                Escalate after (mins, 0 = off)
+                <input type="number" className="mt-1 w-full border rounded-xl p-2"
+                  value={order.staleAfterMins}
+                  onChange={(e)=>onChange({ ...order, staleAfterMins: Math.max(0, parseInt(e.target.value||"0")) })}/>
+              </label>
+            </div>
             <button onClick={()=>logSnapshot()} className={`mt-2 px-3 py-2 rounded-xl text-white ${t.strong} text-sm`}>
               Log snapshot
             </button>
@@ -863,6 +1647,14 @@ function PlannerCard({
                 onChange={(e)=>onChange({ ...order, deferCompletion: e.target.checked })}/>
               Do not complete before end
             </label>
+            <label className="text-sm">Benchmark
+              <select className="mt-1 w-full border rounded-xl p-2" value={order.benchmark}
+                onChange={(e)=>onChange({ ...order, benchmark: e.target.value as Benchmark })}>
+                {(Object.keys(BENCHMARK_LABEL) as Benchmark[]).map((bm)=>(
+                  <option key={bm} value={bm}>{BENCHMARK_LABEL[bm]}</option>
+                ))}
+              </select>
+            </label>
           </div>
 
           {/* Timing detail */}
@@ -891,6 +1683,24 @@ function PlannerCard({
               </label>
             </div>
 
+            <div className="text-sm">Intraday breaks</div>
+            {order.breaks.map((b, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <input type="time" className="border rounded-xl p-2 text-sm" value={b.start}
+                  onChange={(e)=>onChange({ ...order, breaks: order.breaks.map((x, j) => j === i ? { ...x, start: e.target.value } : x) })}/>
+                –
+                <input type="time" className="border rounded-xl p-2 text-sm" value={b.end}
+                  onChange={(e)=>onChange({ ...order, breaks: order.breaks.map((x, j) => j === i ? { ...x, end: e.target.value } : x) })}/>
+                <button onClick={()=>onChange({ ...order, breaks: order.breaks.filter((_, j) => j !== i) })}
+                  className="px-2 py-1 text-xs rounded border">Remove</button>
+              </div>
+            ))}
+            <button onClick={()=>{
+                const mid = addMinutes(order.sessionStart, Math.floor(Math.max(0, minutesBetween(order.sessionStart, order.sessionEnd)) / 2));
+                onChange({ ...order, breaks: [...order.breaks, { start: mid, end: addMinutes(mid, 30) }] });
+              }}
+              className="px-3 py-1.5 rounded-xl border text-xs">+ Break</button>
+
             <h3 className="font-semibold mt-3">Guidance</h3>
             <div className="text-xs opacity-70">
               • If pacing lags late in day, tool suggests raising cap or switching to OTD. <br/>
@@ -912,23 +1722,35 @@ function PlannerCard({
                     <th className="p-2">Exec Notional</th>
                     <th className="p-2">Turnover</th>
                     <th className="p-2">Manual VWAP</th>
+                    <th className="p-2">Last Px</th>
                     <th className="p-2">Note</th>
+                    {hasLimit(order) && <th className="p-2">Limit</th>}
                   </tr>
                 </thead>
                 <tbody>
                   {[...order.snapshots].reverse().map((s, i) => (
-                    <tr key={i} className="border-t">
+                    <tr key={i} className={`border-t ${s.outOfLimit ? "bg-amber-50" : ""}`}>
                       <td className="p-2 font-mono">{s.at}</td>
                       <td className="p-2">{formatInt(s.currentVol)}</td>
                       <td className="p-2">{formatInt(s.orderExecQty)}</td>
                       <td className="p-2">{formatMoney(s.orderExecNotional, 2)}</td>
                       <td className="p-2">{formatMoney(s.marketTurnover, 2)}</td>
                       <td className="p-2">{s.marketVWAPInput ? formatMoney(s.marketVWAPInput, 4) : "—"}</td>
+                      <td className="p-2">{s.lastPrice ? formatMoney(s.lastPrice, 4) : "—"}</td>
                       <td className="p-2">{s.note || "—"}</td>
+                      {hasLimit(order) && (
+                        <td className="p-2">
+                          <button onClick={()=>toggleSnapshotLimit(order.snapshots.length - 1 - i)}
+                            title="Toggle: market traded through the limit since the previous snapshot"
+                            className="px-2 py-0.5 rounded border">
+                            {s.outOfLimit ? "Out" : "In"}
+                          </button>
+                        </td>
+                      )}
                     </tr>
                   ))}
                   {order.snapshots.length === 0 && (
-                    <tr><td className="p-2 text-slate-500" colSpan={7}>No snapshots yet.</td></tr>
+                    <tr><td className="p-2 text-slate-500" colSpan={hasLimit(order) ? 9 : 8}>No snapshots yet.</td></tr>
                   )}
                 </tbody>
               </table>
@@ -939,25 +1761,52 @@ function PlannerCard({
                 className="flex-1 border rounded-xl p-2 text-sm"
                 placeholder="Optional: add a note before logging snapshot"
               />
+              {hasLimit(order) && (
+                <label className="text-xs flex items-center gap-1" title="Market traded through the limit since the previous snapshot">
+                  <input id={`snaplimit-${order.id}`} type="checkbox"/>
+                  Out of limit
+                </label>
+              )}
               <button
                 onClick={()=>{
                   const el = document.getElementById(`snapnote-${order.id}`) as HTMLInputElement | null;
                   const note = el?.value || undefined;
-                  logSnapshot(note);
+                  const lim = document.getElementById(`snaplimit-${order.id}`) as HTMLInputElement | null;
+                  logSnapshot(note, !!lim?.checked);
                   if (el) el.value = "";
+                  if (lim) lim.checked = false;
                 }}
                 className={`px-3 py-2 rounded-xl text-white ${t.strong} text-sm`}>
                 Log snapshot
               </button>
             </div>
+            <ChangeLog order={order} onChange={onChange} />
           </div>
-        </div>
+
+          <div className="md:col-span-3">
+            <FillsLedger order={order} onChange={onChange} />
+          </div>
+        </div>
       )}
 
       {/* Plan table (always visible when not completed) */}
       {!order.completed && (
         <div className="px-4 pb-4">
-          <div className="text-sm opacity-70 mb-2">Plan</div>
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm opacity-70">
+              Plan
+              {replanIn && (
+                <span className="ml-2 text-xs">
+                  · Re-plan from {replanIn.from}: {formatInt(replanIn.qty)} left, market volume ×{replanIn.volRatio.toFixed(2)} vs curve
+                </span>
+              )}
+            </div>
+            <label className="text-xs flex items-center gap-2">
+              <input type="checkbox" checked={!!order.replan}
+                onChange={(e)=>onChange({ ...order, replan: e.target.checked })}/>
+              Re-plan remaining from now
+            </label>
+          </div>
           <div className="overflow-x-auto rounded-xl border">
             <table className="w-full text-sm">
               <thead className="sticky top-0 bg-white">
@@ -966,25 +1815,39 @@ function PlannerCard({
                   <th className="py-2 pr-2">Expected Vol</th>
                   <th className="py-2 pr-2">Max Allowed</th>
                   <th className="py-2 pr-2">Suggested Qty</th>
+                  {replanned && <th className="py-2 pr-2">Re-planned</th>}
+                  <th className="py-2 pr-2">Executed</th>
                 </tr>
               </thead>
               <tbody>
-                {plan.rows.map((r) => {
-                  const curHHMM = new Date().toTimeString().slice(0, 5);
-                  const isLive = curHHMM >= r.s && curHHMM < r.e;
-                  // Impact flag if suggested >25% of expected vol
-                  const impact = r.expMktVol > 0 && r.suggestedQty / r.expMktVol > 0.25;
+                {plan.rows.map((r, i) => {
+                  const isLive = now >= r.s && now < r.e;
+                  const impact = isImpactRow(r, rules.impactPct / 100);
+                  const outOfLimit = limitSkip.includes(r.s);
                   return (
                     <tr key={r.interval}
                       className={`border-b last:border-0 ${isLive ? `${t.bgSoft} animate-pulse` : ""}`}>
                       <td className={`py-2 pr-2 ${t.text}`}>
-                        {r.interval} {impact && <span title="High impact risk" className="ml-1">⚠️</span>}
+                        <span className={outOfLimit ? "line-through opacity-50" : ""}>{r.interval}</span> {impact && <span title="High impact risk" className="ml-1">⚠️</span>}
+                        {hasLimit(order) && (
+                          <button onClick={()=>toggleSliceLimit(r.s)}
+                            title="Toggle: market traded outside the limit in this slice"
+                            className="ml-2 px-1.5 rounded border text-xs">
+                            {outOfLimit ? "out of limit" : "in limit"}
+                          </button>
+                        )}
                       </td>
                       <td className="py-2 pr-2">{formatInt(r.expMktVol)}</td>
                       <td className="py-2 pr-2">
                         {typeof r.maxAllowed === "number" ? formatInt(r.maxAllowed) : r.maxAllowed}
                       </td>
                       <td className="py-2 pr-2 font-semibold">{formatInt(r.suggestedQty)}</td>
+                      {replanned && (
+                        <td className="py-2 pr-2 font-semibold">
+                          {replanByEnd.has(r.e) ? formatInt(replanByEnd.get(r.e)!.suggestedQty) : "—"}
+                        </td>
+                      )}
+                      <td className="py-2 pr-2">{execByRow[i] ? formatInt(execByRow[i]) : "—"}</td>
                     </tr>
                   );
                 })}
@@ -995,93 +1858,986 @@ function PlannerCard({
                   <td className="py-2 pr-2">{formatInt(order.expectedAuctionVol)}</td>
                   <td className="py-2 pr-2">{formatInt(plan.auctionAllowed)}</td>
                   <td className="py-2 pr-2 font-semibold">{formatInt(plan.auctionPlanned)}</td>
+                  {replanned && <td className="py-2 pr-2 font-semibold">{formatInt(replanned.auctionPlanned)}</td>}
+                  <td className="py-2 pr-2">{execAuction ? formatInt(execAuction) : "—"}</td>
                 </tr>
+                {hasTalWindow(order) && (
+                  <tr className="bg-slate-50">
+                    <td className="py-2 pr-2 font-semibold">
+                      TAL {order.talStart}–{order.talEnd}
+                    </td>
+                    <td className="py-2 pr-2">{formatInt(order.expectedTalVol)}</td>
+                    <td className="py-2 pr-2">{formatInt(plan.talAllowed)}</td>
+                    <td className="py-2 pr-2 font-semibold">{formatInt(plan.talPlanned)}</td>
+                    {replanned && <td className="py-2 pr-2 font-semibold">{formatInt(replanned.talPlanned)}</td>}
+                    <td className="py-2 pr-2">{execTal ? formatInt(execTal) : "—"}</td>
+                  </tr>
+                )}
               </tbody>
               <tfoot>
                 <tr className="border-t">
                   <td className="py-2 pr-2 font-semibold">Totals</td>
                   <td className="py-2 pr-2">
-                    {formatInt(order.startVol + order.currentVol + order.expectedContVol + order.expectedAuctionVol)}
+                    {formatInt(order.startVol + order.currentVol + order.expectedContVol + order.expectedAuctionVol + order.expectedTalVol)}
                   </td>
                   <td className="py-2 pr-2">—</td>
                   <td className="py-2 pr-2 font-semibold">
                     {formatInt(totalPlanned)} (Remain {formatInt(remaining)})
                   </td>
+                  {replanned && replanIn && (
+                    <td className="py-2 pr-2 font-semibold">
+                      {formatInt(replanTotal)} (Remain {formatInt(Math.max(0, replanIn.qty - replanTotal))})
+                    </td>
+                  )}
+                  <td className="py-2 pr-2 font-semibold">{formatInt(accExecuted)}</td>
                 </tr>
               </tfoot>
             </table>
           </div>
+          <AuctionPanel order={order} plan={plan} onChange={onChange} />
+          <ProgressChart order={order} plan={plan} />
+          <CapCompliance order={order} plan={plan} tradeDate={tradeDate} />
+          <StrategyCompare order={order} histCurve={histCurve} onApply={(p) => onChange({ ...order, ...p })} />
+          <MultiDayPanel order={order} tradeDate={tradeDate} calendar={calendar} onChange={onChange} />
         </div>
       )}
     </div>
   );
 }
 
-/* -------------------- Aggregates & App Shell -------------------- */
-function defaultOrder(side: Side, idx = 1): Order {
-  const pv = PROFILE_VOLS.Normal;
+/* -------------------- Persistence (localStorage, versioned) -------------------- */
+const STORAGE_KEY = "execution-planner.book";
+const ARCHIVE_PREFIX = "execution-planner.archive.";
+
+// One past trading day, kept under ARCHIVE_PREFIX + its trade date
+type ArchivedDay = { version: number; tradeDate: string; archivedAt: string; orders: Order[]; baskets: Basket[] };
+
+function readStorage(key: string): any {
+  try {
+    const txt = localStorage.getItem(key);
+    return txt ? JSON.parse(txt) : null;
+  } catch {
+    return null;
+  }
+}
+function writeStorage(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {}
+}
+
+const CALENDAR_KEY = "execution-planner.calendar";
+function loadCalendarOverrides(): CalendarEntry[] {
+  const raw = readStorage(CALENDAR_KEY);
+  return Array.isArray(raw?.entries) ? raw.entries : [];
+}
+function saveCalendarOverrides(entries: CalendarEntry[]) {
+  writeStorage(CALENDAR_KEY, { version: 1, entries });
+}
+
+const ALERT_RULES_KEY = "execution-planner.alert-rules";
+function loadAlertRules(): AlertRules {
+  const raw = readStorage(ALERT_RULES_KEY);
+  return raw?.rules ? { ...DEFAULT_ALERT_RULES, ...raw.rules } : DEFAULT_ALERT_RULES;
+}
+function saveAlertRules(rules: AlertRules) {
+  writeStorage(ALERT_RULES_KEY, { version: 1, rules });
+}
+
+function loadFeedConfig(): FeedConfig {
+  const raw = readStorage(FEED_KEY);
+  return raw?.config ? { ...DEFAULT_FEED, ...raw.config } : DEFAULT_FEED;
+}
+function saveFeedConfig(config: FeedConfig) {
+  writeStorage(FEED_KEY, { version: 1, config });
+}
+
+const CURVES_KEY = "execution-planner.curves";
+function loadCurves(): CurveLibrary {
+  const raw = readStorage(CURVES_KEY);
+  return raw && typeof raw.curves === "object" ? raw.curves : {};
+}
+function saveCurves(curves: CurveLibrary) {
+  writeStorage(CURVES_KEY, { version: 1, curves });
+}
+
+function archiveBook(book: PersistedBook) {
+  if (book.orders.length === 0) return;
+  const key = ARCHIVE_PREFIX + book.tradeDate;
+  const prev = readArchivedDay(key);
+  // Idempotent: archiving the same book twice (StrictMode, two tabs loading at once) keeps one copy of each order
+  const orders = [...(prev?.orders || []).filter((p) => !book.orders.some((o) => o.id === p.id)), ...book.orders];
+  const baskets = [...(prev?.baskets || []), ...(book.baskets || []).filter((b) => !prev?.baskets.some((p) => p.id === b.id))];
+  const day: ArchivedDay = { version: SCHEMA_VERSION, tradeDate: book.tradeDate, archivedAt: new Date().toISOString(), orders, baskets };
+  writeStorage(key, day);
+}
+
+// Archived days are migrated on read, same as the live book
+function readArchivedDay(key: string): ArchivedDay | null {
+  const raw = readStorage(key);
+  if (!raw) return null;
+  const book = migrateBook(raw);
+  if (!book) return null;
   return {
-    id: Math.random().toString(36).slice(2, 9),
-    name: side === "BUY" ? `Buy ${idx}` : `Sell ${idx}`,
-    symbol: "QNBK",
-    side,
-    orderQty: 1_600_000,
-
-    execMode: "OTD",
-    capMode: "PCT",
-    maxPart: 15,
-    reserveAuctionPct: 10,
-    deferCompletion: true,
-
-    sessionStart: "09:30",
-    sessionEnd: "13:00",
-    auctionStart: "13:00",
-    auctionEnd: "13:10",
-    talStart: "13:10",
-    talEnd: "13:15",
-    intervalMins: 30,
-    curve: "ucurve",
-
-    startVol: 0,
-    currentVol: 0,
-    expectedContVol: pv.cont,
-    expectedAuctionVol: pv.auction,
-
-    marketTurnover: 0,
-    marketVWAPInput: 0,
-
-    orderExecQty: 0,
-    orderExecNotional: 0,
-
-    market: "Qatar",
-    startFromNow: false,
-    snapshots: [],
-    liquidity: "Normal",
-    completed: false,
-
-    notificationsOn: false,
-    soundOn: false,
-    sliceReminders: true,
-    remindEveryMins: 15,
+    version: SCHEMA_VERSION,
+    tradeDate: book.tradeDate,
+    archivedAt: raw.archivedAt || "",
+    orders: book.orders,
+    baskets: book.baskets || [],
   };
 }
 
-type Aggregates = {
-  qtyTotal: number;
-  execQty: number;
-  execNotional: number;
+function listArchivedDays(): ArchivedDay[] {
+  const out: ArchivedDay[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key || !key.startsWith(ARCHIVE_PREFIX)) continue;
+      const day = readArchivedDay(key);
+      if (day) out.push(day);
+    }
+  } catch {}
+  return out.sort((a, b) => (a.tradeDate < b.tradeDate ? 1 : -1));
+}
+
+// Multi-day orders with a remainder move on to `nextDate`, with the baskets they belong to
+function carryBook(book: PersistedBook, nextDate: string, overrides: CalendarEntry[]) {
+  const orders = carryOver(book.orders, book.tradeDate, nextDate, overrides);
+  const baskets = (book.baskets || []).filter((b) => orders.some((o) => o.basketId === b.id));
+  return { orders, baskets };
+}
+
+/**
+ * Load today's book. A book saved on an earlier date is NOT returned, so
+ * yesterday's orders never come back as live — only multi-day orders carry
+ * their remainder over. It is handed back as `stale` for the caller to
+ * archive under its own trade date (outside render).
+ */
+function loadBook(): { orders: Order[] | null; baskets: Basket[]; stale?: PersistedBook; newer?: number } {
+  const raw = readStorage(STORAGE_KEY);
+  if (!raw) return { orders: null, baskets: [] };
+  const newer = newerSchema(raw);
+  if (newer !== null) return { orders: null, baskets: [], newer };
+  const book = migrateBook(raw);
+  if (!book) return { orders: null, baskets: [] };
+  if (book.tradeDate !== todayISO()) {
+    const carried = carryBook(book, todayISO(), loadCalendarOverrides());
+    return { orders: carried.orders.length ? carried.orders : null, baskets: carried.baskets, stale: book };
+  }
+  return { orders: book.orders, baskets: book.baskets || [] };
+}
+
+function saveBook(orders: Order[], baskets: Basket[], tradeDate: string) {
+  const book: PersistedBook = { version: SCHEMA_VERSION, tradeDate, savedAt: new Date().toISOString(), orders, baskets };
+  try {
+    writeBook(localStorage, STORAGE_KEY, book);
+  } catch {}
+}
+
+function freshBook(): Order[] {
+  return [defaultOrder("BUY", 1), defaultOrder("SELL", 1)];
+}
+
+function BlotterPanel({
+  tradeDate, calendar, nextIdx, onImport,
+}: {
+  tradeDate: string;
+  calendar: CalendarEntry[];
+  nextIdx: number;
+  onImport: (orders: Order[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [imported, setImported] = useState(0);
+
+  function importOrders() {
+    const { orders, errors } = importBlotter(text, { dateISO: tradeDate, overrides: calendar, firstIdx: nextIdx });
+    setErrors(errors);
+    setImported(orders.length);
+    if (orders.length === 0) return;
+    onImport(orders);
+    // Valid rows are in the book now; rejected ones stay listed below by row number
+    setText("");
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Import blotter
+      </button>
+      {open && (
+        <div className="mt-2 space-y-2">
+          <input type="file" accept=".csv,.txt" className="text-xs"
+            onChange={(e)=>{
+              const f = e.target.files?.[0];
+              if (f) f.text().then(setText);
+              e.target.value = "";
+            }}/>
+          <textarea className="w-full border rounded-xl p-2 font-mono text-xs h-32" value={text}
+            placeholder={"symbol,side,qty,market,exec mode,cap %,auction reserve %,limit[,client]\nQNBK,BUY,250000,Qatar,OTD,15,10,18.50\n…"}
+            onChange={(e)=>setText(e.target.value)}/>
+          <div className="flex items-center gap-3">
+            <button onClick={importOrders} className="px-3 py-2 rounded-xl bg-slate-900 text-white text-sm">Import orders</button>
+            {imported > 0 && <span className="text-xs text-emerald-700">Imported {imported} order(s).</span>}
+          </div>
+          {errors.length > 0 && (
+            <ul className="text-xs text-rose-700 list-disc pl-4">
+              {errors.map((e, i) => <li key={i}>{e}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FixImportPanel({ orders, onApply }: { orders: Order[]; onApply: (orders: Order[]) => void }) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [mapping, setMapping] = useState<FixMapping>({});
+  const [result, setResult] = useState<FixImportResult | null>(null);
+  const parsed = useMemo(() => parseFixLog(text), [text]);
+  // One row per ClOrdID that carries trades; "auto" matches on symbol + side
+  const ids = useMemo(() => {
+    const seen = new Map<string, ExecReport>();
+    for (const r of parsed.reports) if (r.clOrdId && !seen.has(r.clOrdId)) seen.set(r.clOrdId, r);
+    return [...seen.values()];
+  }, [parsed]);
+
+  function apply() {
+    const res = applyExecReports(orders, parsed.reports, mapping);
+    setResult(res);
+    onApply(res.orders);
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Import FIX drop copy
+      </button>
+      {open && (
+        <div className="mt-2 space-y-2">
+          <input type="file" accept=".log,.txt,.fix" className="text-xs"
+            onChange={(e)=>{
+              const f = e.target.files?.[0];
+              if (f) f.text().then((t) => { setText(t); setResult(null); });
+              e.target.value = "";
+            }}/>
+          <textarea className="w-full border rounded-xl p-2 font-mono text-xs h-32" value={text}
+            placeholder={"8=FIX.4.4|9=…|35=8|17=EXEC1|150=F|11=ORD1|55=QNBK|54=1|32=5000|31=15.12|14=5000|6=15.12|60=20261019-07:15:02|…"}
+            onChange={(e)=>{ setText(e.target.value); setResult(null); }}/>
+          {ids.length > 0 && (
+            <table className="text-xs">
+              <thead><tr className="text-left text-slate-500"><th className="pr-3">ClOrdID</th><th className="pr-3">Symbol</th><th className="pr-3">Side</th><th>Order</th></tr></thead>
+              <tbody>
+                {ids.map((r) => (
+                  <tr key={r.clOrdId}>
+                    <td className="pr-3 font-mono">{r.clOrdId}</td>
+                    <td className="pr-3">{r.symbol}</td>
+                    <td className="pr-3">{r.side}</td>
+                    <td>
+                      <select className="border rounded px-1 py-0.5" value={mapping[r.clOrdId] || ""}
+                        onChange={(e)=>{
+                          const v = e.target.value;
+                          setMapping((m) => {
+                            const { [r.clOrdId]: _, ...rest } = m;
+                            return v ? { ...rest, [r.clOrdId]: v } : rest;
+                          });
+                        }}>
+                        <option value="">auto (symbol & side)</option>
+                        {orders.map((o) => <option key={o.id} value={o.id}>{o.name} — {o.side} {o.symbol}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="flex items-center gap-3">
+            <button onClick={apply} disabled={parsed.reports.length === 0}
+              className="px-3 py-2 rounded-xl bg-slate-900 text-white text-sm disabled:opacity-40">Apply fills</button>
+            <span className="text-xs text-slate-500">{parsed.reports.length} execution report(s)</span>
+            {result && (
+              <span className="text-xs text-emerald-700">
+                {result.added} fill(s) added, {result.duplicates} duplicate(s) skipped, {result.busted} bust(s), {result.corrected} correction(s).
+              </span>
+            )}
+          </div>
+          {(parsed.errors.length > 0 || (result && result.warnings.length > 0)) && (
+            <ul className="text-xs text-rose-700 list-disc pl-4">
+              {parsed.errors.map((e, i) => <li key={`e${i}`}>{e}</li>)}
+              {result?.warnings.map((w, i) => <li key={`w${i}`}>{w}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CurvesPanel({
+  curves, calendar, onChange,
+}: {
+  curves: CurveLibrary;
+  calendar: CalendarEntry[];
+  onChange: (next: CurveLibrary) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [symbol, setSymbol] = useState("");
+  const [market, setMarket] = useState<MarketKey>("Qatar");
+  const [text, setText] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  function importCurve() {
+    if (!symbol.trim()) {
+      setErrors(["Symbol is required."]);
+      return;
+    }
+    const { curve, errors } = buildVolumeCurve(text, symbol, market, calendar);
+    setErrors(errors);
+    if (!curve) return;
+    onChange({ ...curves, [curveKey(market, symbol)]: curve });
+    setText("");
+  }
+  function remove(key: string) {
+    const next = { ...curves };
+    delete next[key];
+    onChange(next);
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Historical volume curves
+      </button>
+      {open && (
+        <div className="mt-2 grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-sm">Symbol
+                <input className="mt-1 w-full border rounded-xl p-2" value={symbol}
+                  onChange={(e)=>setSymbol(e.target.value.toUpperCase())}/>
+              </label>
+              <label className="text-sm">Market
+                <select className="mt-1 w-full border rounded-xl p-2" value={market}
+                  onChange={(e)=>setMarket(e.target.value as MarketKey)}>
+                  {(Object.keys(MARKET_PRESET) as MarketKey[]).map((m)=>(<option key={m} value={m}>{m}</option>))}
+                </select>
+              </label>
+            </div>
+            <input type="file" accept=".csv,.txt" className="text-xs"
+              onChange={(e)=>{
+                const f = e.target.files?.[0];
+                if (f) f.text().then(setText);
+                e.target.value = "";
+              }}/>
+            <textarea className="w-full border rounded-xl p-2 font-mono text-xs h-32" value={text}
+              placeholder={"date,time,volume[,phase]\n2025-01-05,09:30,120000\n…\nor: time,2025-01-05,2025-01-06,…"}
+              onChange={(e)=>setText(e.target.value)}/>
+            <button onClick={importCurve} className="px-3 py-2 rounded-xl bg-slate-900 text-white text-sm">Import curve</button>
+            {errors.length > 0 && (
+              <ul className="text-xs text-rose-700 list-disc pl-4">
+                {errors.slice(0, 10).map((e, i) => <li key={i}>{e}</li>)}
+                {errors.length > 10 && <li>…and {errors.length - 10} more</li>}
+              </ul>
+            )}
+          </div>
+          <div className="grid gap-1 content-start">
+            {Object.keys(curves).length === 0 && <div className="text-xs text-slate-500">No curves imported.</div>}
+            {Object.entries(curves).map(([key, c]) => (
+              <div key={key} className="flex items-center justify-between border-b last:border-0 py-1">
+                <span className="font-mono text-xs">{c.market} · {c.symbol}</span>
+                <span className="text-xs opacity-70">
+                  {c.days}d · {c.buckets.length}×{c.bucketMins}m · Cont {formatInt(c.avgContVol)} · Auct {formatInt(c.avgAuctionVol)}
+                </span>
+                <button onClick={() => remove(key)} className="px-2 py-1 text-xs rounded border">Delete</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CalendarPanel({
+  entries, onChange,
+}: {
+  entries: CalendarEntry[];
+  onChange: (next: CalendarEntry[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<CalendarEntry>({ market: "Qatar", date: todayISO(), kind: "HOLIDAY", name: "" });
+  const today = todayISO();
+
+  function add() {
+    if (!draft.date || (draft.kind === "HALF_DAY" && !draft.auction)) return;
+    const rest = entries.filter((e) => !(e.market === draft.market && e.date === draft.date));
+    onChange([...rest, { ...draft, name: draft.name || (draft.kind === "HOLIDAY" ? "Holiday" : "Early close") }]);
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Market calendar
+      </button>
+      {open && (
+        <div className="mt-2 grid md:grid-cols-2 gap-4">
+          <div className="grid gap-1 content-start">
+            <div className="text-xs opacity-70 mb-1">Today ({today})</div>
+            {ALL_MARKETS.map((m) => {
+              const d = scheduleFor(m, todayISO(MARKET_TZ[m]), entries);
+              return (
+                <div key={m} className="flex items-center justify-between border-b last:border-0 py-1 text-xs">
+                  <span className="font-semibold">{m}</span>
+                  {d.open ? (
+                    <span>{d.schedule.start}–{d.schedule.auction} · TAL to {d.schedule.talEnd}{d.note ? ` · ${d.note}` : ""}</span>
+                  ) : (
+                    <span className="text-rose-700">Closed — {d.reason}</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="space-y-2">
+            <div className="text-xs opacity-70">Desk overrides (win over the built-in table)</div>
+            <div className="grid grid-cols-2 gap-2">
+              <select className="border rounded-xl p-2" value={draft.market}
+                onChange={(e)=>setDraft({ ...draft, market: e.target.value as MarketKey })}>
+                {ALL_MARKETS.map((m)=>(<option key={m} value={m}>{m}</option>))}
+              </select>
+              <input type="date" className="border rounded-xl p-2" value={draft.date}
+                onChange={(e)=>setDraft({ ...draft, date: e.target.value })}/>
+              <select className="border rounded-xl p-2" value={draft.kind}
+                onChange={(e)=>setDraft({ ...draft, kind: e.target.value as CalendarEntry["kind"] })}>
+                <option value="HOLIDAY">Holiday (closed)</option>
+                <option value="HALF_DAY">Early close</option>
+              </select>
+              {draft.kind === "HALF_DAY" ? (
+                <label className="text-xs">Auction at
+                  <input type="time" className="ml-1 border rounded-xl p-2" value={draft.auction || ""}
+                    onChange={(e)=>setDraft({ ...draft, auction: e.target.value })}/>
+                </label>
+              ) : <span/>}
+              <input className="col-span-2 border rounded-xl p-2" placeholder="Name (e.g. Eid al-Fitr)" value={draft.name}
+                onChange={(e)=>setDraft({ ...draft, name: e.target.value })}/>
+            </div>
+            <button onClick={add} className="px-3 py-2 rounded-xl bg-slate-900 text-white text-sm">Add override</button>
+            {[...entries].sort((a, b) => (a.date < b.date ? -1 : 1)).map((e) => (
+              <div key={`${e.market}-${e.date}`} className="flex items-center justify-between text-xs border-b last:border-0 py-1">
+                <span className="font-mono">{e.date}</span>
+                <span>{e.market} · {e.kind === "HOLIDAY" ? "Closed" : `Auction ${e.auction}`} · {e.name}</span>
+                <button onClick={()=>onChange(entries.filter((x) => x !== e))} className="px-2 py-0.5 rounded border">Delete</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ArchivePanel({
+  onRestore, onReplay, onReport,
+}: {
+  onRestore: (day: ArchivedDay) => void;
+  onReplay: (day: ArchivedDay) => void;
+  onReport: (day: ArchivedDay) => void;
+}) {
+  const [days, setDays] = useState<ArchivedDay[]>([]);
+  const [open, setOpen] = useState(false);
+  useEffect(() => {
+    if (open) setDays(listArchivedDays());
+  }, [open]);
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Archived days
+      </button>
+      {open && (
+        <div className="mt-2 grid gap-1">
+          {days.length === 0 && <div className="text-xs text-slate-500">No archived days.</div>}
+          {days.map((d) => (
+            <div key={d.tradeDate} className="flex items-center justify-between border-b last:border-0 py-1">
+              <span className="font-mono text-xs">{d.tradeDate}</span>
+              <span className="text-xs opacity-70">
+                {d.orders.length} orders · Exec {formatInt(d.orders.reduce((a, o) => a + (o.orderExecQty || 0), 0))}
+              </span>
+              <span className="flex gap-1">
+                <button onClick={() => onReport(d)} className="px-2 py-1 text-xs rounded border">Report</button>
+                <button onClick={() => onReplay(d)} className="px-2 py-1 text-xs rounded border">Replay</button>
+                <button onClick={() => onRestore(d)} className="px-2 py-1 text-xs rounded border">
+                  Restore as today
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+
+/* -------------------- Baskets -------------------- */
+function BasketCard({
+  basket, legs, curves, onChange, onRemove,
+}: {
+  basket: Basket;
+  legs: Order[];
+  curves: CurveLibrary;
+  onChange: (b: Basket) => void;
+  onRemove: () => void;
+}) {
+  const st = basketStats(
+    basket,
+    legs.map((o) => ({ order: o, plan: buildPlan(o, curveFor(curves, o)), now: nowHHMM(marketTz(o.market)) }))
+  );
+  const pct = (x: number) => `${Math.round(x * 100)}%`;
+  const paceTag = st.pace === "AHEAD" ? "bg-emerald-600" : st.pace === "ON" ? "bg-slate-600" : "bg-amber-600";
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 text-sm space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <input className="border rounded-xl px-2 py-1 font-semibold" value={basket.name}
+          onChange={(e)=>onChange({ ...basket, name: e.target.value })}/>
+        <MoneyInput label="Cash tolerance" value={basket.cashTolerance} decimals={0}
+          onNumberChange={(n)=>onChange({ ...basket, cashTolerance: n })} className="w-40" />
+        <IntInput label="Max leg gap (pts)" value={basket.maxLegGapPct}
+          onChange={(n)=>onChange({ ...basket, maxLegGapPct: n })} className="w-32" />
+        <span className={`px-2 py-1 rounded-full text-xs text-white ${paceTag}`}>{st.pace}</span>
+        <button onClick={onRemove} className="ml-auto px-3 py-1.5 rounded-xl border text-xs">Delete basket</button>
+      </div>
+      <div className="grid md:grid-cols-5 gap-3">
+        <Stat title="Buy executed" value={`${formatMoney(st.buy.execNotional, 0)} (${pct(st.buy.progress)})`} />
+        <Stat title="Sell executed" value={`${formatMoney(st.sell.execNotional, 0)} (${pct(st.sell.progress)})`} />
+        <Stat title="Gross notional" value={formatMoney(st.grossNotional, 0)} />
+        <Stat title={`Net ${st.withinTolerance ? "" : "⚠️"}`} value={formatMoney(st.netNotional, 0)} />
+        <Stat title="Completion vs plan" value={`${pct(st.completion)} / ${pct(st.planned)}`} />
+      </div>
+      {st.alerts.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {st.alerts.map((a, i) => (
+            <span key={i} className={`px-2 py-1 rounded-xl text-xs ${a.level === "CRIT" ? "bg-rose-100 text-rose-800" : a.level === "WARN" ? "bg-amber-100 text-amber-800" : "bg-slate-100"}`}>
+              {a.msg}
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="rounded-xl border overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50">
+            <tr className="text-left">
+              <th className="p-2">Leg</th>
+              <th className="p-2">Side</th>
+              <th className="p-2">Qty</th>
+              <th className="p-2">Executed</th>
+              <th className="p-2">Notional</th>
+              <th className="p-2">Done</th>
+              <th className="p-2">Plan by now</th>
+            </tr>
+          </thead>
+          <tbody>
+            {st.legs.map((l) => (
+              <tr key={l.order.id} className="border-t">
+                <td className="p-2">{l.order.name} · {l.order.symbol}</td>
+                <td className="p-2">{l.order.side}</td>
+                <td className="p-2">{formatInt(l.order.orderQty)}</td>
+                <td className="p-2">{formatInt(l.execQty)}</td>
+                <td className="p-2">{formatMoney(l.execNotional, 0)}</td>
+                <td className="p-2">{pct(l.progress)}</td>
+                <td className="p-2">{pct(l.planned)}</td>
+              </tr>
+            ))}
+            {st.legs.length === 0 && (
+              <tr><td className="p-2 text-slate-500" colSpan={7}>No orders in this basket — pick it in an order's header.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function BasketsPanel({
+  baskets, orders, curves, onChange, onRemove,
+}: {
+  baskets: Basket[];
+  orders: Order[];
+  curves: CurveLibrary;
+  onChange: (next: Basket[]) => void;
+  onRemove: (id: string) => void;
+}) {
+  // Plan-by-now moves with the clock even when nothing else changes
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const id = setInterval(() => setTick((n) => n + 1), 1000);
+    return () => clearInterval(id);
+  }, []);
+  return (
+    <>
+      {baskets.map((b) => (
+        <BasketCard key={b.id} basket={b} legs={orders.filter((o) => o.basketId === b.id)} curves={curves}
+          onChange={(nb)=>onChange(baskets.map((x) => (x.id === b.id ? nb : x)))}
+          onRemove={()=>onRemove(b.id)} />
+      ))}
+    </>
+  );
+}
+
+/* -------------------- Simulation / replay -------------------- */
+// A run works on a sandbox copy of the orders; the live book is neither read nor saved meanwhile
+type SimRun = {
+  mode: "SIM" | "REPLAY";
+  label: string;
+  tradeDate: string;
+  clock: SimClock;
+  startMs: number;
+  initial: Order[];
+  tapes: Record<string, Tape>;
+  recorded: Record<string, Order>; // REPLAY: the archived orders being revealed
+  fillRatio: number;
 };
-function aggregateOrders(orders: Order[]): Aggregates {
-  return orders.reduce<Aggregates>(
-    (agg, o) => ({
-      qtyTotal: agg.qtyTotal + o.orderQty,
-      execQty: agg.execQty + o.orderExecQty,
-      execNotional: agg.execNotional + o.orderExecNotional,
-    }),
-    { qtyTotal: 0, execQty: 0, execNotional: 0 }
+
+function SimulationPanel({
+  tradeDate, onStart,
+}: {
+  tradeDate: string;
+  onStart: (opts: { date: string; price: number; volScale: number; volatilityBps: number; fillRatio: number; seed: number; tape?: Tape }) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState(tradeDate);
+  const [price, setPrice] = useState(10);
+  const [volScale, setVolScale] = useState(100);
+  const [volatilityBps, setVolatilityBps] = useState(8);
+  const [fillRatio, setFillRatio] = useState(100);
+  const [seed, setSeed] = useState(1);
+  const [text, setText] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  function start() {
+    let tape: Tape | undefined;
+    if (text.trim()) {
+      const r = recordedTape(text);
+      setErrors(r.errors);
+      if (r.tape.length === 0) return;
+      tape = r.tape;
+    }
+    onStart({ date, price: price || 10, volScale: volScale / 100, volatilityBps, fillRatio: fillRatio / 100, seed, tape });
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Simulation
+      </button>
+      {open && (
+        <div className="mt-2 grid md:grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-2 content-start">
+            <label className="text-sm">Date
+              <input type="date" className="mt-1 w-full border rounded-xl p-2" value={date} onChange={(e)=>setDate(e.target.value)}/>
+            </label>
+            <MoneyInput label="Open price" value={price} onNumberChange={setPrice} />
+            <IntInput label="Seed" value={seed} onChange={setSeed} />
+            <IntInput label="Volume vs expected (%)" value={volScale} onChange={setVolScale} />
+            <IntInput label="Volatility (bps/min)" value={volatilityBps} onChange={setVolatilityBps} />
+            <IntInput label="Fills vs plan (%)" value={fillRatio} onChange={setFillRatio} />
+            <div className="col-span-3 text-xs text-slate-500">
+              Runs the current orders on a sandbox copy: the tape feeds Current Vol, Turnover and Last Price, and
+              simulated fills follow the plan. Nothing is saved to the book.
+            </div>
+          </div>
+          <div className="space-y-2">
+            <input type="file" accept=".csv,.txt" className="text-xs"
+              onChange={(e)=>{
+                const f = e.target.files?.[0];
+                if (f) f.text().then(setText);
+                e.target.value = "";
+              }}/>
+            <textarea className="w-full border rounded-xl p-2 font-mono text-xs h-24" value={text}
+              placeholder={"Optional recorded tape (otherwise synthetic):\ntime,volume,price[,turnover]\n09:31,12000,18.52\n…"}
+              onChange={(e)=>setText(e.target.value)}/>
+            <button onClick={start} className="px-3 py-2 rounded-xl bg-slate-900 text-white text-sm">Start simulation</button>
+            {errors.length > 0 && (
+              <ul className="text-xs text-rose-700 list-disc pl-4">
+                {errors.slice(0, 10).map((e, i) => <li key={i}>{e}</li>)}
+                {errors.length > 10 && <li>…and {errors.length - 10} more</li>}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
   );
 }
 
+function SimBar({ run, tz, onRestart, onExit }: { run: SimRun; tz?: string; onRestart: () => void; onExit: () => void }) {
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const id = setInterval(() => setTick((n) => n + 1), 250);
+    return () => clearInterval(id);
+  }, []);
+  const { clock } = run;
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs px-3 py-2 rounded-xl bg-indigo-50 border border-indigo-300">
+      <span className="font-semibold">{run.mode === "REPLAY" ? "REPLAY" : "SIMULATION"}</span>
+      <span>{run.label} · {run.tradeDate}</span>
+      <span className="font-mono text-sm">{nowHHMMSS(tz)}{tz ? ` ${tzLabel(tz)}` : ""}</span>
+      <button onClick={() => (clock.playing() ? clock.pause() : clock.play())}
+        className="px-2 py-0.5 rounded border bg-white">{clock.playing() ? "Pause" : "Play"}</button>
+      {[1, 10, 60].map((x) => (
+        <button key={x} onClick={() => clock.setSpeed(x)}
+          className={`px-2 py-0.5 rounded border ${clock.speed() === x ? "bg-indigo-600 text-white" : "bg-white"}`}>{x}×</button>
+      ))}
+      <button onClick={onRestart} className="px-2 py-0.5 rounded border bg-white">Restart</button>
+      <button onClick={onExit} className="px-2 py-0.5 rounded border bg-white">Exit</button>
+      <span className="opacity-70">Changes here are not saved.</span>
+    </div>
+  );
+}
+
+/* -------------------- Market-data feed -------------------- */
+type FeedConfig = { url: string; kind: FeedKind; enabled: boolean };
+const FEED_KEY = "execution-planner.feed";
+const DEFAULT_FEED: FeedConfig = { url: "http://localhost:8787/sse", kind: "sse", enabled: false };
+
+function formatAge(ms: number) {
+  return ms < 60_000 ? `${Math.round(ms / 1000)}s ago` : `${Math.round(ms / 60_000)} min ago`;
+}
+
+// Re-renders with the card's 1 s clock, so the age stays current
+function DataSourceBadge({ order }: { order: Order }) {
+  const age = feedAgeMs(order, Date.now());
+  if (age === null) return <div className="text-xs opacity-60">Source: typed in</div>;
+  const stale = age > FEED_STALE_MS;
+  return (
+    <div className={`text-xs ${stale ? "text-amber-700" : "text-emerald-700"}`}>
+      Source: feed {order.feed!.source} · {formatAge(age)}{stale ? " — stale" : ""}
+    </div>
+  );
+}
+
+function FeedPanel({
+  config, status, onChange,
+}: {
+  config: FeedConfig;
+  status: FeedStatus | null;
+  onChange: (c: FeedConfig) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [, tick] = useState(0);
+  useEffect(() => {
+    if (!open) return;
+    const id = setInterval(() => tick((n) => n + 1), 1000);
+    return () => clearInterval(id);
+  }, [open]);
+  const stateCls =
+    status?.state === "OPEN" ? "bg-emerald-600 text-white"
+    : status?.state === "STALE" || status?.state === "RETRYING" ? "bg-amber-500 text-white"
+    : "bg-slate-200";
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="font-semibold">
+        {open ? "▾" : "▸"} Market-data feed
+        {config.enabled && status && <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-normal ${stateCls}`}>{status.state}</span>}
+      </button>
+      {open && (
+        <div className="mt-2 space-y-2">
+          <div className="text-xs opacity-70">
+            Fills Current Vol, Market Turnover, VWAP and Last Price per symbol from a local bridge. Run{" "}
+            <code>npm run feed:mock</code> for a test feed.
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="text-xs">Transport
+              <select className="mt-1 block border rounded-xl p-2" value={config.kind} disabled={config.enabled}
+                onChange={(e)=>{
+                  const kind = e.target.value as FeedKind;
+                  onChange({ ...config, kind, url: kind === "ws" ? config.url.replace(/^http/, "ws").replace(/\/sse$/, "/ws") : config.url.replace(/^ws/, "http").replace(/\/ws$/, "/sse") });
+                }}>
+                <option value="sse">Server-Sent Events</option>
+                <option value="ws">WebSocket</option>
+              </select>
+            </label>
+            <label className="text-xs flex-1 min-w-[240px]">URL
+              <input className="mt-1 w-full border rounded-xl p-2 font-mono" value={config.url} disabled={config.enabled}
+                onChange={(e)=>onChange({ ...config, url: e.target.value.trim() })}/>
+            </label>
+            <button onClick={()=>onChange({ ...config, enabled: !config.enabled })} disabled={!config.url}
+              className={`px-3 py-2 rounded-xl text-xs ${config.enabled ? "border" : "bg-slate-900 text-white"} disabled:opacity-40`}>
+              {config.enabled ? "Disconnect" : "Connect"}
+            </button>
+          </div>
+          {config.enabled && status && (
+            <div className="text-xs">
+              <span className={`px-2 py-0.5 rounded-full ${stateCls}`}>{status.state}</span>
+              <span className="ml-2">
+                {status.lastMessageAt ? `last message ${formatAge(Date.now() - status.lastMessageAt)}` : "no data yet"}
+                {status.retries > 0 ? ` · retry ${status.retries}` : ""}
+                {status.error ? ` · ${status.error}` : ""}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* -------------------- Reminder scheduler -------------------- */
+type FiredReminder = { id: string; orderId: string; reminder: Reminder; at: string; since?: string };
+const SCHEDULER_TICK_MS = 2_000;
+
+/**
+ * One scheduler for the whole book: each tick asks the engine which reminders
+ * are due per order and fires each occurrence once. Background tabs throttle
+ * the interval, so a tick also runs when the tab becomes visible again and
+ * late occurrences are caught within the engine's grace window. What has
+ * fired is kept per trading day and forgotten when the clock runs backwards
+ * (a simulation restart), since reminder keys repeat every day. Every window
+ * tracks what is due but only the leader fires, so a handover does not
+ * repeat anything; a window still finding the others waits (the grace window
+ * covers it).
+ */
+function useReminderScheduler(
+  orders: Order[],
+  curves: CurveLibrary,
+  day: string,
+  role: () => WindowRole,
+  onFire: (o: Order, r: Reminder) => void
+) {
+  const latest = useRef({ orders, curves, day, role, onFire });
+  latest.current = { orders, curves, day, role, onFire };
+  const fired = useRef(new Map<string, { now: string; seen: Set<string> }>());
+
+  useEffect(() => {
+    function tick() {
+      const { orders, curves, day, role, onFire } = latest.current;
+      const current = role();
+      if (current === "PENDING") return;
+      for (const key of fired.current.keys()) if (!key.startsWith(`${day}:`)) fired.current.delete(key);
+      for (const o of orders) {
+        const now = nowHHMM(marketTz(o.market));
+        let entry = fired.current.get(`${day}:${o.id}`);
+        if (!entry || now < entry.now) {
+          entry = { now, seen: new Set<string>() };
+          fired.current.set(`${day}:${o.id}`, entry);
+        }
+        entry.now = now;
+        for (const r of dueReminders(o, buildPlan(o, curveFor(curves, o)), now, entry.seen)) {
+          entry.seen.add(r.key);
+          if (current === "LEADER") onFire(o, r);
+        }
+      }
+    }
+    const onVisible = () => document.visibilityState === "visible" && tick();
+    const id = setInterval(tick, SCHEDULER_TICK_MS);
+    document.addEventListener("visibilitychange", onVisible);
+    tick();
+    return () => {
+      clearInterval(id);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, []);
+}
+
+/**
+ * Alert state for the whole book: each tick (and each change to the book)
+ * evaluates every open order against its rules and folds the result into its
+ * raised alerts and alert log. Only the leader records transitions, so the
+ * log is written once however many windows are open; the others get it
+ * through book sync.
+ */
+function useAlertSync(
+  orders: Order[],
+  curves: CurveLibrary,
+  calendar: CalendarEntry[],
+  deskRules: AlertRules,
+  role: () => WindowRole,
+  onSync: (apply: (list: Order[]) => Order[]) => void
+) {
+  const latest = useRef({ orders, curves, calendar, deskRules, role, onSync });
+  latest.current = { orders, curves, calendar, deskRules, role, onSync };
+
+  // Reads the latest props, so the interval set up on mount never goes stale
+  function tick() {
+    const { orders, curves, calendar, deskRules, role, onSync } = latest.current;
+    if (role() !== "LEADER") return;
+    const found = new Map<string, { alerts: Alert[]; at: string }>();
+    for (const o of orders) {
+      if (o.completed) continue;
+      const tz = marketTz(o.market);
+      const ctx = { order: o, plan: buildPlan(o, curveFor(curves, o)), now: nowHHMM(tz), dateISO: todayISO(tz), calendar };
+      const alerts = evaluateAlerts(ctx, alertRulesFor(deskRules, o));
+      const at = nowHHMMSS(tz);
+      if (syncAlerts(o, alerts, at) !== o) found.set(o.id, { alerts, at });
+    }
+    // Folded into the latest book, so an edit made since this tick is kept
+    if (found.size) {
+      onSync((list) =>
+        list.map((x) => {
+          const f = found.get(x.id);
+          return f ? syncAlerts(x, f.alerts, f.at) : x;
+        })
+      );
+    }
+  }
+
+  useEffect(tick, [orders, curves, calendar, deskRules]);
+  useEffect(() => {
+    const id = setInterval(tick, SCHEDULER_TICK_MS);
+    return () => clearInterval(id);
+  }, []);
+}
+
+// This window among the app's others; starting with the opening time, so comparing ids finds the oldest
+const WINDOW_ID = Date.now().toString(36) + Math.random().toString(36).slice(2, 7);
+
+/**
+ * Keeps the live book in step with the app's other windows (tabs and
+ * pop-outs). Each local change is broadcast with the book it started from and
+ * merged three-way on arrival; where both windows changed the same field the
+ * later edit wins everywhere. A book from a later trade date (another window
+ * rolled over) is taken as is; one from an earlier date is ignored.
+ */
+function useBookSync(
+  book: SyncedBook,
+  tradeDate: string,
+  onMerged: (book: SyncedBook, conflicts: SyncConflict[], rolledTo?: string) => void
+) {
+  const agreed = useRef(book); // last book sent or received
+  const lastEdit = useRef({ at: 0, from: WINDOW_ID });
+  const latest = useRef({ book, tradeDate, onMerged });
+  latest.current = { book, tradeDate, onMerged };
+  const channel = useRef<ReturnType<typeof createBookChannel> | null>(null);
+
+  useEffect(() => {
+    const ch = createBookChannel({
+      from: WINDOW_ID,
+      onBook: (theirs, msg) => {
+        const { book, tradeDate, onMerged } = latest.current;
+        if (msg.tradeDate < tradeDate) return;
+        agreed.current = theirs;
+        if (msg.tradeDate > tradeDate) return onMerged(theirs, [], msg.tradeDate);
+        const r = mergeBook(msg.base, book, theirs, editedAfter(lastEdit.current, msg));
+        onMerged({ orders: r.orders, baskets: r.baskets }, r.conflicts);
+      },
+    });
+    channel.current = ch;
+    return () => ch.close();
+  }, []);
+
+  // Books merged to exactly what arrived are already agreed, so nothing echoes back
+  useEffect(() => {
+    const base = agreed.current;
+    if (base.orders === book.orders && base.baskets === book.baskets) return;
+    lastEdit.current = { at: Date.now(), from: WINDOW_ID };
+    channel.current?.send({ tradeDate, base, book, at: lastEdit.current.at });
+    agreed.current = book;
+  }, [book.orders, book.baskets]);
+}
+
+/* -------------------- App Shell -------------------- */
 function OrdersRail({
   orders, selectedId, onSelect, onAdd,
 }: {
@@ -1119,36 +2875,339 @@ function OrdersRail({
 }
 
 export default function App() {
-  const [orders, setOrders] = useState<Order[]>([
-    defaultOrder("BUY", 1),
-    defaultOrder("SELL", 1),
-  ]);
+  const [initial] = useState(() => loadBook());
+  const [orders, setOrders] = useState<Order[]>(() => initial.orders ?? freshBook());
+  const [tradeDate, setTradeDate] = useState(todayISO());
+  const [archivedNotice, setArchivedNotice] = useState<string | undefined>(initial.stale?.tradeDate);
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [curves, setCurves] = useState<CurveLibrary>(() => loadCurves());
+  const [calendar, setCalendar] = useState<CalendarEntry[]>(() => loadCalendarOverrides());
+  const [alertRules, setAlertRules] = useState<AlertRules>(() => loadAlertRules());
+  const [feedConfig, setFeedConfig] = useState<FeedConfig>(() => loadFeedConfig());
+  const [feedStatus, setFeedStatus] = useState<FeedStatus | null>(null);
+  const [baskets, setBaskets] = useState<Basket[]>(initial.baskets);
+  const [sim, setSim] = useState<SimRun | null>(null);
+  const [simOrders, setSimOrders] = useState<Order[]>([]);
+  const [history, setHistory] = useState<UndoHistory<BookStep>>(() => emptyHistory());
+  // A pop-out window (?order=<id>) shows that one order; the main window keeps the feed, reminders & rollover
+  const [popoutId] = useState(() => new URLSearchParams(window.location.search).get("order"));
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+
+  // A book left over from an earlier day goes to the archive before today's autosave replaces it
+  useEffect(() => {
+    if (initial.stale) archiveBook(initial.stale);
+  }, []);
+  // Autosave on every change — but never over a book saved by a newer version of the planner
+  useEffect(() => {
+    if (initial.newer === undefined) saveBook(orders, baskets, tradeDate);
+  }, [orders, baskets, tradeDate]);
+  useEffect(() => saveCurves(curves), [curves]);
+  useEffect(() => saveCalendarOverrides(calendar), [calendar]);
+  useEffect(() => saveAlertRules(alertRules), [alertRules]);
+  useEffect(() => saveFeedConfig(feedConfig), [feedConfig]);
+
+  // Feed ticks update the live book (never a simulation sandbox); feed data counts as an update
+  useEffect(() => {
+    if (popoutId || !feedConfig.enabled || !feedConfig.url) {
+      setFeedStatus(null);
+      return;
+    }
+    const source = feedConfig.url.replace(/^\w+:\/\//, "");
+    const client = createFeedClient({
+      url: feedConfig.url,
+      kind: feedConfig.kind,
+      onStatus: setFeedStatus,
+      onTicks: (ticks, at) =>
+        setOrders((list) =>
+          list.map((o) => {
+            if (o.completed) return o;
+            const next = ticks.reduce((acc, t) => applyTick(acc, t, source, at), o);
+            return next === o ? o : stampUpdate(o, next, nowHHMMSS(marketTz(o.market)));
+          })
+        ),
+    });
+    return () => client.close();
+  }, [feedConfig.enabled, feedConfig.url, feedConfig.kind]);
 
-  const visible = selectedId ? orders.filter((o) => o.id === selectedId) : orders;
+  // Roll over if the app is left open across midnight (not while a simulated clock is running)
+  useEffect(() => {
+    if (sim || popoutId) return;
+    const id = setInterval(() => {
+      const today = todayISO();
+      if (today === tradeDate) return;
+      const book: PersistedBook = { version: SCHEMA_VERSION, tradeDate, savedAt: new Date().toISOString(), orders, baskets };
+      archiveBook(book);
+      const carried = carryBook(book, today, calendar);
+      setArchivedNotice(tradeDate);
+      setTradeDate(today);
+      setOrders(carried.orders.length ? carried.orders : freshBook());
+      setBaskets(carried.baskets);
+      setHistory(emptyHistory());
+      setSelectedId(null);
+    }, 60_000);
+    return () => clearInterval(id);
+  }, [tradeDate, orders, baskets, calendar, sim]);
+
+  // Simulation: every tick feeds each order its tape as of the simulated exchange time
+  useEffect(() => {
+    if (!sim) return;
+    const id = setInterval(() => {
+      if (!sim.clock.playing()) return;
+      setSimOrders((list) =>
+        list.map((o) => {
+          const tape = sim.tapes[o.id];
+          if (!tape) return o;
+          const now = nowHHMM(marketTz(o.market));
+          const next = sim.mode === "REPLAY"
+            ? replayStep(o, sim.recorded[o.id], tape, now)
+            : simStep(o, buildPlan(o, curveFor(curves, o)), tape, now, sim.fillRatio);
+          return next === o ? o : stampUpdate(o, next, nowHHMMSS(marketTz(o.market)));
+        })
+      );
+    }, 250);
+    return () => clearInterval(id);
+  }, [sim, curves]);
+  useEffect(() => () => setClock(), []);
+
+  // Starts a minute before the earliest session open, paused
+  const startRun = (run: Omit<SimRun, "clock" | "startMs">) => {
+    if (run.initial.length === 0) return;
+    const startMs = Math.min(
+      ...run.initial.map((o) => zonedEpoch(run.tradeDate, addMinutes(o.sessionStart, -1), marketTz(o.market)))
+    );
+    const clock = createSimClock(startMs);
+    setClock(clock);
+    setSim({ ...run, clock, startMs });
+    setSimOrders(run.initial);
+    setSelectedId(null);
+  };
+  const startSimulation: React.ComponentProps<typeof SimulationPanel>["onStart"] = (opts) => {
+    const initial = orders.map(clearExecution);
+    const tapes: Record<string, Tape> = {};
+    initial.forEach((o, i) => {
+      tapes[o.id] =
+        opts.tape ||
+        syntheticTape(o, curveFor(curves, o), {
+          seed: opts.seed + i,
+          price: opts.price,
+          volScale: opts.volScale,
+          volatilityBps: opts.volatilityBps,
+        });
+    });
+    startRun({
+      mode: "SIM",
+      label: opts.tape ? "Recorded tape" : `Synthetic tape (seed ${opts.seed})`,
+      tradeDate: opts.date,
+      initial,
+      tapes,
+      recorded: {},
+      fillRatio: opts.fillRatio,
+    });
+  };
+  const startReplay = (day: ArchivedDay) => {
+    const initial = day.orders.map((o) => ({ ...clearExecution(o), arrivalPrice: o.arrivalPrice, arrivalAt: o.arrivalAt }));
+    startRun({
+      mode: "REPLAY",
+      label: "Archived day",
+      tradeDate: day.tradeDate,
+      initial,
+      tapes: Object.fromEntries(day.orders.map((o) => [o.id, snapshotTape(o)])),
+      recorded: Object.fromEntries(day.orders.map((o) => [o.id, o])),
+      fillRatio: 1,
+    });
+  };
+  const restartRun = () => {
+    if (!sim) return;
+    sim.clock.pause();
+    sim.clock.seek(sim.startMs);
+    setSimOrders(sim.initial);
+  };
+  const exitRun = () => {
+    setClock();
+    setSim(null);
+    setSimOrders([]);
+    setSelectedId(null);
+  };
+
+  // While a run is active the cards work on its sandbox copy
+  const book = sim ? simOrders : orders;
+  const setBook = sim ? setSimOrders : setOrders;
+
+  // Undo / redo cover the live book (the orders a step touched, and baskets); a simulation sandbox is thrown away anyway
+  const remember = (label: string, ids: string[], opts: { key?: string; baskets?: boolean } = {}) => {
+    if (!sim) setHistory((h) => pushHistory(h, captureStep(orders, ids, opts.baskets ? baskets : undefined), label, Date.now(), opts.key));
+  };
+  const stepHistory = (dir: "undo" | "redo") => {
+    if (sim) return;
+    const top = dir === "undo" ? history.past[history.past.length - 1] : history.future[0];
+    if (!top) return;
+    const reason = `${dir === "undo" ? "Undo" : "Redo"}: ${top.label}`;
+    const applied = applyStep({ orders, baskets }, top.state, (o) => nowHHMMSS(marketTz(o.market)), reason);
+    const step = (dir === "undo" ? undoStep : redoStep)(history, applied.inverse)!;
+    setOrders(applied.orders);
+    setBaskets(applied.baskets);
+    setHistory(step.history);
+    if (selectedId && !applied.orders.some((o) => o.id === selectedId)) setSelectedId(null);
+  };
+  // Ctrl/⌘+Z, Ctrl/⌘+Shift+Z or Ctrl+Y — text fields keep their own undo
+  const stepRef = useRef(stepHistory);
+  stepRef.current = stepHistory;
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.isContentEditable)) return;
+      const k = e.key.toLowerCase();
+      if (k === "z" || k === "y") {
+        e.preventDefault();
+        stepRef.current(k === "y" || e.shiftKey ? "redo" : "undo");
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // Other windows' edits land in the live book; a sandbox run keeps its own copy
+  useBookSync({ orders, baskets }, tradeDate, (next, found, rolledTo) => {
+    if (rolledTo) {
+      setArchivedNotice(tradeDate);
+      setTradeDate(rolledTo);
+      setHistory(emptyHistory());
+      setSelectedId(null);
+    }
+    setOrders(next.orders);
+    setBaskets(next.baskets);
+    if (found.length) {
+      const key = (c: SyncConflict) => `${c.orderId}:${c.field}`;
+      setConflicts((list) => [...found, ...list.filter((c) => !found.some((f) => key(f) === key(c)))].slice(0, 8));
+    }
+  });
+  // Puts this window's value back over the other window's (and syncs it out)
+  const keepMine = (c: SyncConflict) => {
+    remember(`Keep ${c.orderName} ${AUDITED_FIELDS[c.field] || c.field}`, [c.orderId]);
+    setOrders((list) =>
+      list.map((x) => {
+        if (x.id !== c.orderId) return x;
+        const at = nowHHMMSS(marketTz(x.market));
+        return recordChanges(x, stampUpdate(x, { ...x, [c.field]: c.mine }, at), at, "Kept over another window's edit");
+      })
+    );
+    setConflicts((list) => list.filter((x) => x !== c));
+  };
+  const conflictValue = (c: SyncConflict, v: SyncConflict["mine"]) => {
+    const o = orders.find((x) => x.id === c.orderId);
+    return o ? formatAuditValue(auditValue({ ...o, [c.field]: v }, c.field)) : String(v);
+  };
+
+  const restoreArchived = (day: ArchivedDay) => {
+    if (!window.confirm(`Replace today's book with the ${day.tradeDate} archive (${day.orders.length} orders)?`)) return;
+    const restored = day.orders.map((o) => ({ ...o, id: Math.random().toString(36).slice(2, 9) }));
+    remember(`Restore ${day.tradeDate}`, [...orders, ...restored].map((o) => o.id), { baskets: true });
+    archiveBook({ version: SCHEMA_VERSION, tradeDate, savedAt: new Date().toISOString(), orders, baskets });
+    setOrders(restored);
+    setBaskets(day.baskets);
+    setSelectedId(null);
+  };
+
+  const focusId = popoutId || selectedId;
+  const visible = focusId ? book.filter((o) => o.id === focusId) : book;
+  const popoutName = popoutId ? visible[0]?.name : undefined;
+  useEffect(() => {
+    if (popoutId) document.title = `${popoutName || "Order"} — Execution Planner`;
+  }, [popoutName]);
   const ag = aggregateOrders(visible);
 
-  const addOrder = (side: Side) => setOrders((o) => [...o, defaultOrder(side, o.length + 1)]);
+  // Daily report: today's orders are measured up to now, archived days up to each order's close
+  const openDayReport = (date: string, list: Order[], past: boolean) => {
+    const items: ReportItem[] = list.map((o) => ({
+      order: o,
+      plan: buildPlan(o, curveFor(curves, o)),
+      now: past ? finalEnd(o) : nowHHMM(marketTz(o.market)),
+    }));
+    openReport(dayReportHtml(items, { tradeDate: date, generatedAt: new Date().toLocaleString() }));
+  };
+
+  const nameOf = (id: string) => book.find((x) => x.id === id)?.name || "order";
+  const addOrder = (side: Side) => {
+    const added = defaultOrder(side, book.length + 1);
+    remember(`Add ${side === "BUY" ? "buy" : "sell"} order`, [added.id]);
+    setBook((o) => [...o, added]);
+  };
   const removeOrder = (id: string) => {
-    setOrders((o) => o.filter((x) => x.id !== id));
+    remember(`Remove ${nameOf(id)}`, [id]);
+    setBook((o) => o.filter((x) => x.id !== id));
     if (selectedId === id) setSelectedId(null);
   };
-  const duplicateOrder = (id: string) =>
-    setOrders((o) => {
+  const duplicateOrder = (id: string) => {
+    const copyId = Math.random().toString(36).slice(2, 9);
+    remember(`Duplicate ${nameOf(id)}`, [copyId]);
+    setBook((o) => {
       const src = o.find((x) => x.id === id);
       if (!src) return o;
-      return [...o, { ...src, id: Math.random().toString(36).slice(2, 9), name: src.name + " (copy)", completed: false }];
+      return [...o, { ...src, id: copyId, name: src.name + " (copy)", completed: false }];
     });
-  const updateOrder = (id: string, next: Order) => setOrders((o) => o.map((x) => (x.id === id ? next : x)));
+  };
+  // Its legs stay in the book as standalone orders
+  const removeBasket = (id: string) => {
+    const legs = orders.filter((x) => x.basketId === id).map((x) => x.id);
+    remember(`Delete ${baskets.find((b) => b.id === id)?.name || "basket"}`, legs, { baskets: true });
+    const unassign = (list: Order[]) => list.map((x) => (x.basketId === id ? { ...x, basketId: undefined } : x));
+    setBaskets((b) => b.filter((x) => x.id !== id));
+    setOrders(unassign);
+    if (sim) setSimOrders(unassign);
+  };
+  // Every edit is stamped and audited; parameter edits are undoable (one step per order per burst
+  // of typing) — fills, market data and the alert bookkeeping the card syncs by itself are not
+  const updateOrder = (id: string, next: Order) => {
+    const prev = book.find((x) => x.id === id);
+    const paramEdit = !!prev && (paramChanges(prev, next).length > 0 || prev.basketId !== next.basketId);
+    if (paramEdit) remember(`Edit ${nameOf(id)}`, [id], { key: `edit:${id}` });
+    setBook((o) =>
+      o.map((x) => {
+        if (x.id !== id) return x;
+        const at = nowHHMMSS(marketTz(next.market));
+        return recordChanges(x, stampUpdate(x, next, at), at);
+      })
+    );
+  };
+
+  // Main windows elect one of them to fire reminders (a simulation fires its own)
+  const leader = useRef<ReturnType<typeof createLeaderElection> | null>(null);
+  useEffect(() => {
+    if (popoutId) return;
+    const election = createLeaderElection({ from: WINDOW_ID });
+    leader.current = election;
+    return () => election.close();
+  }, []);
+  // Reminders for every order in the book, shown or not
+  const [reminderFeed, setReminderFeed] = useState<FiredReminder[]>([]);
+  useReminderScheduler(popoutId ? [] : book, curves, sim ? sim.tradeDate : tradeDate, () => (sim || !leader.current ? "LEADER" : leader.current.role()), (o, r) => {
+    const routine = r.kind === "SLICE" || r.kind === "EVERY";
+    if (o.notificationsOn) fireNotification(r.title, r.body, r.level === "CRIT");
+    if (o.soundOn && (o.notificationsOn || !routine)) playAlarm(r.stage);
+    if (!routine) {
+      const entry: FiredReminder = { id: `${o.id}:${r.key}`, orderId: o.id, reminder: r, at: nowHHMMSS(marketTz(o.market)), since: o.lastUpdateAt };
+      setReminderFeed((f) => [entry, ...f.filter((x) => !(x.orderId === o.id && x.reminder.kind === r.kind))].slice(0, 8));
+    }
+  });
+  // Alert transitions for every order in the book, recorded by the leader only
+  useAlertSync(popoutId ? [] : book, curves, calendar, alertRules, () => (sim || !leader.current ? "LEADER" : leader.current.role()), setBook);
+  // Escalations drop out once the order has been updated
+  const activeReminders = reminderFeed.filter((f) => {
+    const o = book.find((x) => x.id === f.orderId);
+    return o && !o.completed && (f.reminder.kind !== "STALE" || o.lastUpdateAt === f.since);
+  });
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 flex">
-      <OrdersRail
-        orders={orders}
-        selectedId={selectedId}
-        onSelect={setSelectedId}
-        onAdd={addOrder}
-      />
+      {!popoutId && (
+        <OrdersRail
+          orders={book}
+          selectedId={selectedId}
+          onSelect={setSelectedId}
+          onAdd={addOrder}
+        />
+      )}
 
       <div className="flex-1">
         {/* Sticky header summary */}
@@ -1156,18 +3215,72 @@ export default function App() {
           <div className="max-w-7xl mx-auto p-4 grid gap-2">
             <div className="flex items-center justify-between">
               <h1 className="text-xl font-bold">Execution Planner</h1>
-              <div className="text-xs opacity-70">
-                Visible: {visible.length} · Total Qty {formatInt(ag.qtyTotal)} · Executed {formatInt(ag.execQty)}
+              <div className="flex items-center gap-3">
+                <div className="text-xs opacity-70">
+                  Visible: {visible.length} · Total Qty {formatInt(ag.qtyTotal)} · Executed {formatInt(ag.execQty)}
+                </div>
+                {!popoutId && (
+                  <>
+                    <button onClick={()=>openDayReport(sim ? sim.tradeDate : tradeDate, book, false)} disabled={book.length === 0}
+                      className="px-3 py-1.5 rounded-xl border text-xs bg-white disabled:opacity-40">Day report</button>
+                    <button onClick={()=>{ remember("Add basket", [], { baskets: true }); setBaskets((b) => [...b, newBasket(b.length + 1)]); }}
+                      className="px-3 py-1.5 rounded-xl border text-xs bg-white">+ Basket</button>
+                  </>
+                )}
+                <button onClick={()=>stepHistory("undo")} disabled={!!sim || history.past.length === 0}
+                  title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : "Nothing to undo"}
+                  className="px-3 py-1.5 rounded-xl border text-xs bg-white disabled:opacity-40">↶ Undo</button>
+                <button onClick={()=>stepHistory("redo")} disabled={!!sim || history.future.length === 0}
+                  title={history.future.length ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                  className="px-3 py-1.5 rounded-xl border text-xs bg-white disabled:opacity-40">↷ Redo</button>
               </div>
             </div>
+            {sim && (
+              <SimBar run={sim} tz={marketTz(book[0]?.market)} onRestart={restartRun} onExit={exitRun} />
+            )}
+            {initial.newer !== undefined && (
+              <div className="text-xs px-3 py-2 rounded-xl bg-amber-50 border border-amber-300">
+                The saved book was written by a newer version of the planner (schema v{initial.newer}) and has been left
+                untouched. Changes made here are not saved — open the book in the newer version.
+              </div>
+            )}
+            {archivedNotice && (
+              <div className="flex items-center justify-between text-xs px-3 py-2 rounded-xl bg-amber-50 border border-amber-300">
+                <span>
+                  Orders from {archivedNotice} were archived;{" "}
+                  {orders.some((o) => o.multiDay) ? "multi-day orders carry their remainder over." : "today starts with a fresh book."}
+                </span>
+                <button onClick={()=>setArchivedNotice(undefined)} className="px-2 py-0.5 rounded border bg-white">Dismiss</button>
+              </div>
+            )}
+            {conflicts.map((c) => (
+              <div key={`${c.orderId}:${c.field}`} className="flex items-center justify-between text-xs px-3 py-2 rounded-xl bg-amber-50 border border-amber-300">
+                <span>
+                  <span className="font-semibold">{c.orderName}</span> · {AUDITED_FIELDS[c.field] || c.field} was also changed in another
+                  window: kept {conflictValue(c, c.theirs)} over yours ({conflictValue(c, c.mine)})
+                </span>
+                <div className="flex gap-1">
+                  <button onClick={()=>keepMine(c)} className="px-2 py-0.5 rounded border bg-white">Keep mine</button>
+                  <button onClick={()=>setConflicts((list) => list.filter((x) => x !== c))} className="px-2 py-0.5 rounded border bg-white">Dismiss</button>
+                </div>
+              </div>
+            ))}
+            {activeReminders.map((f) => (
+              <div key={f.id} className={`flex items-center justify-between text-xs px-3 py-2 rounded-xl border ${
+                f.reminder.level === "CRIT" ? "bg-rose-600 text-white border-rose-700" : "bg-amber-50 border-amber-300"}`}>
+                <span><span className="font-semibold">{f.reminder.title}</span> — {f.reminder.body} <span className="opacity-70">({f.at})</span></span>
+                <button onClick={()=>setReminderFeed((list) => list.filter((x) => x.id !== f.id))}
+                  className="px-2 py-0.5 rounded border bg-white text-slate-900">Dismiss</button>
+              </div>
+            ))}
             {/* Quick chips for mobile users */}
-            <div className="md:hidden flex flex-wrap gap-2">
+            <div className={`${popoutId ? "hidden" : "md:hidden"} flex flex-wrap gap-2`}>
               <button
                 onClick={()=>setSelectedId(null)}
                 className={`px-3 py-1.5 rounded-full text-xs border ${selectedId===null ? "bg-slate-900 text-white" : ""}`}>
                 ALL
               </button>
-              {orders.map((o)=>(
+              {book.map((o)=>(
                 <button key={o.id}
                   onClick={()=>setSelectedId(o.id)}
                   className={`px-3 py-1.5 rounded-full text-xs border ${selectedId===o.id ? "bg-slate-900 text-white" : "bg-white"}`}>
@@ -1180,30 +3293,54 @@ export default function App() {
 
         {/* Orders list */}
         <div className="max-w-7xl mx-auto p-4 grid gap-5">
+          {!popoutId && (
+            <BasketsPanel baskets={baskets} orders={book} curves={curves} onRemove={removeBasket}
+              onChange={(b) => { remember("Edit baskets", [], { key: "baskets", baskets: true }); setBaskets(b); }} />
+          )}
           {visible.map((o) => (
             <PlannerCard
               key={o.id}
               order={o}
+              tradeDate={sim ? sim.tradeDate : tradeDate}
+              baskets={baskets}
+              histCurve={curveFor(curves, o)}
+              calendar={calendar}
+              deskRules={alertRules}
               onChange={(n) => updateOrder(o.id, n)}
               onRemove={() => removeOrder(o.id)}
               onDuplicate={() => duplicateOrder(o.id)}
               onFocusMe={()=>setSelectedId(o.id)}
+              onPopOut={popoutId || sim ? undefined : () => popOutOrder(o.id)}
             />
           ))}
-          {visible.length === 0 && <div className="text-sm text-slate-500">No orders selected.</div>}
+          {visible.length === 0 && (
+            <div className="text-sm text-slate-500">{popoutId ? "This order is no longer in the book." : "No orders selected."}</div>
+          )}
         </div>
 
-        {/* Self-tests */}
-        <div className="max-w-7xl mx-auto p-4">
-          <div className="bg-white rounded-2xl shadow p-4 text-sm">
-            <div className="font-semibold">Built-in Self Tests</div>
-            <pre className="text-xs bg-slate-50 p-3 rounded-xl overflow-x-auto">{`console.assert(minutesBetween('09:30','10:00') === 30, 'minutesBetween');
-console.assert(addMinutes('09:30', 30) === '10:00', 'addMinutes');
-const ts = ${"`"}${"`"}; // visual only
-const w1 = ${"`"}${"`"};
-const w2 = ${"`"}${"`"};`}</pre>
+        {/* Blotter, calendar, curves, simulation & archive (book tools — hidden during a run) */}
+        {!sim && !popoutId && (
+          <div className="max-w-7xl mx-auto px-4 grid gap-3">
+            <BlotterPanel tradeDate={tradeDate} calendar={calendar} nextIdx={orders.length + 1}
+              onImport={(list) => { remember(`Import ${list.length} order(s)`, list.map((o) => o.id)); setOrders((o) => [...o, ...list]); }} />
+            <FixImportPanel orders={orders}
+              onApply={(next) => {
+                setOrders((list) =>
+                  list.map((o) => {
+                    const n = next.find((x) => x.id === o.id);
+                    return !n || n === o ? o : stampUpdate(o, n, nowHHMMSS(marketTz(o.market)));
+                  })
+                );
+              }} />
+            <CalendarPanel entries={calendar} onChange={setCalendar} />
+            <AlertRulesPanel rules={alertRules} onChange={setAlertRules} />
+            <FeedPanel config={feedConfig} status={feedStatus} onChange={setFeedConfig} />
+            <CurvesPanel curves={curves} calendar={calendar} onChange={setCurves} />
+            <SimulationPanel tradeDate={tradeDate} onStart={startSimulation} />
+            <ArchivePanel onRestore={restoreArchived} onReplay={startReplay}
+              onReport={(d) => openDayReport(d.tradeDate, d.orders, true)} />
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,144 @@
+/**
+ * Mock market-data bridge for development: streams day-cumulative volume,
+ * turnover, VWAP and last price per symbol, in the format the app's feed
+ * adapter reads.
+ *
+ *   npm run feed:mock -- [--port 8787] [--symbols QNBK,IQCD] [--every 1000]
+ *                        [--price 15] [--vol 800000] [--pause-after N]
+ *
+ * Serves Server-Sent Events on http://localhost:PORT/sse and WebSocket on
+ * ws://localhost:PORT/ws (same messages). `--pause-after N` stops sending
+ * after N ticks so stale-feed handling can be exercised.
+ */
+import { createServer, type IncomingMessage } from "node:http";
+import { createHash } from "node:crypto";
+import type { Duplex } from "node:stream";
+import type { FeedTick } from "../engine";
+
+type Args = { port: number; symbols: string[]; every: number; price: number; vol: number; pauseAfter: number };
+
+const USAGE = "Usage: feed:mock [--port 8787] [--symbols QNBK,IQCD] [--every ms] [--price 15] [--vol 800000] [--pause-after N]";
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { port: 8787, symbols: ["QNBK"], every: 1000, price: 15, vol: 800_000, pauseAfter: 0 };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    const next = () => {
+      const v = argv[++i];
+      if (v === undefined) throw new Error(`${a} needs a value`);
+      return v;
+    };
+    const positive = (v: string) => {
+      const n = parseFloat(v);
+      if (!(n > 0)) throw new Error(`${a} must be a positive number`);
+      return n;
+    };
+    if (a === "--port") args.port = positive(next());
+    else if (a === "--symbols") args.symbols = next().split(",").map((s) => s.trim().toUpperCase()).filter(Boolean);
+    else if (a === "--every") args.every = positive(next());
+    else if (a === "--price") args.price = positive(next());
+    else if (a === "--vol") args.vol = positive(next());
+    else if (a === "--pause-after") args.pauseAfter = positive(next());
+    else throw new Error(a === "-h" || a === "--help" ? USAGE : `Unexpected argument "${a}"`);
+  }
+  if (args.symbols.length === 0) throw new Error("--symbols needs at least one symbol");
+  return args;
+}
+
+// Random walk per symbol; volume spread so a day's worth arrives over ~6 hours of ticks
+function market(args: Args) {
+  const perTick = args.vol / ((6 * 3600 * 1000) / args.every);
+  const state = new Map(args.symbols.map((s) => [s, { volume: 0, turnover: 0, last: args.price }]));
+  return (): FeedTick[] =>
+    args.symbols.map((symbol) => {
+      const st = state.get(symbol)!;
+      st.last = Math.max(0.01, st.last * (1 + (Math.random() - 0.5) * 0.002));
+      const v = Math.round(perTick * (0.5 + Math.random()));
+      st.volume += v;
+      st.turnover += v * st.last;
+      return {
+        symbol,
+        volume: st.volume,
+        turnover: Math.round(st.turnover * 100) / 100,
+        vwap: st.volume ? Math.round((st.turnover / st.volume) * 10000) / 10000 : st.last,
+        last: Math.round(st.last * 1000) / 1000,
+      };
+    });
+}
+
+/* ---- Minimal WebSocket (RFC 6455): handshake + unmasked text frames out ---- */
+function wsAccept(req: IncomingMessage, socket: Duplex) {
+  const key = req.headers["sec-websocket-key"];
+  if (typeof key !== "string") return false;
+  const accept = createHash("sha1").update(key + "258EAFA5-E914-47DA-95CA-C5AB0DC85B11").digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" + `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  return true;
+}
+function wsFrame(text: string) {
+  const payload = Buffer.from(text, "utf8");
+  const len = payload.length;
+  const head = len < 126 ? Buffer.from([0x81, len]) : len < 65536 ? Buffer.from([0x81, 126, len >> 8, len & 255]) : null;
+  if (!head) {
+    const big = Buffer.alloc(10);
+    big[0] = 0x81;
+    big[1] = 127;
+    big.writeBigUInt64BE(BigInt(len), 2);
+    return Buffer.concat([big, payload]);
+  }
+  return Buffer.concat([head, payload]);
+}
+
+function main() {
+  let args: Args;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(2);
+  }
+  const next = market(args);
+  const send = new Set<(msg: string) => void>();
+
+  const server = createServer((req, res) => {
+    if (req.url?.startsWith("/sse")) {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "Access-Control-Allow-Origin": "*",
+      });
+      const fn = (msg: string) => res.write(`data: ${msg}\n\n`);
+      send.add(fn);
+      req.on("close", () => send.delete(fn));
+      return;
+    }
+    res.writeHead(404, { "Content-Type": "text/plain" }).end("Try /sse or /ws\n");
+  });
+  server.on("upgrade", (req, socket) => {
+    if (!req.url?.startsWith("/ws") || !wsAccept(req, socket)) return socket.destroy();
+    const fn = (msg: string) => socket.write(wsFrame(msg));
+    send.add(fn);
+    // Any frame from the client (we only expect close) ends the session
+    socket.on("data", () => socket.end());
+    socket.on("close", () => send.delete(fn));
+    socket.on("error", () => send.delete(fn));
+  });
+
+  let sent = 0;
+  setInterval(() => {
+    if (args.pauseAfter && sent >= args.pauseAfter) return;
+    sent++;
+    const msg = JSON.stringify(next());
+    for (const fn of send) fn(msg);
+  }, args.every);
+
+  server.listen(args.port, () => {
+    console.log(`Mock feed for ${args.symbols.join(", ")} every ${args.every} ms`);
+    console.log(`  SSE: http://localhost:${args.port}/sse`);
+    console.log(`  WS:  ws://localhost:${args.port}/ws`);
+  });
+}
+
+main();
@@ -0,0 +1,133 @@
+/**
+ * Command-line planner: reads order JSON and prints or exports the slice plan.
+ *
+ *   npm run plan -- orders.json [--format table|csv|json|html] [--out plan.csv]
+ *                   [--curve history.csv] [--replan --now 11:30]
+ *
+ * Input may be a single order, an array of orders, or a saved book ({ orders }).
+ * Missing fields take the same defaults as a new order in the app. Use "-" to read stdin.
+ * `html` writes the printable daily execution report (plan, fills, snapshots, benchmarks).
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import {
+  buildPlan,
+  buildVolumeCurve,
+  dayReportHtml,
+  finalEnd,
+  normalizeOrder,
+  planTable,
+  replanInputs,
+  toCsv,
+  todayISO,
+  type Order,
+  type VolumeCurve,
+} from "../engine";
+
+type Format = "table" | "csv" | "json" | "html";
+type Args = { input: string; format: Format; out?: string; curve?: string; replan: boolean; now?: string };
+
+const USAGE = "Usage: plan <order.json|-> [--format table|csv|json|html] [--out file] [--curve history.csv] [--replan --now HH:MM]";
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { input: "", format: "table", replan: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    const next = () => {
+      const v = argv[++i];
+      if (v === undefined) throw new Error(`${a} needs a value`);
+      return v;
+    };
+    if (a === "--format") {
+      const f = next();
+      if (f !== "table" && f !== "csv" && f !== "json" && f !== "html") throw new Error(`Unknown format "${f}"`);
+      args.format = f;
+    } else if (a === "--out") args.out = next();
+    else if (a === "--curve") args.curve = next();
+    else if (a === "--replan") args.replan = true;
+    else if (a === "--now") args.now = next();
+    else if (a === "-h" || a === "--help") throw new Error(USAGE);
+    else if (!args.input) args.input = a;
+    else throw new Error(`Unexpected argument "${a}"`);
+  }
+  if (!args.input) throw new Error(USAGE);
+  if (args.replan && !/^\d{2}:\d{2}$/.test(args.now || "")) throw new Error("--replan needs --now HH:MM");
+  return args;
+}
+
+// A file that can't be read or parsed ends the run with one line naming it
+function fail(file: string, e: unknown): never {
+  console.error(`error: ${file}: ${(e as Error).message}`);
+  process.exit(1);
+}
+
+function readOrders(input: string): Order[] {
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(input === "-" ? 0 : input, "utf8"));
+  } catch (e) {
+    fail(input === "-" ? "stdin" : input, e);
+  }
+  const list = Array.isArray(raw) ? raw : Array.isArray(raw?.orders) ? raw.orders : [raw];
+  return list.map(normalizeOrder);
+}
+
+function planFor(order: Order, args: Args, curveCsv?: string) {
+  let hist: VolumeCurve | undefined;
+  if (curveCsv && order.market) hist = buildVolumeCurve(curveCsv, order.symbol, order.market).curve || undefined;
+  const original = buildPlan(order, hist);
+  return args.replan ? buildPlan(order, hist, replanInputs(order, original, args.now!)) : original;
+}
+
+function renderTable(order: Order, cells: (string | number)[][], header: string[]) {
+  const fmt = (v: string | number) => (typeof v === "number" ? v.toLocaleString("en-US") : v);
+  const all = [header, ...cells.map((r) => r.map(fmt))];
+  const widths = header.map((_, c) => Math.max(...all.map((r) => String(r[c]).length)));
+  const line = (r: (string | number)[]) => r.map((v, c) => String(v).padStart(widths[c])).join("  ");
+  return [
+    `${order.name} · ${order.side} ${order.orderQty.toLocaleString("en-US")} ${order.symbol} · ${order.execMode}`,
+    line(header),
+    ...all.slice(1).map(line),
+  ].join("\n");
+}
+
+function main() {
+  let args: Args;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(2);
+  }
+  const orders = readOrders(args.input);
+  let curveCsv: string | undefined;
+  try {
+    curveCsv = args.curve ? readFileSync(args.curve, "utf8") : undefined;
+  } catch (e) {
+    fail(args.curve!, e);
+  }
+
+  const results = orders.map((o) => ({ order: o, plan: planFor(o, args, curveCsv) }));
+  let output: string;
+  if (args.format === "json") {
+    output = JSON.stringify(results.map(({ order, plan }) => ({ id: order.id, name: order.name, plan })), null, 2) + "\n";
+  } else if (args.format === "html") {
+    const items = results.map(({ order, plan }) => ({ order, plan, now: args.now || finalEnd(order) }));
+    output = dayReportHtml(items, { tradeDate: todayISO(), generatedAt: new Date().toISOString() });
+  } else if (args.format === "csv") {
+    // One CSV for the whole batch: order columns prefixed to each plan row
+    const tables = results.map(({ order, plan }) => ({ order, t: planTable(order, plan) }));
+    const header = ["order_id", "name", "symbol", "side", ...(tables[0]?.t.header || [])];
+    const rows = tables.flatMap(({ order, t }) => t.rows.map((r) => [order.id, order.name, order.symbol, order.side, ...r]));
+    output = toCsv({ header, rows });
+  } else {
+    output = results.map(({ order, plan }) => {
+      const t = planTable(order, plan);
+      return renderTable(order, t.rows, t.header);
+    }).join("\n\n") + "\n";
+  }
+
+  if (args.out) writeFileSync(args.out, output);
+  else process.stdout.write(output);
+}
+
+main();
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { Order } from "./types";
+import { defaultOrder } from "./order";
+import { buildPlan } from "./plan";
+import { withFills } from "./fills";
+import { DEFAULT_ALERT_RULES, acknowledgeAlert, alertRulesFor, evaluateAlerts, snoozeAlert, syncAlerts, visibleAlerts } from "./alerts";
+
+const order = (o: Partial<Order> = {}): Order => ({ ...defaultOrder("BUY"), orderQty: 100_000, ...o });
+// Monday 19 Oct 2026, a regular Qatar session
+const evaluate = (o: Order, now = "10:00", rules = DEFAULT_ALERT_RULES) =>
+  evaluateAlerts({ order: o, plan: buildPlan(o), now, dateISO: "2026-10-19" }, rules);
+const rulesOf = (o: Order, now?: string, rules?: typeof DEFAULT_ALERT_RULES) => evaluate(o, now, rules).map((a) => a.rule);
+
+describe("evaluateAlerts", () => {
+  it("tags each alert with its rule and skips rules switched off", () => {
+    expect(rulesOf(order(), "09:30")).toEqual(["missingVWAP", "staleVolume"]);
+    expect(rulesOf(order(), "09:30", { ...DEFAULT_ALERT_RULES, off: ["missingVWAP"] })).toEqual(["staleVolume"]);
+  });
+
+  it("flags slippage worse than the threshold, critical beyond twice it", () => {
+    const o = withFills(order({ currentVol: 100_000, marketTurnover: 1_000_000 }), [{ id: "f", at: "09:45:00", qty: 5_000, price: 10.2, kind: "FILL" }]);
+    expect(rulesOf(o)).not.toContain("slippage");
+    const [a] = evaluate(o, "10:00", { ...DEFAULT_ALERT_RULES, slippageBps: 50 }).filter((x) => x.rule === "slippage");
+    expect(a.level).toBe("CRIT");
+    expect(a.msg).toBe("Slippage -200.0 bps vs VWAP (limit −50).");
+  });
+
+  it("compares the remaining qty with the expected volume still to come", () => {
+    const o = order({ orderQty: 500_000, currentVol: 100_000, marketTurnover: 1_000_000 });
+    const rules = { ...DEFAULT_ALERT_RULES, remainingVolPct: 50 };
+    expect(rulesOf(o, "09:45", rules)).not.toContain("remainingVolume");
+    expect(rulesOf(o, "13:05", rules)).toContain("remainingVolume");
+  });
+
+  it("uses the pace band for the behind-plan alert", () => {
+    const o = order({ currentVol: 100_000, marketTurnover: 1_000_000 });
+    expect(rulesOf(o, "11:00")).toContain("pace");
+    expect(rulesOf(o, "11:00", { ...DEFAULT_ALERT_RULES, off: ["pace"] })).not.toContain("pace");
+  });
+
+  it("lets an order override the desk thresholds", () => {
+    const desk = { ...DEFAULT_ALERT_RULES, slippageBps: 20 };
+    expect(alertRulesFor(desk, order()).slippageBps).toBe(20);
+    expect(alertRulesFor(desk, order({ alertRules: { ...desk, slippageBps: 80 } })).slippageBps).toBe(80);
+  });
+});
+
+describe("alert workflow", () => {
+  const warn = { rule: "pace" as const, level: "WARN" as const, msg: "Behind plan" };
+
+  it("logs raised, escalated and cleared alerts and keeps the order when nothing changed", () => {
+    let o = syncAlerts(order(), [warn], "10:00:00");
+    expect(o.alertLog!.map((e) => e.kind)).toEqual(["RAISED"]);
+    expect(syncAlerts(o, [warn], "10:01:00")).toBe(o);
+    o = syncAlerts(o, [{ ...warn, level: "CRIT" }], "10:02:00");
+    o = syncAlerts(o, [], "10:03:00");
+    expect(o.alertLog!.map((e) => `${e.at} ${e.kind}`)).toEqual(["10:00:00 RAISED", "10:02:00 ESCALATED", "10:03:00 CLEARED"]);
+    expect(o.alerts).toEqual([]);
+  });
+
+  it("mutes acknowledged alerts until they escalate and snoozed ones until the time passes", () => {
+    const raised = syncAlerts(order(), [warn], "10:00:00");
+    const acked = acknowledgeAlert(raised, "pace", "10:00:30");
+    expect(visibleAlerts(acked, [warn], "10:05")).toEqual([]);
+    expect(visibleAlerts(acked, [{ ...warn, level: "CRIT" }], "10:05")).toHaveLength(1);
+    const snoozed = snoozeAlert(raised, "pace", "10:15", "10:00:30");
+    expect(visibleAlerts(snoozed, [warn], "10:05")).toEqual([]);
+    expect(visibleAlerts(snoozed, [warn], "10:15")).toHaveLength(1);
+    expect(snoozed.alertLog!.map((e) => e.kind)).toEqual(["RAISED", "SNOOZE"]);
+  });
+});
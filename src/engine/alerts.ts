@@ -0,0 +1,258 @@
+import type { Alert, AlertEvent, AlertLevel, AlertRuleId, AlertRules, AlertState, Order } from "./types";
+import { scheduleFor, type CalendarEntry } from "./markets";
+import { finalEnd, hasTalWindow, isCapBound, isImpactRow, sessionPhase, type BuiltPlan } from "./plan";
+import { clamp, minutesBetween } from "./time";
+import { fillTotals } from "./fills";
+import { complianceReport, currentCapBucket } from "./compliance";
+import { assessAuction } from "./auction";
+import {
+  benchmarkSlippage, BENCHMARK_LABEL, hasLimit, impliedMarketVWAP, inLimitCapacity, inLimitShare, paceOf, pacingTarget, throughLimit,
+} from "./analytics";
+
+/* -------------------- Alert rules -------------------- */
+export const ALERT_RULE_LABEL: Record<AlertRuleId, string> = {
+  missingVWAP: "Missing market VWAP",
+  staleVolume: "Market volume not updated",
+  calendar: "Holiday / special timetable",
+  break: "Market on break",
+  sessionEnd: "Session ending",
+  limitCapacity: "Remaining not achievable in limit",
+  limitFills: "Fills through the limit",
+  capBinding: "Cap binding frequently",
+  impact: "High-impact slices",
+  pace: "Behind plan",
+  capBreach: "Realized participation over cap",
+  auctionImbalance: "Auction indication",
+  slippage: "Slippage vs benchmark",
+  remainingVolume: "Remaining vs expected volume",
+};
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+  paceBandPct: 5,
+  capBindingPct: 30,
+  impactPct: 25,
+  sessionEndMins: 0,
+  slippageBps: 0,
+  remainingVolPct: 0,
+  off: [],
+};
+
+// Desk rules unless the order carries its own
+export function alertRulesFor(desk: AlertRules, order: Order): AlertRules {
+  return { ...DEFAULT_ALERT_RULES, ...desk, ...order.alertRules };
+}
+
+export type AlertInput = {
+  order: Order;
+  plan: BuiltPlan;
+  now: string; // HH:MM exchange time
+  dateISO: string; // exchange date, for the calendar
+  calendar?: CalendarEntry[];
+};
+
+const fmt = (n: number) => Math.trunc(n).toLocaleString("en-US");
+
+// Expected market volume still to come: rest of the continuous slices, auction and TAL
+function remainingExpectedVol(order: Order, plan: BuiltPlan, now: string) {
+  let vol = 0;
+  for (const r of plan.rows) {
+    if (now >= r.e) continue;
+    vol += now > r.s && r.mins > 0 ? (r.expMktVol * clamp(minutesBetween(now, r.e), 0, r.mins)) / r.mins : r.expMktVol;
+  }
+  if (now < order.auctionEnd) vol += order.expectedAuctionVol;
+  if (hasTalWindow(order) && now < order.talEnd) vol += order.expectedTalVol;
+  return vol;
+}
+
+/**
+ * Alerts for an order as of `now`, each tagged with the rule that raised it.
+ * Rules listed in `rules.off` are skipped; thresholds come from `rules`.
+ */
+export function evaluateAlerts({ order, plan, now, dateISO, calendar = [] }: AlertInput, rules: AlertRules): Alert[] {
+  const alerts: Alert[] = [];
+  const on = (rule: AlertRuleId) => !rules.off.includes(rule);
+  const add = (rule: AlertRuleId, level: AlertLevel, msg: string) => on(rule) && alerts.push({ rule, level, msg });
+
+  if (!(order.marketTurnover > 0 || order.marketVWAPInput > 0)) add("missingVWAP", "WARN", "Missing market VWAP (turnover or manual)");
+
+  // If order started mid-session, use (currentVol - startVol) for pacing awareness
+  if (order.currentVol <= order.startVol) add("staleVolume", "INFO", "Market volume not updated since start — pacing may be stale.");
+
+  // Calendar: closed today, or a special timetable the order doesn't follow yet
+  const calDay = order.market ? scheduleFor(order.market, dateISO, calendar) : null;
+  if (calDay && !calDay.open) {
+    add("calendar", "CRIT", `${order.market} is closed today (${calDay.reason}).`);
+  } else if (calDay && calDay.open && calDay.kind !== "REGULAR") {
+    const sc = calDay.schedule;
+    const follows = order.sessionEnd === sc.auction && order.auctionEnd === sc.auctionMatch;
+    if (follows) add("calendar", "INFO", `${calDay.note}: close ${sc.auction}.`);
+    else add("calendar", "WARN", `${calDay.note} today (auction ${sc.auction}) — re-apply the ${order.market} preset.`);
+  } else if (calDay && calDay.note) {
+    add("calendar", "WARN", `${calDay.note} — holidays, half days and Ramadan hours need desk overrides.`);
+  }
+
+  // Must-complete logic — the day ends at TAL close, not at the continuous close
+  const phase = sessionPhase(order, now);
+  if (phase === "BREAK") {
+    const br = order.breaks.find((b) => now >= b.start && now < b.end);
+    add("break", "INFO", `Market on break until ${br?.end}.`);
+  }
+  const executed = fillTotals(order.fills);
+  const lead = rules.sessionEndMins > 0 ? rules.sessionEndMins : order.intervalMins;
+  const unplanned = Math.max(0, order.orderQty - (plan.contPlanned + plan.auctionPlanned + plan.talPlanned));
+  const minsToEnd = Math.max(0, minutesBetween(now, order.sessionEnd));
+  const minsToFinal = Math.max(0, minutesBetween(now, finalEnd(order)));
+  const execRemaining = Math.max(0, order.orderQty - executed.qty);
+  const postAuctionCapacity = plan.auctionAllowed + plan.talAllowed;
+  if (unplanned > 0 && minsToFinal <= lead) {
+    add("sessionEnd", "CRIT", "Session ending — finalize remaining quantity.");
+  } else if (phase === "CONTINUOUS" && minsToEnd <= lead && execRemaining > postAuctionCapacity) {
+    add(
+      "sessionEnd",
+      "CRIT",
+      `Continuous ends ${order.sessionEnd} — ${fmt(execRemaining)} left vs ${fmt(postAuctionCapacity)} auction + TAL capacity.`
+    );
+  } else if ((phase === "AUCTION" || phase === "TAL") && execRemaining > 0) {
+    add(
+      "sessionEnd",
+      phase === "TAL" || execRemaining > postAuctionCapacity ? "CRIT" : "WARN",
+      `${phase === "TAL" ? "TAL" : "Auction"} in progress — ${fmt(execRemaining)} left, last trade by ${finalEnd(order)}.`
+    );
+  }
+
+  // Limit: can the rest still be done inside it?
+  if (hasLimit(order)) {
+    const capacity = inLimitCapacity(order, plan, now, inLimitShare(order, plan));
+    if (execRemaining > capacity) {
+      add(
+        "limitCapacity",
+        phase === "CONTINUOUS" ? "WARN" : "CRIT",
+        `Remaining ${fmt(execRemaining)} looks unachievable inside limit ${order.limitPrice} (≈${fmt(capacity)} tradable).`
+      );
+    }
+    const badFills = order.fills.filter((f) => f.kind === "FILL" && throughLimit(order, f.price)).length;
+    if (badFills > 0) add("limitFills", "CRIT", `${badFills} fill(s) priced through the limit.`);
+  }
+
+  // Cap-binding hint: if many rows have suggested == maxAllowed
+  const capHitCount = plan.rows.filter(isCapBound).length;
+  if (order.capMode === "PCT" && plan.rows.length > 0 && capHitCount >= Math.ceil((plan.rows.length * rules.capBindingPct) / 100)) {
+    add("capBinding", "WARN", "Cap binding frequently — consider OTD or raise max participation slightly.");
+  }
+
+  // Slices still ahead that plan more than the impact share of their expected volume
+  const impactAhead = plan.rows.filter((r) => now < r.e && isImpactRow(r, rules.impactPct / 100)).length;
+  if (impactAhead > 0) add("impact", "WARN", `${impactAhead} upcoming slice(s) plan over ${rules.impactPct}% of expected volume.`);
+
+  const suggested = pacingTarget(order, plan, now);
+  if (paceOf(executed.qty, suggested, rules.paceBandPct) === "LAG") {
+    add("pace", "WARN", `Behind plan by ${fmt(suggested - executed.qty)} (more than ${rules.paceBandPct}% of ${fmt(suggested)}).`);
+  }
+
+  // What we actually did in the slice so far vs maxPart — planning under the cap is not enough
+  if (order.capMode === "PCT" && (phase === "CONTINUOUS" || phase === "AUCTION" || phase === "TAL")) {
+    const slice = currentCapBucket(complianceReport(order, plan), now);
+    if (slice?.breach && slice.participation !== null) {
+      add(
+        "capBreach",
+        "CRIT",
+        `Realized participation ${(slice.participation * 100).toFixed(1)}% in ${slice.label} vs cap ${order.maxPart}% — ${fmt(slice.breach.excessQty)} over.`
+      );
+    }
+  }
+
+  // Latest published auction state vs what we still have to put in
+  if (phase === "AUCTION") {
+    const auction = assessAuction(order, plan);
+    if (auction && auction.warnings.length) {
+      const price = auction.indication.price;
+      const level = hasLimit(order) && price > 0 && throughLimit(order, price) ? "CRIT" : "WARN";
+      add("auctionImbalance", level, `${auction.warnings.join(" ")} ${auction.suggestion}`);
+    }
+  }
+
+  if (rules.slippageBps > 0 && executed.qty > 0) {
+    const orderVWAP = executed.notional / executed.qty;
+    const marketVWAP = impliedMarketVWAP(order.marketTurnover, order.currentVol - order.startVol, order.marketVWAPInput);
+    const bench = benchmarkSlippage(order, order.benchmark, { orderVWAP, executedQty: executed.qty, marketVWAP, now });
+    if (bench.price && Number.isFinite(bench.bps) && bench.bps < -rules.slippageBps) {
+      add(
+        "slippage",
+        bench.bps < -2 * rules.slippageBps ? "CRIT" : "WARN",
+        `Slippage ${bench.bps.toFixed(1)} bps vs ${BENCHMARK_LABEL[order.benchmark]} (limit −${rules.slippageBps}).`
+      );
+    }
+  }
+
+  if (rules.remainingVolPct > 0 && execRemaining > 0 && phase !== "CLOSED") {
+    const vol = remainingExpectedVol(order, plan, now);
+    const share = vol > 0 ? (execRemaining / vol) * 100 : Infinity;
+    if (share > rules.remainingVolPct) {
+      add(
+        "remainingVolume",
+        share > 2 * rules.remainingVolPct ? "CRIT" : "WARN",
+        `Remaining ${fmt(execRemaining)} is ${Number.isFinite(share) ? share.toFixed(0) + "%" : "all"} of the ${fmt(vol)} expected volume left (limit ${rules.remainingVolPct}%).`
+      );
+    }
+  }
+
+  return alerts;
+}
+
+/* -------------------- Acknowledge / snooze & history -------------------- */
+const ALERT_LOG_MAX = 200;
+const RANK: Record<AlertLevel, number> = { INFO: 0, WARN: 1, CRIT: 2 };
+
+/**
+ * Fold the latest evaluation into the order's raised alerts and history:
+ * new rules are RAISED, a higher level is ESCALATED (which lifts any
+ * acknowledgement or snooze), rules no longer firing are CLEARED. Returns the
+ * same order when nothing changed.
+ */
+export function syncAlerts(order: Order, current: Alert[], at: string): Order {
+  const prev = order.alerts || [];
+  const events: AlertEvent[] = [];
+  const next = current.map((a): AlertState => {
+    const p = prev.find((x) => x.rule === a.rule);
+    if (!p) {
+      events.push({ ...a, at, kind: "RAISED" });
+      return { ...a, since: at };
+    }
+    if (RANK[a.level] > RANK[p.level]) {
+      events.push({ ...a, at, kind: "ESCALATED" });
+      return { ...a, since: p.since };
+    }
+    return p.level === a.level && p.msg === a.msg ? p : { ...p, level: a.level, msg: a.msg };
+  });
+  for (const p of prev) {
+    if (!current.some((a) => a.rule === p.rule)) events.push({ rule: p.rule, level: p.level, msg: p.msg, at, kind: "CLEARED" });
+  }
+  if (events.length === 0 && next.length === prev.length && next.every((a, i) => a === prev[i])) return order;
+  return { ...order, alerts: next, alertLog: [...(order.alertLog || []), ...events].slice(-ALERT_LOG_MAX) };
+}
+
+function mark(order: Order, rule: AlertRuleId, at: string, patch: Partial<AlertState>, kind: AlertEvent["kind"]): Order {
+  const a = order.alerts?.find((x) => x.rule === rule);
+  if (!a) return order;
+  return {
+    ...order,
+    alerts: order.alerts!.map((x) => (x === a ? { ...x, ...patch } : x)),
+    alertLog: [...(order.alertLog || []), { rule, level: a.level, msg: a.msg, at, kind }].slice(-ALERT_LOG_MAX),
+  };
+}
+export function acknowledgeAlert(order: Order, rule: AlertRuleId, at: string) {
+  return mark(order, rule, at, { ack: true }, "ACK");
+}
+// `until` is HH:MM exchange time
+export function snoozeAlert(order: Order, rule: AlertRuleId, until: string, at: string) {
+  return mark(order, rule, at, { snoozeUntil: until }, "SNOOZE");
+}
+
+// Alerts to show: muted ones stay hidden until they escalate (or the snooze runs out)
+export function visibleAlerts(order: Order, current: Alert[], now: string) {
+  return current.filter((a) => {
+    const s = order.alerts?.find((x) => x.rule === a.rule);
+    if (!s || RANK[a.level] > RANK[s.level]) return true;
+    return !s.ack && !(s.snoozeUntil && now < s.snoozeUntil);
+  });
+}
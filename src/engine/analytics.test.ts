@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import type { Snapshot } from "./types";
+import { defaultOrder } from "./order";
+import { implementationShortfallBps, impliedMarketVWAP, performanceBps, postTradeSummary, snapshotTWAP } from "./analytics";
+
+describe("performance", () => {
+  it("is positive when beating the benchmark on either side", () => {
+    expect(performanceBps("BUY", 9.9, 10)).toBeCloseTo(100);
+    expect(performanceBps("SELL", 10.1, 10)).toBeCloseTo(100);
+    expect(performanceBps("BUY", 0, 10)).toBe(0);
+  });
+
+  it("prefers turnover / volume over the manual VWAP", () => {
+    expect(impliedMarketVWAP(1_000, 100, 9)).toBe(10);
+    expect(impliedMarketVWAP(0, 100, 9)).toBe(9);
+  });
+
+  it("time-weights snapshot prices", () => {
+    const snaps = [
+      { at: "10:00:00", lastPrice: 10 },
+      { at: "10:30:00", lastPrice: 12 },
+    ] as Snapshot[];
+    expect(snapshotTWAP(snaps, "10:40")).toBeCloseTo((30 * 10 + 10 * 12) / 40);
+  });
+
+  it("charges the unfilled quantity at the mark in implementation shortfall", () => {
+    const o = { ...defaultOrder("BUY"), orderQty: 1_000, arrivalPrice: 10, lastPrice: 10.5 };
+    // 500 bought at 10.2 (−100) and 500 still open marked at 10.5 (−250) on a 10,000 paper trade
+    expect(implementationShortfallBps(o, 10.2, 500)).toBeCloseTo(-350);
+  });
+});
+
+describe("postTradeSummary", () => {
+  it("lists the chosen benchmark first", () => {
+    const o = {
+      ...defaultOrder("SELL"),
+      orderQty: 1_000,
+      benchmark: "ARRIVAL" as const,
+      arrivalPrice: 10,
+      fills: [{ id: "a", at: "10:00:00", qty: 1_000, price: 10.1, kind: "FILL" as const }],
+    };
+    const s = postTradeSummary(o, "13:15");
+    expect(s.completionPct).toBe(100);
+    expect(s.orderVWAP).toBeCloseTo(10.1);
+    expect(s.benchmarks[0]).toMatchObject({ benchmark: "ARRIVAL", price: 10 });
+    expect(s.benchmarks[0].bps).toBeCloseTo(100);
+    expect(s.benchmarks).toHaveLength(5);
+  });
+});
@@ -0,0 +1,180 @@
+import type { Benchmark, Order, PaceClass, Side, Snapshot } from "./types";
+import { accumulatedSuggested, type BuiltPlan } from "./plan";
+import { clamp, minutesBetween } from "./time";
+import { fillTotals } from "./fills";
+
+/* -------------------- Performance & pacing -------------------- */
+export function performanceBps(side: Side, orderVWAP: number, marketVWAP: number) {
+  if (!marketVWAP || !orderVWAP) return 0;
+  return side === "BUY"
+    ? ((marketVWAP - orderVWAP) / marketVWAP) * 10000
+    : ((orderVWAP - marketVWAP) / marketVWAP) * 10000;
+}
+
+export function impliedMarketVWAP(turnover: number, curVol: number, manual: number) {
+  if (curVol > 0 && turnover > 0) return turnover / curVol;
+  return manual || 0;
+}
+
+export const BENCHMARK_LABEL: Record<Benchmark, string> = {
+  VWAP: "VWAP",
+  ARRIVAL: "Arrival",
+  TWAP: "TWAP",
+  CLOSE: "Close",
+  IS: "Impl. Shortfall",
+};
+
+/**
+ * Interval TWAP from snapshot prices, each price weighted by the minutes it
+ * stood until the next snapshot (the last one until `now`). Falls back to a
+ * plain mean when all snapshots share the same minute.
+ */
+export function snapshotTWAP(snapshots: Snapshot[], now: string) {
+  const pts = snapshots.filter((s) => (s.lastPrice || 0) > 0);
+  if (pts.length === 0) return 0;
+  let wsum = 0;
+  let psum = 0;
+  pts.forEach((p, i) => {
+    const until = i < pts.length - 1 ? pts[i + 1].at.slice(0, 5) : now;
+    const w = Math.max(0, minutesBetween(p.at.slice(0, 5), until));
+    wsum += w;
+    psum += w * (p.lastPrice || 0);
+  });
+  return wsum > 0 ? psum / wsum : pts.reduce((a, p) => a + (p.lastPrice || 0), 0) / pts.length;
+}
+
+/**
+ * Implementation shortfall vs arrival, in bps of the order's paper value:
+ * executed qty at (avg − arrival) plus the unfilled qty at (close or last − arrival).
+ * Same sign convention as performanceBps: positive = better than the paper trade.
+ */
+export function implementationShortfallBps(order: Order, orderVWAP: number, executedQty: number) {
+  const arrival = order.arrivalPrice;
+  if (!arrival || order.orderQty <= 0) return 0;
+  const dir = order.side === "BUY" ? 1 : -1;
+  const execCost = executedQty > 0 ? dir * (orderVWAP - arrival) * executedQty : 0;
+  const markPrice = order.closePrice || order.lastPrice;
+  const unfilled = Math.max(0, order.orderQty - executedQty);
+  const oppCost = markPrice ? dir * (markPrice - arrival) * unfilled : 0;
+  return (-(execCost + oppCost) / (arrival * order.orderQty)) * 10000;
+}
+
+// Benchmark price (0 = not available yet) and slippage in bps for the given choice
+export function benchmarkSlippage(
+  order: Order,
+  bm: Benchmark,
+  ctx: { orderVWAP: number; executedQty: number; marketVWAP: number; now: string }
+): { price: number; bps: number } {
+  if (bm === "IS") {
+    return { price: order.arrivalPrice, bps: implementationShortfallBps(order, ctx.orderVWAP, ctx.executedQty) };
+  }
+  const price =
+    bm === "VWAP" ? ctx.marketVWAP
+    : bm === "ARRIVAL" ? order.arrivalPrice
+    : bm === "TWAP" ? snapshotTWAP(order.snapshots, ctx.now)
+    : order.closePrice;
+  return { price, bps: performanceBps(order.side, ctx.orderVWAP, price) };
+}
+
+/* -------------------- Limit price -------------------- */
+export function hasLimit(order: Order) {
+  return order.limitPrice > 0;
+}
+// A price we may not trade at: above the limit for BUY, below it for SELL
+export function throughLimit(order: Order, price: number) {
+  if (!hasLimit(order) || !(price > 0)) return false;
+  return order.side === "BUY" ? price > order.limitPrice : price < order.limitPrice;
+}
+export function inSkippedSlice(plan: BuiltPlan, skip: string[], at: string) {
+  const hhmm = at.slice(0, 5);
+  return plan.rows.some((r) => skip.includes(r.s) && hhmm >= r.s && hhmm < r.e);
+}
+
+/**
+ * Share of realized market volume that traded inside the limit, from the
+ * snapshot journal: a snapshot flagged `outOfLimit` marks the volume since the
+ * previous snapshot as untradable. Intervals ending in slices already skipped
+ * are left out so they aren't discounted twice.
+ */
+export function inLimitShare(order: Order, plan: BuiltPlan) {
+  if (!hasLimit(order)) return 1;
+  let prevVol = order.startVol;
+  let total = 0;
+  let out = 0;
+  for (const sn of order.snapshots) {
+    const dv = Math.max(0, sn.currentVol - prevVol);
+    prevVol = Math.max(prevVol, sn.currentVol);
+    if (inSkippedSlice(plan, order.outOfLimitSlices, sn.at)) continue;
+    total += dv;
+    if (sn.outOfLimit) out += dv;
+  }
+  return total > 0 ? 1 - out / total : 1;
+}
+
+// Qty we could still trade inside the limit: remaining non-skipped slice volume × in-limit share, capped, + auction/TAL
+export function inLimitCapacity(order: Order, plan: BuiltPlan, now: string, share: number) {
+  let vol = 0;
+  for (const r of plan.rows) {
+    if (now >= r.e || order.outOfLimitSlices.includes(r.s)) continue;
+    const frac = now > r.s && r.mins > 0 ? clamp(minutesBetween(now, r.e), 0, r.mins) / r.mins : 1;
+    vol += r.expMktVol * frac * share;
+  }
+  const cont = order.capMode === "PCT" ? (vol * order.maxPart) / 100 : vol;
+  return Math.floor(cont) + plan.auctionAllowed + plan.talAllowed;
+}
+
+/* -------------------- Pacing -------------------- */
+// Plan-by-now; with a limit, only volume we could actually trade counts
+export function pacingTarget(order: Order, plan: BuiltPlan, now: string) {
+  const skip = hasLimit(order) ? order.outOfLimitSlices : [];
+  return Math.floor(accumulatedSuggested(plan, order.sessionStart, now, skip) * inLimitShare(order, plan));
+}
+export function paceOf(executed: number, suggested: number, bandPct = 5): PaceClass {
+  const delta = executed - suggested;
+  if (suggested === 0) return "ON";
+  return delta >= (suggested * bandPct) / 100 ? "AHEAD" : delta <= (-suggested * bandPct) / 100 ? "LAG" : "ON";
+}
+
+export type Aggregates = {
+  qtyTotal: number;
+  execQty: number;
+  execNotional: number;
+};
+export function aggregateOrders(orders: Order[]): Aggregates {
+  return orders.reduce<Aggregates>(
+    (agg, o) => ({
+      qtyTotal: agg.qtyTotal + o.orderQty,
+      execQty: agg.execQty + fillTotals(o.fills).qty,
+      execNotional: agg.execNotional + fillTotals(o.fills).notional,
+    }),
+    { qtyTotal: 0, execQty: 0, execNotional: 0 }
+  );
+}
+
+/* -------------------- Post-trade summary -------------------- */
+export type PostTradeSummary = {
+  executedQty: number;
+  executedNotional: number;
+  completionPct: number;
+  orderVWAP: number;
+  marketVWAP: number;
+  // every benchmark, the order's chosen one first
+  benchmarks: { benchmark: Benchmark; label: string; price: number; bps: number }[];
+};
+
+// The completed-order card's figures; `now` bounds the snapshot TWAP
+export function postTradeSummary(order: Order, now: string): PostTradeSummary {
+  const t = fillTotals(order.fills);
+  const orderVWAP = t.qty > 0 ? t.notional / t.qty : 0;
+  const marketVWAP = impliedMarketVWAP(order.marketTurnover, order.currentVol - order.startVol, order.marketVWAPInput);
+  const ctx = { orderVWAP, executedQty: t.qty, marketVWAP, now };
+  const ranked = [order.benchmark, ...(Object.keys(BENCHMARK_LABEL) as Benchmark[]).filter((b) => b !== order.benchmark)];
+  return {
+    executedQty: t.qty,
+    executedNotional: t.notional,
+    completionPct: order.orderQty > 0 ? Math.min(100, Math.round((t.qty / order.orderQty) * 100)) : 0,
+    orderVWAP,
+    marketVWAP,
+    benchmarks: ranked.map((b) => ({ benchmark: b, label: BENCHMARK_LABEL[b], ...benchmarkSlippage(order, b, ctx) })),
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { AuctionIndication, Fill, Order } from "./types";
+import { defaultOrder } from "./order";
+import { buildPlan } from "./plan";
+import { withFills } from "./fills";
+import { DEFAULT_ALERT_RULES, evaluateAlerts } from "./alerts";
+import { addIndication, assessAuction } from "./auction";
+
+const ind = (o: Partial<AuctionIndication> = {}): AuctionIndication => ({
+  at: "13:05:00", price: 10, matchedVol: 500_000, imbalanceSide: "SELL", imbalanceQty: 100_000, ...o,
+});
+// 100k BUY with 60k done in continuous: 40k for the close, TAL can take 9k more (15% of 60k)
+const order = (o: Partial<Order> = {}): Order => {
+  const fill: Fill = { id: "f1", at: "12:00:00", qty: 60_000, price: 10, kind: "FILL" };
+  return withFills({ ...defaultOrder("BUY"), orderQty: 100_000, ...o }, [fill]);
+};
+const assess = (o: Order, i: AuctionIndication) => assessAuction(o, buildPlan(o), i)!;
+
+describe("assessAuction", () => {
+  it("recomputes the allowed quantity from the indicative matched volume", () => {
+    const a = assess(order(), ind());
+    expect(a).toMatchObject({ ourQty: 40_000, allowed: 75_000, absorbable: 100_000, shareLimit: 50_000, auctionQty: 40_000, toTal: 0 });
+    expect(a.warnings).toEqual([]);
+    expect(a.suggestion).toBe("Keep 40,000 in the auction.");
+  });
+
+  it("limits us to a share of an opposite imbalance and suggests TAL for the rest", () => {
+    const a = assess(order(), ind({ imbalanceQty: 50_000 }));
+    expect(a).toMatchObject({ overShare: true, movesPrice: false, auctionQty: 25_000, talSpare: 9_000, toTal: 9_000 });
+    expect(a.warnings).toEqual(["40,000 is 80% of the SELL imbalance (limit 50%)."]);
+    expect(a.suggestion).toContain("Move 9,000 to TAL");
+    expect(a.suggestion).toContain("6,000 is still over the auction limits.");
+  });
+
+  it("warns that adding to a same-side imbalance moves the price", () => {
+    const a = assess(order(), ind({ imbalanceSide: "BUY", imbalanceQty: 20_000 }));
+    expect(a.movesPrice).toBe(true);
+    expect(a.warnings[0]).toBe("40,000 in the auction adds to the 20,000 BUY imbalance — likely to move the indicative price up.");
+    expect(a.toTal).toBe(9_000);
+  });
+
+  it("treats an imbalance side without quantity as no imbalance", () => {
+    const a = assess(order(), ind({ imbalanceQty: 0 }));
+    expect(a).toMatchObject({ overShare: false, absorbable: 0, movesPrice: true });
+    expect(a.warnings.join(" ")).not.toContain("Infinity");
+    expect(addIndication(order(), ind({ imbalanceQty: 0 })).auctionIndications![0]).toMatchObject({ imbalanceSide: "NONE", imbalanceQty: 0 });
+  });
+
+  it("says so when there is no TAL to move to", () => {
+    const a = assess(order({ talStart: "", talEnd: "" }), ind({ matchedVol: 100_000 }));
+    expect(a.auctionQty).toBe(15_000);
+    expect(a.suggestion).toBe("No TAL capacity — 25,000 over the auction limits needs a decision.");
+  });
+});
+
+describe("auction alert", () => {
+  it("fires during the auction from the latest indication, critical through the limit", () => {
+    let o = addIndication(order({ limitPrice: 10.2 }), ind());
+    const alert = () => evaluateAlerts({ order: o, plan: buildPlan(o), now: "13:05", dateISO: "2026-10-19" }, DEFAULT_ALERT_RULES)
+      .find((a) => a.rule === "auctionImbalance");
+    expect(alert()).toBeUndefined();
+    o = addIndication(o, ind({ at: "13:06:00", price: 10.5 }));
+    expect(alert()).toMatchObject({ level: "CRIT" });
+    expect(alert()!.msg).toContain("Indicative price 10.5 is through the limit 10.2.");
+  });
+});
@@ -0,0 +1,93 @@
+import type { AuctionIndication, Order } from "./types";
+import { hasTalWindow, type BuiltPlan } from "./plan";
+import { fillTotals } from "./fills";
+import { hasLimit, throughLimit } from "./analytics";
+
+/* -------------------- Closing auction indications -------------------- */
+const INDICATIONS_MAX = 100;
+
+export function latestIndication(order: Order): AuctionIndication | null {
+  const list = order.auctionIndications || [];
+  return list.length ? list[list.length - 1] : null;
+}
+
+// A side with no quantity is no imbalance
+const balanced = (ind: AuctionIndication): AuctionIndication =>
+  ind.imbalanceSide !== "NONE" && !(ind.imbalanceQty > 0) ? { ...ind, imbalanceSide: "NONE", imbalanceQty: 0 } : ind;
+
+export function addIndication(order: Order, ind: AuctionIndication): Order {
+  return { ...order, auctionIndications: [...(order.auctionIndications || []), balanced(ind)].slice(-INDICATIONS_MAX) };
+}
+
+export type AuctionAssessment = {
+  indication: AuctionIndication;
+  ourQty: number; // still to go in the auction: remaining less what TAL is already planned to take
+  allowed: number; // max participation × indicative matched volume (all of it without a cap)
+  absorbable: number; // opposite-side imbalance: we match against it without moving the price
+  shareLimit: number; // imbalanceSharePct of that imbalance
+  auctionQty: number; // suggested for the auction, within `allowed` and the share limit
+  movesPrice: boolean;
+  overShare: boolean;
+  talSpare: number; // TAL capacity not planned yet
+  toTal: number; // suggested move to TAL
+  warnings: string[];
+  suggestion: string;
+};
+
+const fmt = (n: number) => Math.trunc(n).toLocaleString("en-US");
+
+/**
+ * The auction as the latest indication shows it (meant for the call phase,
+ * once continuous trading is over). Allowed participation is recomputed from
+ * the indicative matched volume; quantity beyond an opposite-side imbalance
+ * moves the indicative price, and more than `imbalanceSharePct` of it makes
+ * us the imbalance. Whatever the auction should not take is suggested for
+ * TAL, which trades at the auction price, up to TAL's spare capacity.
+ */
+export function assessAuction(order: Order, plan: BuiltPlan, latest = latestIndication(order)): AuctionAssessment | null {
+  if (!latest) return null;
+  const ind = balanced(latest);
+  const remaining = Math.max(0, order.orderQty - fillTotals(order.fills).qty);
+  const ourQty = Math.max(0, remaining - plan.talPlanned);
+  const opposite = ind.imbalanceSide !== "NONE" && ind.imbalanceSide !== order.side;
+  const absorbable = opposite ? ind.imbalanceQty : 0;
+  const shareLimit = opposite ? Math.floor((ind.imbalanceQty * order.imbalanceSharePct) / 100) : 0;
+  const allowed = order.capMode === "PCT" ? Math.floor((ind.matchedVol * order.maxPart) / 100) : ind.matchedVol;
+  const auctionQty = Math.min(ourQty, allowed, opposite ? shareLimit : Infinity);
+  const movesPrice = ourQty > absorbable;
+  const overShare = opposite && ourQty > shareLimit;
+  const talSpare = hasTalWindow(order) ? Math.max(0, plan.talAllowed - plan.talPlanned) : 0;
+  const toTal = Math.min(talSpare, Math.max(ourQty - auctionQty, movesPrice ? ourQty - absorbable : 0));
+
+  const warnings: string[] = [];
+  if (hasLimit(order) && ind.price > 0 && throughLimit(order, ind.price)) {
+    warnings.push(`Indicative price ${ind.price} is through the limit ${order.limitPrice}.`);
+  }
+  if (ourQty > 0 && movesPrice) {
+    const side = ind.imbalanceSide;
+    const why = opposite
+      ? `exceeds the ${fmt(ind.imbalanceQty)} ${side} imbalance`
+      : side === "NONE"
+      ? "would unbalance a matched book"
+      : `adds to the ${fmt(ind.imbalanceQty)} ${side} imbalance`;
+    warnings.push(`${fmt(ourQty)} in the auction ${why} — likely to move the indicative price ${order.side === "BUY" ? "up" : "down"}.`);
+  }
+  if (overShare) {
+    warnings.push(`${fmt(ourQty)} is ${Math.round((ourQty / ind.imbalanceQty) * 100)}% of the ${ind.imbalanceSide} imbalance (limit ${order.imbalanceSharePct}%).`);
+  }
+  if (ourQty > allowed && order.capMode === "PCT") {
+    warnings.push(`${fmt(ourQty)} is over ${order.maxPart}% of the indicative matched ${fmt(ind.matchedVol)} (${fmt(allowed)}).`);
+  }
+
+  let suggestion: string;
+  const over = ourQty - toTal - auctionQty;
+  if (ourQty === 0) suggestion = "Nothing left for the auction.";
+  else if (toTal > 0) {
+    suggestion = `Move ${fmt(toTal)} to TAL (trades at the auction price without moving it); keep ${fmt(ourQty - toTal)} in the auction.`;
+    if (over > 0) suggestion += ` ${fmt(over)} is still over the auction limits.`;
+  } else if (ourQty > auctionQty) {
+    suggestion = `No TAL capacity — ${fmt(ourQty - auctionQty)} over the auction limits needs a decision.`;
+  } else suggestion = `Keep ${fmt(ourQty)} in the auction.`;
+
+  return { indication: ind, ourQty, allowed, absorbable, shareLimit, auctionQty, movesPrice, overShare, talSpare, toTal, warnings, suggestion };
+}
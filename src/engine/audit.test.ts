@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import type { Order } from "./types";
+import { defaultOrder } from "./order";
+import { withFills } from "./fills";
+import { changeLogTable } from "./export";
+import {
+  annotateChange, applyStep, captureStep, emptyHistory, pushHistory, recordChanges, redoStep, undoStep,
+} from "./audit";
+
+const order = (o: Partial<Order> = {}): Order => ({ ...defaultOrder("BUY"), id: "a", ...o });
+
+describe("recordChanges", () => {
+  it("logs each changed parameter with old and new value", () => {
+    const prev = order();
+    const next = recordChanges(prev, { ...prev, maxPart: 20, execMode: "INLINE", currentVol: 5_000 }, "10:00:00", "client call");
+    expect(next.changeLog).toEqual([
+      { at: "10:00:00", field: "execMode", from: "OTD", to: "INLINE", reason: "client call" },
+      { at: "10:00:00", field: "maxPart", from: 15, to: 20, reason: "client call" },
+    ]);
+    expect(recordChanges(next, { ...next, currentVol: 9_000 }, "10:01:00")).toMatchObject({ changeLog: next.changeLog });
+  });
+
+  it("folds rapid edits of one field into a single change and drops a round trip", () => {
+    let o = order();
+    for (const [qty, at] of [[1, "10:00:00"], [10, "10:00:01"], [100, "10:00:02"]] as const) {
+      o = recordChanges(o, { ...o, orderQty: qty }, at);
+    }
+    expect(o.changeLog).toEqual([{ at: "10:00:02", field: "orderQty", from: 1_600_000, to: 100 }]);
+    o = recordChanges(o, { ...o, orderQty: 1_600_000 }, "10:00:30");
+    expect(o.changeLog).toEqual([]);
+    o = recordChanges(o, { ...o, orderQty: 2_000_000 }, "10:05:00");
+    o = recordChanges(o, { ...o, orderQty: 1_000_000 }, "10:07:00");
+    expect(o.changeLog).toHaveLength(2);
+  });
+
+  it("folds a burst per field when other fields are edited in between", () => {
+    let o = order();
+    o = recordChanges(o, { ...o, maxPart: 20 }, "10:00:00");
+    o = recordChanges(o, { ...o, curve: "equal" }, "10:00:10");
+    o = recordChanges(o, { ...o, maxPart: 25 }, "10:00:20");
+    expect(o.changeLog).toEqual([
+      { at: "10:00:10", field: "curve", from: "ucurve", to: "equal" },
+      { at: "10:00:20", field: "maxPart", from: 15, to: 25 },
+    ]);
+  });
+
+  it("keeps reasons and exports the log", () => {
+    let o = recordChanges(order(), { ...order(), sessionEnd: "12:30", breaks: [{ start: "11:00", end: "11:15" }] }, "10:00:00");
+    o = annotateChange(o, 1, "  half day ");
+    expect(o.changeLog![1].reason).toBe("half day");
+    expect(changeLogTable(o).rows).toEqual([
+      ["10:00:00", "Session end", "13:00", "12:30", ""],
+      ["10:00:00", "Breaks", "—", "11:00–11:15", "half day"],
+    ]);
+    expect(annotateChange(o, 1, "").changeLog![1]).not.toHaveProperty("reason");
+  });
+});
+
+describe("undo / redo", () => {
+  it("steps back and forward, coalescing keyed edits", () => {
+    let h = emptyHistory<number>();
+    h = pushHistory(h, 0, "Edit", 1_000, "edit:a");
+    h = pushHistory(h, 1, "Edit", 1_500, "edit:a");
+    h = pushHistory(h, 2, "Remove", 10_000);
+    const u1 = undoStep(h, 3)!;
+    expect([u1.state, u1.label]).toEqual([2, "Remove"]);
+    const u2 = undoStep(u1.history, u1.state)!;
+    expect(u2.state).toBe(0);
+    expect(undoStep(u2.history, u2.state)).toBeNull();
+    const r = redoStep(u2.history, u2.state)!;
+    expect(r.state).toBe(2);
+    expect(redoStep(pushHistory(r.history, 2, "Add", 20_000), 5)).toBeNull();
+  });
+
+  it("logs what an undo reverts and brings removed orders back as they were", () => {
+    const a = order();
+    const b = order({ id: "b", name: "Buy 2" });
+    const step = captureStep([a, b], ["a", "b"]);
+    const edited = recordChanges(a, { ...a, maxPart: 25 }, "10:00:00");
+    const back = applyStep({ orders: [edited], baskets: [] }, step, () => "10:02:00", "Undo");
+    expect(back.orders[0].maxPart).toBe(15);
+    expect(back.orders[0].changeLog).toEqual([
+      { at: "10:00:00", field: "maxPart", from: 15, to: 25 },
+      { at: "10:02:00", field: "maxPart", from: 25, to: 15, reason: "Undo" },
+    ]);
+    expect(back.orders[1]).toBe(b);
+    const redo = applyStep({ orders: back.orders, baskets: [] }, back.inverse, () => "10:03:00", "Redo");
+    expect(redo.orders.map((o) => [o.id, o.maxPart])).toEqual([["a", 25]]);
+  });
+
+  it("reverts only the step's parameters, keeping fills and orders that arrived since", () => {
+    const a = order();
+    const step = captureStep([a], ["a"]);
+    const edited = recordChanges(a, { ...a, maxPart: 25 }, "10:00:00");
+    const filled = withFills(edited, [{ id: "f1", at: "10:01:00", qty: 500, price: 10, kind: "FILL" }]);
+    const other = order({ id: "c", name: "From another window" });
+    const back = applyStep({ orders: [filled, other], baskets: [] }, step, () => "10:02:00", "Undo");
+    expect(back.orders.map((o) => o.id)).toEqual(["a", "c"]);
+    expect(back.orders[0]).toMatchObject({ maxPart: 15, orderExecQty: 500, fills: filled.fills });
+    // Undoing an add removes just that order
+    const added = order({ id: "d" });
+    const undoAdd = applyStep({ orders: [filled, added, other], baskets: [] }, captureStep([filled, other], ["d"]), () => "10:03:00", "Undo");
+    expect(undoAdd.orders.map((o) => o.id)).toEqual(["a", "c"]);
+  });
+});
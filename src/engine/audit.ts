@@ -0,0 +1,195 @@
+import type { AuditValue, Order, ParamChange } from "./types";
+import type { Basket } from "./basket";
+
+/* -------------------- Parameter audit trail -------------------- */
+// The order terms compliance asks about; dealer-updated market / exec fields are not logged
+export const AUDITED_FIELDS: Partial<Record<keyof Order, string>> = {
+  name: "Name",
+  symbol: "Symbol",
+  side: "Side",
+  market: "Market",
+  orderQty: "Order qty",
+  limitPrice: "Limit price",
+  execMode: "Exec mode",
+  capMode: "Cap mode",
+  maxPart: "Max participation %",
+  reserveAuctionPct: "Auction reserve %",
+  deferCompletion: "Defer completion",
+  sessionStart: "Session start",
+  sessionEnd: "Session end",
+  auctionStart: "Auction start",
+  auctionEnd: "Auction end",
+  talStart: "TAL start",
+  talEnd: "TAL end",
+  breaks: "Breaks",
+  intervalMins: "Interval (min)",
+  curve: "Volume curve",
+  liquidity: "Liquidity profile",
+  expectedContVol: "Expected continuous vol",
+  expectedAuctionVol: "Expected auction vol",
+  expectedTalVol: "Expected TAL vol",
+  benchmark: "Benchmark",
+  imbalanceSharePct: "Max imbalance share %",
+  completed: "Completed",
+};
+
+// Edits of the same field this close together (and not yet given a reason) are one change — typing a number is not ten
+export const CHANGE_COALESCE_SECS = 60;
+
+const CHANGE_LOG_MAX = 500;
+
+export function auditValue(order: Order, field: keyof Order): AuditValue {
+  if (field === "breaks") return order.breaks.map((b) => `${b.start}–${b.end}`).join(", ");
+  const v = order[field];
+  return typeof v === "number" || typeof v === "boolean" ? v : v == null ? "" : String(v);
+}
+
+export function paramChanges(prev: Order, next: Order): Omit<ParamChange, "at">[] {
+  const out: Omit<ParamChange, "at">[] = [];
+  for (const field of Object.keys(AUDITED_FIELDS) as (keyof Order)[]) {
+    const from = auditValue(prev, field);
+    const to = auditValue(next, field);
+    if (from !== to) out.push({ field, from, to });
+  }
+  return out;
+}
+
+const secs = (hms: string) => {
+  const [h, m, s] = hms.split(":").map((x) => parseInt(x, 10) || 0);
+  return h * 3600 + m * 60 + s;
+};
+
+/**
+ * `next` with any parameter changes since `prev` appended to its change log.
+ * A change to a field logged within CHANGE_COALESCE_SECS (even with other
+ * fields changed in between) extends that entry, moving it to the end, and
+ * one that ends up back where it started drops it.
+ */
+export function recordChanges(prev: Order, next: Order, at: string, reason?: string): Order {
+  const changes = paramChanges(prev, next);
+  if (changes.length === 0) return next;
+  const log = [...(next.changeLog || [])];
+  for (const c of changes) {
+    const i = log.map((e) => e.field).lastIndexOf(c.field);
+    const last = log[i];
+    if (!reason && last && !last.reason && Math.abs(secs(at) - secs(last.at)) <= CHANGE_COALESCE_SECS) {
+      log.splice(i, 1);
+      if (last.from !== c.to) log.push({ ...last, at, to: c.to });
+    } else {
+      log.push({ at, ...c, ...(reason ? { reason } : {}) });
+    }
+  }
+  return { ...next, changeLog: log.slice(-CHANGE_LOG_MAX) };
+}
+
+export function annotateChange(order: Order, index: number, reason: string): Order {
+  const log = order.changeLog || [];
+  if (!log[index]) return order;
+  const text = reason.trim();
+  return {
+    ...order,
+    changeLog: log.map((c, i) => {
+      if (i !== index) return c;
+      const { reason: _, ...rest } = c;
+      return text ? { ...rest, reason: text } : rest;
+    }),
+  };
+}
+
+export function formatAuditValue(v: AuditValue) {
+  if (typeof v === "boolean") return v ? "yes" : "no";
+  if (typeof v === "number") return v.toLocaleString("en-US", { maximumFractionDigits: 4 });
+  return v === "" ? "—" : v;
+}
+
+/* -------------------- Undo / redo -------------------- */
+export type UndoEntry<T> = {
+  state: T; // what undoing this step restores
+  label: string; // "Remove Buy 2", "Edit Sell 1"
+  key?: string; // consecutive steps with the same key inside UNDO_COALESCE_MS are one step
+  at: number; // epoch ms
+};
+export type UndoHistory<T> = { past: UndoEntry<T>[]; future: UndoEntry<T>[] };
+
+export const UNDO_COALESCE_MS = 2_000;
+const UNDO_MAX = 100;
+
+export function emptyHistory<T>(): UndoHistory<T> {
+  return { past: [], future: [] };
+}
+
+// Call with the state as it was before the step; any redo branch is dropped
+export function pushHistory<T>(h: UndoHistory<T>, state: T, label: string, at: number, key?: string): UndoHistory<T> {
+  const top = h.past[h.past.length - 1];
+  if (key && top && top.key === key && at - top.at <= UNDO_COALESCE_MS) {
+    return { past: [...h.past.slice(0, -1), { ...top, at }], future: [] };
+  }
+  return { past: [...h.past, { state, label, key, at }].slice(-UNDO_MAX), future: [] };
+}
+
+export function undoStep<T>(h: UndoHistory<T>, current: T): { history: UndoHistory<T>; state: T; label: string } | null {
+  const top = h.past[h.past.length - 1];
+  if (!top) return null;
+  return {
+    history: { past: h.past.slice(0, -1), future: [{ ...top, state: current }, ...h.future] },
+    state: top.state,
+    label: top.label,
+  };
+}
+
+export function redoStep<T>(h: UndoHistory<T>, current: T): { history: UndoHistory<T>; state: T; label: string } | null {
+  const next = h.future[0];
+  if (!next) return null;
+  return {
+    history: { past: [...h.past, { ...next, state: current }], future: h.future.slice(1) },
+    state: next.state,
+    label: next.label,
+  };
+}
+
+/* -------------------- Book undo steps -------------------- */
+// What undoing one book step puts back. Only what the step touched: the
+// parameters (and basket) of its orders, orders it added or removed, and the
+// baskets if it changed them — fills, ticks, snapshots and alerts that
+// arrived since are left alone.
+export type BookStep = {
+  ids: string[]; // orders the step touched
+  was: { index: number; order: Order }[]; // those that existed before it, as they were
+  baskets?: Basket[];
+};
+
+const STEP_FIELDS = [...Object.keys(AUDITED_FIELDS), "basketId"] as (keyof Order)[];
+
+export function captureStep(orders: Order[], ids: string[], baskets?: Basket[]): BookStep {
+  const was = orders.flatMap((order, index) => (ids.includes(order.id) ? [{ index, order }] : []));
+  return baskets ? { ids, was, baskets } : { ids, was };
+}
+
+/**
+ * Applies an undo (or redo) step to the book as it is now and returns the
+ * step that reverses it. Reverted parameters are logged on top of each
+ * order's current change log — the trail only ever grows. Orders the step
+ * removed come back as they were; orders it added go.
+ */
+export function applyStep(
+  book: { orders: Order[]; baskets: Basket[] },
+  step: BookStep,
+  at: (o: Order) => string,
+  reason: string
+): { orders: Order[]; baskets: Basket[]; inverse: BookStep } {
+  const inverse = captureStep(book.orders, step.ids, step.baskets && book.baskets);
+  const was = (id: string) => step.was.find((w) => w.order.id === id)?.order;
+  const orders = book.orders
+    .filter((o) => !step.ids.includes(o.id) || was(o.id))
+    .map((o) => {
+      const r = was(o.id);
+      if (!r) return o;
+      const next: Record<string, unknown> = { ...o };
+      for (const f of STEP_FIELDS) next[f] = r[f];
+      return recordChanges(o, next as Order, at(o), reason);
+    });
+  for (const w of step.was) {
+    if (!orders.some((o) => o.id === w.order.id)) orders.splice(Math.min(w.index, orders.length), 0, w.order);
+  }
+  return { orders, baskets: step.baskets ?? book.baskets, inverse };
+}
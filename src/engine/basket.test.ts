@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import type { Order } from "./types";
+import { defaultOrder } from "./order";
+import { buildPlan } from "./plan";
+import { withFills } from "./fills";
+import { basketStats, newBasket, refPrice } from "./basket";
+
+const basket = { ...newBasket(), cashTolerance: 50_000, maxLegGapPct: 10 };
+const leg = (o: Partial<Order>, executed = 0, price = 10): Order => {
+  const base = { ...defaultOrder(o.side || "BUY"), capMode: "NONE" as const, orderQty: 10_000, lastPrice: price, ...o };
+  return withFills(base, executed ? [{ id: base.name, at: "10:00:00", qty: executed, price, kind: "FILL" }] : []);
+};
+const stats = (orders: Order[], now = "11:00") => basketStats(basket, orders.map((order) => ({ order, plan: buildPlan(order), now })));
+
+describe("basketStats", () => {
+  it("splits gross and net notional by side", () => {
+    const st = stats([leg({ name: "B", side: "BUY" }, 5_000, 10), leg({ name: "S", side: "SELL" }, 4_000, 10)]);
+    expect(st.buy.execNotional).toBe(50_000);
+    expect(st.sell.execNotional).toBe(40_000);
+    expect(st.grossNotional).toBe(90_000);
+    expect(st.netNotional).toBe(10_000);
+    expect(st.withinTolerance).toBe(true);
+  });
+
+  it("weights completion by target notional", () => {
+    const st = stats([leg({ name: "A" }, 10_000, 30), leg({ name: "B", side: "SELL" }, 0, 10)]);
+    expect(st.completion).toBeCloseTo(0.75);
+  });
+
+  it("alerts on cash imbalance and a leg running ahead", () => {
+    const st = stats([leg({ name: "A", symbol: "QNBK" }, 10_000, 10), leg({ name: "B", side: "SELL" }, 1_000, 10)]);
+    expect(st.withinTolerance).toBe(false);
+    expect(st.alerts.map((a) => a.level)).toEqual(["WARN", "WARN", "WARN"]);
+    expect(st.alerts[0].msg).toBe("Cash imbalance 90,000 net bought exceeds tolerance 50,000.");
+    expect(st.alerts[1].msg).toBe("A (QNBK) is 45 pts ahead of the basket.");
+    expect(st.alerts[2].msg).toBe("Buy side is 90 pts ahead of the sell side.");
+  });
+
+  it("paces the basket against its legs' plans", () => {
+    expect(stats([leg({ name: "A" }), leg({ name: "B" })], "09:00").pace).toBe("ON");
+    expect(stats([leg({ name: "A" }), leg({ name: "B" })], "12:00").pace).toBe("LAG");
+  });
+
+  it("prices legs by their own VWAP first", () => {
+    expect(refPrice(leg({ lastPrice: 11 }, 100, 9))).toBe(9);
+    expect(refPrice(leg({ lastPrice: 0, arrivalPrice: 0, limitPrice: 12 }))).toBe(12);
+  });
+});
@@ -0,0 +1,141 @@
+import type { AlertLevel, Order, PaceClass, Side } from "./types";
+import type { BuiltPlan } from "./plan";
+import { accumulatedSuggested } from "./plan";
+import { fillTotals } from "./fills";
+
+/* -------------------- Baskets -------------------- */
+// A program trade: orders tagged with the same `basketId`, tracked together
+export type Basket = {
+  id: string;
+  name: string;
+  cashTolerance: number; // max |buy − sell| executed notional
+  maxLegGapPct: number; // how far (pct points of completion) a leg may run ahead of the basket
+};
+
+export function newBasket(idx = 1): Basket {
+  return { id: "b" + Math.random().toString(36).slice(2, 9), name: `Basket ${idx}`, cashTolerance: 1_000_000, maxLegGapPct: 10 };
+}
+
+// `now` is the leg's exchange time, as for the card's pacing
+export type BasketLegInput = { order: Order; plan: BuiltPlan; now: string };
+
+export type BasketLeg = {
+  order: Order;
+  refPrice: number; // order VWAP, else last / arrival / limit; 0 = unknown
+  targetNotional: number;
+  execQty: number;
+  execNotional: number;
+  progress: number; // executed / order qty, 0–1
+  planned: number; // plan-by-now / order qty, 0–1
+};
+
+export type SideTotals = { orders: number; qty: number; execQty: number; execNotional: number; targetNotional: number; progress: number };
+
+export type BasketAlert = { level: AlertLevel; msg: string };
+
+export type BasketStats = {
+  legs: BasketLeg[];
+  buy: SideTotals;
+  sell: SideTotals;
+  grossNotional: number;
+  netNotional: number; // buy − sell executed
+  withinTolerance: boolean;
+  completion: number; // 0–1, weighted by target notional (by qty when no leg has a price)
+  planned: number;
+  pace: PaceClass;
+  alerts: BasketAlert[];
+};
+
+export function refPrice(order: Order) {
+  const t = fillTotals(order.fills);
+  return (t.qty > 0 ? t.notional / t.qty : 0) || order.lastPrice || order.arrivalPrice || order.limitPrice || 0;
+}
+
+function legOf({ order, plan, now }: BasketLegInput): BasketLeg {
+  const t = fillTotals(order.fills);
+  const price = refPrice(order);
+  const qty = Math.max(0, order.orderQty);
+  return {
+    order,
+    refPrice: price,
+    targetNotional: qty * price,
+    execQty: t.qty,
+    execNotional: t.notional,
+    progress: qty > 0 ? t.qty / qty : 0,
+    planned: qty > 0 ? accumulatedSuggested(plan, order.sessionStart, now) / qty : 0,
+  };
+}
+
+// Weighted by target notional, or by qty when no leg is priced yet
+function weighted(legs: BasketLeg[], pick: (l: BasketLeg) => number) {
+  const byNotional = legs.some((l) => l.targetNotional > 0);
+  const w = (l: BasketLeg) => (byNotional ? l.targetNotional : l.order.orderQty);
+  const total = legs.reduce((a, l) => a + w(l), 0);
+  return total > 0 ? legs.reduce((a, l) => a + w(l) * pick(l), 0) / total : 0;
+}
+
+function sideTotals(legs: BasketLeg[], side: Side): SideTotals {
+  const ls = legs.filter((l) => l.order.side === side);
+  return {
+    orders: ls.length,
+    qty: ls.reduce((a, l) => a + l.order.orderQty, 0),
+    execQty: ls.reduce((a, l) => a + l.execQty, 0),
+    execNotional: ls.reduce((a, l) => a + l.execNotional, 0),
+    targetNotional: ls.reduce((a, l) => a + l.targetNotional, 0),
+    progress: weighted(ls, (l) => l.progress),
+  };
+}
+
+const pts = (x: number) => `${Math.round(x * 100)} pts`;
+const money = (n: number) => Math.round(n).toLocaleString("en-US");
+
+/**
+ * Basket totals per side, net cash exposure against the tolerance, completion
+ * and pacing vs the legs' plans, and alerts when a leg (or a whole side) runs
+ * ahead of the rest by more than `maxLegGapPct`.
+ */
+export function basketStats(basket: Basket, inputs: BasketLegInput[]): BasketStats {
+  const legs = inputs.map(legOf);
+  const buy = sideTotals(legs, "BUY");
+  const sell = sideTotals(legs, "SELL");
+  const netNotional = buy.execNotional - sell.execNotional;
+  const completion = weighted(legs, (l) => l.progress);
+  const planned = weighted(legs, (l) => l.planned);
+  const delta = completion - planned;
+  const pace: PaceClass = planned === 0 ? "ON" : delta >= planned * 0.05 ? "AHEAD" : delta <= -planned * 0.05 ? "LAG" : "ON";
+
+  const alerts: BasketAlert[] = [];
+  const tol = basket.cashTolerance;
+  const withinTolerance = !(tol > 0) || Math.abs(netNotional) <= tol;
+  if (!withinTolerance) {
+    alerts.push({
+      level: Math.abs(netNotional) > 2 * tol ? "CRIT" : "WARN",
+      msg: `Cash imbalance ${money(Math.abs(netNotional))} ${netNotional > 0 ? "net bought" : "net sold"} exceeds tolerance ${money(tol)}.`,
+    });
+  }
+  const gap = basket.maxLegGapPct / 100;
+  if (gap > 0 && legs.length > 1) {
+    for (const l of legs) {
+      if (l.progress - completion > gap) {
+        alerts.push({ level: "WARN", msg: `${l.order.name} (${l.order.symbol}) is ${pts(l.progress - completion)} ahead of the basket.` });
+      }
+    }
+    if (buy.orders > 0 && sell.orders > 0 && Math.abs(buy.progress - sell.progress) > gap) {
+      const [lead, lag] = buy.progress > sell.progress ? ["Buy", "sell"] : ["Sell", "buy"];
+      alerts.push({ level: "WARN", msg: `${lead} side is ${pts(Math.abs(buy.progress - sell.progress))} ahead of the ${lag} side.` });
+    }
+  }
+
+  return {
+    legs,
+    buy,
+    sell,
+    grossNotional: buy.execNotional + sell.execNotional,
+    netNotional,
+    withinTolerance,
+    completion,
+    planned,
+    pace,
+    alerts,
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { importBlotter } from "./blotter";
+
+const opts = { dateISO: "2026-10-19" };
+
+describe("importBlotter", () => {
+  it("builds configured orders on top of the defaults", () => {
+    const { orders, errors } = importBlotter(
+      `Symbol,Side,Qty,Market,Exec Mode,Cap %,Auction Reserve %,Limit,Client
+qnbk,buy,"250,000",Qatar,INLINE,20,5,18.5,Fund A
+EMAAR,S,100000,dfm,,,,,`,
+      { ...opts, firstIdx: 3 }
+    );
+    expect(errors).toEqual([]);
+    expect(orders[0]).toMatchObject({
+      name: "Fund A", symbol: "QNBK", side: "BUY", orderQty: 250_000, market: "Qatar",
+      execMode: "INLINE", capMode: "PCT", maxPart: 20, reserveAuctionPct: 5, limitPrice: 18.5,
+    });
+    expect(orders[1]).toMatchObject({
+      name: "Sell 4", symbol: "EMAAR", side: "SELL", market: "DFM", sessionStart: "09:00", auctionStart: "13:45",
+      execMode: "OTD", capMode: "PCT", maxPart: 15, reserveAuctionPct: 10, limitPrice: 0,
+    });
+    expect(orders[0].id).not.toBe(orders[1].id);
+  });
+
+  it("treats a NONE or zero cap as uncapped", () => {
+    const { orders } = importBlotter("symbol,side,qty,cap\nA,BUY,1,none\nB,BUY,1,0", opts);
+    expect(orders.map((o) => o.capMode)).toEqual(["NONE", "NONE"]);
+  });
+
+  it("reports every problem on a bad row and keeps the good ones", () => {
+    const { orders, errors } = importBlotter(
+      "symbol,side,qty,market,cap\nQNBK,BUY,1000,Qatar,15\n,HOLD,-5,Tadawul,150\nIQCD,SELL,1.5,,",
+      opts
+    );
+    expect(orders.map((o) => o.symbol)).toEqual(["QNBK"]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^Row 3: symbol is required; side must be BUY or SELL .*; qty must .*; unknown market "Tadawul".*; cap % must/);
+    expect(errors[1]).toMatch(/^Row 4: qty must be a positive whole number/);
+  });
+
+  it("rejects numbers with trailing text instead of reading their leading digits", () => {
+    const { orders, errors } = importBlotter(
+      "symbol,side,qty,cap,reserve,limit\nQNBK,BUY,250k,15x,5,18.5abc\nIQCD,SELL,\"1,000\",20%,10 %,.5",
+      opts
+    );
+    expect(errors).toEqual([
+      'Row 2: qty must be a positive whole number (got "250k"); cap % must be 0–100 or NONE (got "15x"); limit must be a positive price (got "18.5abc").',
+    ]);
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({ symbol: "IQCD", orderQty: 1000, maxPart: 20, reserveAuctionPct: 10, limitPrice: 0.5 });
+  });
+
+  it("needs symbol, side and qty columns", () => {
+    expect(importBlotter("symbol,quantity\nQNBK,1", opts).errors).toEqual(["Missing required column(s): side."]);
+  });
+
+  it("uses the day's timetable for the market", () => {
+    const { orders } = importBlotter("symbol,side,qty,market\nQNBK,BUY,1000,Qatar", { dateISO: "2026-03-01" });
+    expect(orders[0]).toMatchObject({ sessionStart: "10:00", auctionStart: "12:30" });
+  });
+});
@@ -0,0 +1,124 @@
+import type { ExecMode, MarketKey, Order, Side } from "./types";
+import { ALL_MARKETS, type CalendarEntry } from "./markets";
+import { parseCsv } from "./csv";
+import { defaultOrder, withMarket } from "./order";
+
+/* -------------------- Blotter import -------------------- */
+// Header aliases, compared lower-case with everything but letters stripped ("Cap %" → "cap")
+const COLUMNS = {
+  symbol: ["symbol", "ticker"],
+  side: ["side", "bs"],
+  qty: ["qty", "quantity", "orderqty"],
+  market: ["market", "exchange"],
+  execMode: ["execmode", "mode", "exec"],
+  cap: ["cap", "maxpart", "participation"],
+  reserve: ["auctionreserve", "reserve"],
+  limit: ["limit", "limitprice"],
+  name: ["name", "client", "ordername"],
+} as const;
+type Column = keyof typeof COLUMNS;
+
+export type BlotterOptions = {
+  dateISO: string; // trade date, picks each market's timetable (half days, Ramadan)
+  overrides?: CalendarEntry[];
+  firstIdx?: number; // numbering for default names ("Buy 3")
+};
+
+// Whole cell must be a number (thousands commas allowed): "250k" or "18.5abc" is NaN, not 250 / 18.5
+const num = (v: string) => {
+  const t = v.replace(/,/g, "").trim();
+  return /^-?(\d+\.?\d*|\.\d+)$/.test(t) ? Number(t) : NaN;
+};
+
+/**
+ * Orders from a blotter CSV (symbol, side, qty, market, exec mode, cap %,
+ * auction reserve %, optional limit and name). Blank optional cells keep the
+ * defaults of a new order; a row with any invalid cell is rejected whole and
+ * reported as "Row N: …" with every problem found on it.
+ */
+export function importBlotter(text: string, opts: BlotterOptions): { orders: Order[]; errors: string[] } {
+  const rows = parseCsv(text);
+  if (rows.length < 2) return { orders: [], errors: ["Need a header row and at least one order row."] };
+  const header = rows[0].map((h) => h.toLowerCase().replace(/[^a-z]/g, ""));
+  const col = {} as Record<Column, number>;
+  for (const k of Object.keys(COLUMNS) as Column[]) {
+    col[k] = header.findIndex((h) => (COLUMNS[k] as readonly string[]).includes(h));
+  }
+  const missing = (["symbol", "side", "qty"] as Column[]).filter((k) => col[k] < 0);
+  if (missing.length) return { orders: [], errors: [`Missing required column(s): ${missing.join(", ")}.`] };
+
+  const orders: Order[] = [];
+  const errors: string[] = [];
+  let idx = opts.firstIdx ?? 1;
+
+  rows.slice(1).forEach((r, i) => {
+    const cell = (k: Column) => (col[k] >= 0 ? (r[col[k]] || "").trim() : "");
+    const problems: string[] = [];
+
+    const symbol = cell("symbol").toUpperCase();
+    if (!/^[A-Z0-9.]+$/.test(symbol)) problems.push(symbol ? `invalid symbol "${symbol}"` : "symbol is required");
+
+    const sideRaw = cell("side").toUpperCase();
+    const side: Side | null = sideRaw === "BUY" || sideRaw === "B" ? "BUY" : sideRaw === "SELL" || sideRaw === "S" ? "SELL" : null;
+    if (!side) problems.push(`side must be BUY or SELL (got "${cell("side")}")`);
+
+    const qty = num(cell("qty"));
+    if (!Number.isInteger(qty) || qty <= 0) problems.push(`qty must be a positive whole number (got "${cell("qty")}")`);
+
+    let market: MarketKey | undefined;
+    if (cell("market")) {
+      market = ALL_MARKETS.find((m) => m.toLowerCase() === cell("market").toLowerCase());
+      if (!market) problems.push(`unknown market "${cell("market")}" (${ALL_MARKETS.join(", ")})`);
+    }
+
+    let execMode: ExecMode | undefined;
+    if (cell("execMode")) {
+      const m = cell("execMode").toUpperCase();
+      if (m === "OTD" || m === "INLINE") execMode = m;
+      else problems.push(`exec mode must be OTD or INLINE (got "${cell("execMode")}")`);
+    }
+
+    // Blank = default cap; "NONE" or 0 = uncapped
+    let cap: number | "NONE" | undefined;
+    if (cell("cap")) {
+      const v = cell("cap").replace("%", "");
+      const n = num(v);
+      if (v.toUpperCase() === "NONE" || n === 0) cap = "NONE";
+      else if (n > 0 && n <= 100) cap = n;
+      else problems.push(`cap % must be 0–100 or NONE (got "${cell("cap")}")`);
+    }
+
+    let reserve: number | undefined;
+    if (cell("reserve")) {
+      const n = num(cell("reserve").replace("%", ""));
+      if (n >= 0 && n <= 100) reserve = n;
+      else problems.push(`auction reserve % must be 0–100 (got "${cell("reserve")}")`);
+    }
+
+    let limit = 0;
+    if (cell("limit")) {
+      limit = num(cell("limit"));
+      if (!(limit > 0)) problems.push(`limit must be a positive price (got "${cell("limit")}")`);
+    }
+
+    if (problems.length || !side) {
+      errors.push(`Row ${i + 2}: ${problems.join("; ")}.`);
+      return;
+    }
+
+    let o = defaultOrder(side, idx++);
+    o = withMarket(o, market || o.market!, opts.dateISO, opts.overrides);
+    orders.push({
+      ...o,
+      name: cell("name") || o.name,
+      symbol,
+      orderQty: qty,
+      limitPrice: limit,
+      ...(execMode ? { execMode } : {}),
+      ...(cap === "NONE" ? { capMode: "NONE" as const } : cap !== undefined ? { capMode: "PCT" as const, maxPart: cap } : {}),
+      ...(reserve !== undefined ? { reserveAuctionPct: reserve } : {}),
+    });
+  });
+
+  return { orders, errors };
+}
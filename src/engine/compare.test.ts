@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { Order } from "./types";
+import { defaultOrder } from "./order";
+import { buildPlan } from "./plan";
+import { compareStrategies, planMetrics, sameStrategy, strategyOf, suggestedVariants } from "./compare";
+
+const order = (o: Partial<Order> = {}): Order => ({ ...defaultOrder("BUY"), ...o });
+
+describe("planMetrics", () => {
+  it("summarizes split, caps, peak participation and impact", () => {
+    const o = order();
+    const m = planMetrics(o, buildPlan(o));
+    expect(m.slices).toBe(7);
+    expect(m.capBound).toBe(7);
+    expect(m.peakParticipation).toBeCloseTo(0.15, 2);
+    expect(m.impactFlags).toBe(0);
+    expect(m.unfilled).toBe(o.orderQty - m.contPlanned - m.closePlanned);
+  });
+
+  it("flags slices above a quarter of expected volume", () => {
+    const o = order({ capMode: "NONE", orderQty: 1_000_000 });
+    const m = planMetrics(o, buildPlan(o));
+    expect(m.capBound).toBe(0);
+    expect(m.impactFlags).toBe(7);
+    expect(m.unfilled).toBe(0);
+  });
+});
+
+describe("compareStrategies", () => {
+  it("runs each variant without touching the order", () => {
+    const o = order({ orderQty: 300_000 });
+    const [a, b] = compareStrategies(o, [strategyOf(o), { ...strategyOf(o), maxPart: 30 }]);
+    expect(b.metrics.contPlanned).toBeGreaterThan(a.metrics.contPlanned);
+    expect(o.maxPart).toBe(15);
+  });
+
+  it("suggests distinct variants starting with the current strategy", () => {
+    const o = order();
+    const vs = suggestedVariants(o);
+    expect(sameStrategy(vs[0], strategyOf(o))).toBe(true);
+    expect(vs).toHaveLength(4);
+    expect(vs.map((v) => v.execMode)).toContain("INLINE");
+    expect(sameStrategy({ ...vs[0], capMode: "NONE", maxPart: 1 }, { ...vs[0], capMode: "NONE", maxPart: 2 })).toBe(true);
+  });
+});
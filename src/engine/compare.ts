@@ -0,0 +1,72 @@
+import type { Order } from "./types";
+import type { VolumeCurve } from "./curves";
+import { buildPlan, hasTalWindow, isCapBound, isImpactRow, type BuiltPlan } from "./plan";
+
+/* -------------------- What-if comparison -------------------- */
+// The knobs a dealer weighs before committing; everything else stays as on the order
+export type StrategyParams = Pick<Order, "execMode" | "capMode" | "maxPart" | "curve" | "reserveAuctionPct">;
+
+export function strategyOf(order: Order): StrategyParams {
+  const { execMode, capMode, maxPart, curve, reserveAuctionPct } = order;
+  return { execMode, capMode, maxPart, curve, reserveAuctionPct };
+}
+export function sameStrategy(a: StrategyParams, b: StrategyParams) {
+  return (
+    a.execMode === b.execMode &&
+    a.capMode === b.capMode &&
+    (a.capMode === "NONE" || a.maxPart === b.maxPart) &&
+    a.curve === b.curve &&
+    a.reserveAuctionPct === b.reserveAuctionPct
+  );
+}
+
+export type PlanMetrics = {
+  contPlanned: number;
+  closePlanned: number; // auction + TAL
+  contShare: number; // of the planned total, 0–1
+  capBound: number; // slices planned at their cap
+  slices: number;
+  peakParticipation: number; // highest planned / expected volume over slices, auction and TAL, 0–1+
+  unfilled: number;
+  impactFlags: number;
+};
+
+export function planMetrics(order: Order, plan: BuiltPlan): PlanMetrics {
+  const closePlanned = plan.auctionPlanned + plan.talPlanned;
+  const total = plan.contPlanned + closePlanned;
+  const shares = plan.rows.map((r) => (r.expMktVol > 0 ? r.suggestedQty / r.expMktVol : 0));
+  if (order.expectedAuctionVol > 0) shares.push(plan.auctionPlanned / order.expectedAuctionVol);
+  if (hasTalWindow(order) && order.expectedTalVol > 0) shares.push(plan.talPlanned / order.expectedTalVol);
+  return {
+    contPlanned: plan.contPlanned,
+    closePlanned,
+    contShare: total > 0 ? plan.contPlanned / total : 0,
+    capBound: plan.rows.filter(isCapBound).length,
+    slices: plan.rows.length,
+    peakParticipation: Math.max(0, ...shares),
+    unfilled: Math.max(0, order.orderQty - total),
+    impactFlags: plan.rows.filter((r) => isImpactRow(r)).length,
+  };
+}
+
+export type StrategyResult = { params: StrategyParams; plan: BuiltPlan; metrics: PlanMetrics };
+
+export function compareStrategies(order: Order, variants: StrategyParams[], hist?: VolumeCurve): StrategyResult[] {
+  return variants.map((params) => {
+    const o = { ...order, ...params };
+    const plan = buildPlan(o, hist);
+    return { params, plan, metrics: planMetrics(o, plan) };
+  });
+}
+
+// Starting set: the order as is, the other exec mode, a looser cap and a different auction reserve
+export function suggestedVariants(order: Order): StrategyParams[] {
+  const cur = strategyOf(order);
+  const candidates: StrategyParams[] = [
+    cur,
+    { ...cur, execMode: cur.execMode === "OTD" ? "INLINE" : "OTD" },
+    cur.capMode === "PCT" ? { ...cur, maxPart: Math.min(100, cur.maxPart + 5) } : { ...cur, capMode: "PCT", maxPart: 15 },
+    { ...cur, reserveAuctionPct: cur.reserveAuctionPct > 0 ? 0 : 20 },
+  ];
+  return candidates.filter((v, i) => candidates.findIndex((w) => sameStrategy(v, w)) === i);
+}
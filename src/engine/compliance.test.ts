@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { Fill, Order, Snapshot } from "./types";
+import { defaultOrder } from "./order";
+import { buildPlan } from "./plan";
+import { withFills } from "./fills";
+import { complianceTable } from "./export";
+import { DEFAULT_ALERT_RULES, evaluateAlerts } from "./alerts";
+import { complianceReport, currentCapBucket } from "./compliance";
+
+const snap = (at: string, currentVol: number, orderExecQty: number): Snapshot => ({
+  at, currentVol, orderExecQty, orderExecNotional: orderExecQty * 10, marketTurnover: currentVol * 10,
+  expectedContVol: 0, expectedAuctionVol: 0, marketVWAPInput: 0,
+});
+const fill = (at: string, qty: number): Fill => ({ id: at, at, qty, price: 10, kind: "FILL" });
+const order = (o: Partial<Order> = {}): Order => ({ ...defaultOrder("BUY"), maxPart: 15, ...o });
+const report = (o: Order) => complianceReport(o, buildPlan(o));
+
+describe("complianceReport", () => {
+  it("measures each slice from snapshot deltas and grades breaches", () => {
+    const r = report(order({ snapshots: [snap("10:00:00", 100_000, 10_000), snap("10:30:00", 200_000, 30_000), snap("11:00:00", 300_000, 46_000)] }));
+    const [a, b, c, d] = r.buckets;
+    expect([a.participation, a.breach]).toEqual([0.1, null]);
+    expect(b).toMatchObject({ marketVol: 100_000, executed: 20_000, allowed: 15_000, breach: { severity: "CRIT", excessQty: 5_000 } });
+    expect(c.breach).toEqual({ severity: "WARN", excessQty: 1_000 });
+    expect(d.observedTo).toBeNull();
+    expect(r).toMatchObject({ capPct: 15, breaches: 2, excessQty: 6_000, worst: "CRIT" });
+    expect(r.session).toMatchObject({ marketVol: 300_000, executed: 46_000, observedTo: "11:00:00", breach: { severity: "WARN" } });
+  });
+
+  it("interpolates market volume to slice edges and prefers fills for executed qty", () => {
+    const base = order({ snapshots: [snap("09:45:00", 50_000, 0), snap("10:15:00", 150_000, 0)] });
+    const r = report(withFills(base, [fill("09:50:00", 6_000), fill("10:05:00", 1_000)]));
+    expect(r.buckets[0]).toMatchObject({ marketVol: 100_000, executed: 6_000, breach: null });
+    expect(r.buckets[1]).toMatchObject({ observedTo: "10:15:00", marketVol: 50_000, executed: 1_000 });
+    expect(r.session.executed).toBe(7_000);
+  });
+
+  it("has nothing to flag without a cap", () => {
+    const r = report(order({ capMode: "NONE", snapshots: [snap("10:00:00", 10_000, 9_000)] }));
+    expect(r.capPct).toBeNull();
+    expect(r.buckets[0]).toMatchObject({ participation: 0.9, allowed: null, breach: null });
+    expect(complianceTable(r).rows.map((row) => row[0])).toEqual(["09:30 – 10:00", "SESSION"]);
+  });
+});
+
+describe("live cap alert", () => {
+  const live = order({ snapshots: [snap("10:00:00", 100_000, 10_000)], lastUpdateAt: "10:10:00", currentVol: 110_000, orderExecQty: 13_000 });
+
+  it("goes critical when the current slice runs over the cap", () => {
+    const plan = buildPlan(live);
+    expect(currentCapBucket(complianceReport(live, plan), "10:10")).toMatchObject({ executed: 3_000, marketVol: 10_000 });
+    const alert = evaluateAlerts({ order: live, plan, now: "10:10", dateISO: "2026-10-19" }, DEFAULT_ALERT_RULES).find((a) => a.rule === "capBreach");
+    expect(alert).toMatchObject({ level: "CRIT" });
+    expect(alert!.msg).toContain("30.0%");
+  });
+
+  it("stays quiet inside the cap", () => {
+    const calm = { ...live, orderExecQty: 11_000 };
+    const alerts = evaluateAlerts({ order: calm, plan: buildPlan(calm), now: "10:10", dateISO: "2026-10-19" }, DEFAULT_ALERT_RULES);
+    expect(alerts.map((a) => a.rule)).not.toContain("capBreach");
+  });
+});
@@ -0,0 +1,137 @@
+import type { Order } from "./types";
+import { finalEnd, hasTalWindow, type BuiltPlan } from "./plan";
+
+/* -------------------- Participation-cap compliance -------------------- */
+export type CapBucket = {
+  kind: "CONTINUOUS" | "AUCTION" | "TAL";
+  label: string; // plan slice label, "Auction" or "TAL"
+  s: string; // HH:MM
+  e: string; // HH:MM
+  observedTo: string | null; // HH:MM:SS the data reaches inside the bucket; null = not observed yet
+  marketVol: number;
+  executed: number;
+  participation: number | null; // 0–1+; null = no market volume to measure against
+  allowed: number | null; // cap × market volume; null = no cap
+  breach: CapBreach | null;
+};
+
+export type CapBreach = {
+  severity: "WARN" | "CRIT";
+  excessQty: number; // executed over the allowed quantity
+};
+
+export type ComplianceReport = {
+  capPct: number | null; // null = order has no participation cap
+  buckets: CapBucket[];
+  session: { marketVol: number; executed: number; participation: number | null; observedTo: string | null; breach: CapBreach | null };
+  breaches: number;
+  excessQty: number;
+  worst: CapBreach["severity"] | null;
+};
+
+// A breach more than this far over the cap (relative: 15% cap → above 18%) is critical
+export const CAP_BREACH_CRIT_RATIO = 1.2;
+
+type Point = { t: number; mkt: number; exec: number };
+
+const secs = (t: string) => {
+  const [h, m, s] = t.split(":").map((x) => parseInt(x || "0", 10));
+  return h * 3600 + m * 60 + (s || 0);
+};
+const hms = (t: number) => [Math.floor(t / 3600), Math.floor(t / 60) % 60, t % 60].map((n) => String(n).padStart(2, "0")).join(":");
+
+// Cumulative market volume and executed qty over the day: the start, every snapshot and the latest live update
+function observations(order: Order): Point[] {
+  const pts: Point[] = [{ t: secs(order.sessionStart), mkt: order.startVol, exec: 0 }];
+  const snaps = [...order.snapshots].sort((a, b) => (a.at < b.at ? -1 : a.at > b.at ? 1 : 0));
+  for (const s of snaps) pts.push({ t: secs(s.at), mkt: s.currentVol, exec: s.orderExecQty });
+  const last = pts[pts.length - 1];
+  if (order.lastUpdateAt && secs(order.lastUpdateAt) > last.t) {
+    pts.push({ t: secs(order.lastUpdateAt), mkt: order.currentVol, exec: order.orderExecQty });
+  }
+  return pts.filter((p, i) => i === 0 || p.t > pts[0].t);
+}
+
+// Linear between observations; flat before the first
+function at(pts: Point[], t: number, key: "mkt" | "exec") {
+  if (t <= pts[0].t) return pts[0][key];
+  for (let i = 1; i < pts.length; i++) {
+    if (t <= pts[i].t) {
+      const a = pts[i - 1];
+      const b = pts[i];
+      return a[key] + ((b[key] - a[key]) * (t - a.t)) / (b.t - a.t);
+    }
+  }
+  return pts[pts.length - 1][key];
+}
+
+export function capBreach(executed: number, marketVol: number, capPct: number): CapBreach | null {
+  const allowed = Math.floor((marketVol * capPct) / 100);
+  if (marketVol <= 0 || executed <= allowed) return null;
+  const ratio = executed / marketVol / (capPct / 100);
+  return { severity: ratio > CAP_BREACH_CRIT_RATIO ? "CRIT" : "WARN", excessQty: Math.round(executed - allowed) };
+}
+
+/**
+ * Realized participation against `maxPart` for each plan slice, the auction
+ * and TAL, and for the session so far. Market volume comes from the
+ * snapshot journal (plus the latest live update), interpolated to slice
+ * edges; executed qty comes from the fills, or the snapshots when there are
+ * none. A bucket is measured only as far as the data reaches.
+ */
+export function complianceReport(order: Order, plan: BuiltPlan): ComplianceReport {
+  const capPct = order.capMode === "PCT" ? order.maxPart : null;
+  const pts = observations(order);
+  const end = pts[pts.length - 1].t;
+  const fills = order.fills.filter((f) => f.qty > 0);
+  const executedIn = (s: number, e: number) =>
+    fills.length
+      ? fills.filter((f) => secs(f.at) >= s && secs(f.at) < e).reduce((a, f) => a + f.qty, 0)
+      : Math.max(0, at(pts, e, "exec") - at(pts, s, "exec"));
+
+  const spans: Pick<CapBucket, "kind" | "label" | "s" | "e">[] = plan.rows.map((r) => ({ kind: "CONTINUOUS", label: r.interval, s: r.s, e: r.e }));
+  spans.push({ kind: "AUCTION", label: "Auction", s: order.auctionStart, e: order.auctionEnd });
+  if (hasTalWindow(order)) spans.push({ kind: "TAL", label: "TAL", s: order.talStart, e: order.talEnd });
+
+  const buckets = spans.map((b): CapBucket => {
+    const s = secs(b.s);
+    const e = Math.min(secs(b.e), end);
+    if (e <= s) return { ...b, observedTo: null, marketVol: 0, executed: 0, participation: null, allowed: null, breach: null };
+    const marketVol = Math.max(0, Math.round(at(pts, e, "mkt") - at(pts, s, "mkt")));
+    // The last bucket keeps fills stamped right at the close
+    const executed = Math.round(executedIn(s, e === secs(finalEnd(order)) ? e + 1 : e));
+    return {
+      ...b,
+      observedTo: hms(e),
+      marketVol,
+      executed,
+      participation: marketVol > 0 ? executed / marketVol : null,
+      allowed: capPct === null ? null : Math.floor((marketVol * capPct) / 100),
+      breach: capPct === null ? null : capBreach(executed, marketVol, capPct),
+    };
+  });
+
+  const observed = end > pts[0].t;
+  const marketVol = observed ? Math.max(0, pts[pts.length - 1].mkt - order.startVol) : 0;
+  const executed = observed ? Math.round(executedIn(pts[0].t, end + 1)) : 0;
+  const hits = buckets.filter((b) => b.breach);
+  return {
+    capPct,
+    buckets,
+    session: {
+      marketVol,
+      executed,
+      participation: marketVol > 0 ? executed / marketVol : null,
+      observedTo: observed ? hms(end) : null,
+      breach: capPct === null ? null : capBreach(executed, marketVol, capPct),
+    },
+    breaches: hits.length,
+    excessQty: hits.reduce((a, b) => a + b.breach!.excessQty, 0),
+    worst: hits.some((b) => b.breach!.severity === "CRIT") ? "CRIT" : hits.length ? "WARN" : null,
+  };
+}
+
+// The bucket `now` (HH:MM) falls in, as far as it has been observed
+export function currentCapBucket(report: ComplianceReport, now: string) {
+  return report.buckets.find((b) => now >= b.s && now < b.e && b.observedTo) ?? null;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { buildVolumeCurve, classifyBucket, historicalWeights } from "./curves";
+
+const LONG = `date,time,volume
+2026-10-12,09:30,100
+2026-10-12,10:00,300
+2026-10-12,13:00,500
+2026-10-13,09:30,200
+2026-10-13,10:00,200
+2026-10-13,13:00,700
+2026-10-13,13:10,50`;
+
+describe("buildVolumeCurve", () => {
+  it("averages daily bucket shares in long format", () => {
+    const { curve, errors } = buildVolumeCurve(LONG, " qnbk ", "Qatar");
+    expect(errors).toEqual([]);
+    expect(curve).toMatchObject({ symbol: "QNBK", days: 2, bucketMins: 30, avgContVol: 400, avgAuctionVol: 600, avgTalVol: 25 });
+    expect(curve!.buckets.map((b) => b.weight)).toEqual([0.375, 0.625]);
+  });
+
+  it("reads wide format and reports bad rows", () => {
+    const { curve, errors } = buildVolumeCurve("time;d1;d2\n09:30;100;300\n10:00;100;100\nlunch;1;1", "QNBK", "Qatar");
+    expect(errors).toEqual(['Row 4: invalid time "lunch".']);
+    expect(curve!.days).toBe(2);
+    expect(curve!.buckets[0].weight).toBeCloseTo(0.625);
+  });
+
+  it("buckets Ramadan days by Ramadan hours", () => {
+    const { curve } = buildVolumeCurve("date,time,volume\n2026-03-01,10:00,100\n2026-03-01,12:00,100\n2026-03-01,12:30,400\n2026-03-01,12:40,20", "QNBK", "Qatar");
+    expect(curve).toMatchObject({ avgContVol: 200, avgAuctionVol: 400, avgTalVol: 20 });
+    expect(classifyBucket("Qatar", "12:30", "2026-03-01")).toBe("AUCTION");
+    expect(classifyBucket("Qatar", "12:30", "2026-10-12")).toBe("CONT");
+  });
+
+  it("rejects input without continuous volume", () => {
+    expect(buildVolumeCurve("date,time,volume\n2026-10-12,13:00,500", "QNBK", "Qatar").curve).toBeNull();
+  });
+});
+
+describe("historicalWeights", () => {
+  it("weights slices by bucket overlap", () => {
+    const { curve } = buildVolumeCurve(LONG, "QNBK", "Qatar");
+    const w = historicalWeights(curve!, [
+      { s: "09:30", e: "09:45" },
+      { s: "09:45", e: "10:30" },
+    ]);
+    expect(w[0]).toBeCloseTo(0.1875);
+    expect(w[1]).toBeCloseTo(0.8125);
+  });
+});
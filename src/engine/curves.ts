@@ -0,0 +1,185 @@
+import type { MarketKey, Order } from "./types";
+import { MARKET_PRESET, scheduleFor, type CalendarEntry } from "./markets";
+import { addMinutes, minutesBetween, normalizeHHMM, type Slice } from "./time";
+import { parseCsv } from "./csv";
+
+/* -------------------- Slice weights -------------------- */
+export function uCurveWeights(n: number) {
+  if (n <= 0) return [] as number[];
+  const w: number[] = [];
+  const mid = (n - 1) / 2;
+  for (let i = 0; i < n; i++) {
+    const x = Math.abs(i - mid) / (mid || 1);
+    w.push(0.6 + 0.8 * (1 - x));
+  }
+  const sum = w.reduce((a, b) => a + b, 0) || 1;
+  return w.map((x) => x / sum);
+}
+export function equalWeights(n: number) {
+  if (n <= 0) return [] as number[];
+  return Array(n).fill(1 / n);
+}
+
+/* -------------------- Historical volume curves -------------------- */
+export type VolumeCurve = {
+  symbol: string;
+  market: MarketKey;
+  days: number;
+  bucketMins: number;
+  // continuous-session buckets, weights sum to 1
+  buckets: { t: string; weight: number }[];
+  avgContVol: number;
+  avgAuctionVol: number;
+  avgTalVol: number;
+  importedAt: string;
+};
+export type CurveLibrary = Record<string, VolumeCurve>;
+
+export function curveKey(market: MarketKey | undefined, symbol: string) {
+  return `${market || ""}:${symbol.trim().toUpperCase()}`;
+}
+export function curveFor(lib: CurveLibrary, order: Pick<Order, "market" | "symbol">): VolumeCurve | undefined {
+  return order.market ? lib[curveKey(order.market, order.symbol)] : undefined;
+}
+
+export type CurvePhase = "CONT" | "AUCTION" | "TAL" | "OTHER";
+// Against that date's timetable (Ramadan hours, early closes) when `dateISO` is a date, else the regular one
+export function classifyBucket(market: MarketKey, t: string, dateISO?: string, calendar: CalendarEntry[] = []): CurvePhase {
+  const day = dateISO && /^\d{4}-\d{2}-\d{2}$/.test(dateISO) ? scheduleFor(market, dateISO, calendar) : null;
+  const p = day?.open ? day.schedule : MARKET_PRESET[market];
+  if (t >= p.start && t < p.auction) return "CONT";
+  if (t >= p.auction && t < p.auctionMatch) return "AUCTION";
+  if (t >= p.talStart && t < p.talEnd) return "TAL";
+  return "OTHER";
+}
+
+/**
+ * Build a normalized intraday curve from historical bucket volumes.
+ * Accepts long format (`date,time,volume[,phase]`) or wide format
+ * (`time,<day1>,<day2>,…`). Phase defaults to the windows of each day's
+ * timetable (`scheduleFor`, so Ramadan days use Ramadan hours), or the market
+ * preset when the day is not a YYYY-MM-DD date.
+ * Every day is weighted equally when averaging bucket shares.
+ */
+export function buildVolumeCurve(
+  text: string,
+  symbol: string,
+  market: MarketKey,
+  calendar: CalendarEntry[] = []
+): { curve: VolumeCurve | null; errors: string[] } {
+  const rows = parseCsv(text);
+  const errors: string[] = [];
+  if (rows.length < 2) return { curve: null, errors: ["Need a header row and at least one data row."] };
+  const header = rows[0].map((h) => h.toLowerCase());
+  const iDate = header.indexOf("date");
+  const iTime = header.findIndex((h) => h === "time" || h === "bucket");
+  const iVol = header.findIndex((h) => h === "volume" || h === "vol");
+  const iPhase = header.indexOf("phase");
+
+  // day → time → { vol, phase }
+  const byDay = new Map<string, Map<string, { vol: number; phase: CurvePhase }>>();
+  const put = (day: string, t: string, vol: number, phase: CurvePhase) => {
+    if (!byDay.has(day)) byDay.set(day, new Map());
+    const m = byDay.get(day)!;
+    const prev = m.get(t);
+    m.set(t, { vol: (prev?.vol || 0) + vol, phase });
+  };
+  const phaseOf = (day: string, t: string, raw?: string): CurvePhase => {
+    const p = (raw || "").toUpperCase();
+    if (p.startsWith("CONT")) return "CONT";
+    if (p.startsWith("AUC")) return "AUCTION";
+    if (p === "TAL") return "TAL";
+    return classifyBucket(market, t, day, calendar);
+  };
+
+  if (iDate >= 0) {
+    if (iTime < 0 || iVol < 0) return { curve: null, errors: ["Long format needs date, time and volume columns."] };
+    rows.slice(1).forEach((r, idx) => {
+      const t = normalizeHHMM(r[iTime] || "");
+      const vol = parseFloat((r[iVol] || "").replace(/,/g, ""));
+      if (!r[iDate] || !t || !Number.isFinite(vol) || vol < 0) {
+        errors.push(`Row ${idx + 2}: invalid date/time/volume.`);
+        return;
+      }
+      put(r[iDate], t, vol, phaseOf(r[iDate], t, iPhase >= 0 ? r[iPhase] : undefined));
+    });
+  } else {
+    const timeCol = iTime >= 0 ? iTime : 0;
+    const dayCols = header.map((_, i) => i).filter((i) => i !== timeCol && i !== iPhase);
+    if (dayCols.length === 0) return { curve: null, errors: ["Wide format needs a time column and one column per day."] };
+    rows.slice(1).forEach((r, idx) => {
+      const t = normalizeHHMM(r[timeCol] || "");
+      if (!t) {
+        errors.push(`Row ${idx + 2}: invalid time "${r[timeCol] || ""}".`);
+        return;
+      }
+      for (const c of dayCols) {
+        const vol = parseFloat((r[c] || "").replace(/,/g, ""));
+        if (!Number.isFinite(vol) || vol < 0) continue;
+        put(rows[0][c], t, vol, phaseOf(rows[0][c], t, iPhase >= 0 ? r[iPhase] : undefined));
+      }
+    });
+  }
+
+  const times = new Set<string>();
+  let contSum = 0, auctionSum = 0, talSum = 0, days = 0;
+  const shareSum = new Map<string, number>();
+  for (const buckets of byDay.values()) {
+    const cont = [...buckets.entries()].filter(([, b]) => b.phase === "CONT");
+    const contTotal = cont.reduce((a, [, b]) => a + b.vol, 0);
+    if (contTotal <= 0) continue;
+    days++;
+    contSum += contTotal;
+    for (const b of buckets.values()) {
+      if (b.phase === "AUCTION") auctionSum += b.vol;
+      if (b.phase === "TAL") talSum += b.vol;
+    }
+    for (const [t, b] of cont) {
+      times.add(t);
+      shareSum.set(t, (shareSum.get(t) || 0) + b.vol / contTotal);
+    }
+  }
+  if (days === 0) return { curve: null, errors: [...errors, "No continuous-session volume found."] };
+
+  const sortedTimes = [...times].sort();
+  const raw = sortedTimes.map((t) => (shareSum.get(t) || 0) / days);
+  const total = raw.reduce((a, b) => a + b, 0) || 1;
+  const gaps = sortedTimes.slice(1).map((t, i) => minutesBetween(sortedTimes[i], t)).filter((g) => g > 0);
+  const bucketMins = gaps.length ? Math.min(...gaps) : 1;
+
+  return {
+    curve: {
+      symbol: symbol.trim().toUpperCase(),
+      market,
+      days,
+      bucketMins,
+      buckets: sortedTimes.map((t, i) => ({ t, weight: raw[i] / total })),
+      avgContVol: Math.round(contSum / days),
+      avgAuctionVol: Math.round(auctionSum / days),
+      avgTalVol: Math.round(talSum / days),
+      importedAt: new Date().toISOString(),
+    },
+    errors,
+  };
+}
+
+/**
+ * Slice weights from a historical curve: each bucket contributes by its minute
+ * overlap with the slice. Renormalized over the slices, so a session that
+ * starts mid-day spreads the expected volume over what is left.
+ */
+export function historicalWeights(curve: VolumeCurve, slices: { s: string; e: string }[]) {
+  const w = slices.map((sl) => {
+    let acc = 0;
+    for (const b of curve.buckets) {
+      const bEnd = addMinutes(b.t, curve.bucketMins);
+      const lo = b.t > sl.s ? b.t : sl.s;
+      const hi = bEnd < sl.e ? bEnd : sl.e;
+      const overlap = minutesBetween(lo, hi);
+      if (overlap > 0) acc += (b.weight * overlap) / curve.bucketMins;
+    }
+    return acc;
+  });
+  const sum = w.reduce((a, b) => a + b, 0);
+  return sum > 0 ? w.map((x) => x / sum) : equalWeights(slices.length);
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import type { Snapshot } from "./types";
+import { defaultOrder } from "./order";
+import { buildPlan } from "./plan";
+import { planTable, snapshotTable, toCsv } from "./export";
+
+describe("planTable", () => {
+  it("lists slices, auction, TAL and a total row", () => {
+    const o = defaultOrder("BUY");
+    const p = buildPlan(o);
+    const t = planTable(o, p);
+    expect(t.rows.map((r) => r[0]).slice(-3)).toEqual(["AUCTION", "TAL", "TOTAL"]);
+    expect(t.rows[t.rows.length - 1]).toEqual(["TOTAL", "09:30", "13:15", "", "", p.contPlanned + p.auctionPlanned + p.talPlanned]);
+  });
+});
+
+describe("snapshotTable", () => {
+  it("derives order and market VWAP per snapshot", () => {
+    const o = {
+      ...defaultOrder("SELL"),
+      startVol: 1_000,
+      snapshots: [
+        { at: "10:00:00", currentVol: 3_000, orderExecQty: 100, orderExecNotional: 1_050, marketTurnover: 20_000, marketVWAPInput: 0, note: "open, quiet" },
+      ] as Snapshot[],
+    };
+    const t = snapshotTable(o);
+    expect(t.rows[0].slice(0, 7)).toEqual(["10:00:00", 3_000, 100, 1_050, 10.5, 20_000, 10]);
+    expect(toCsv(t).split("\n")[1]).toMatch(/,"open, quiet"$/);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes separators, quotes and line breaks", () => {
+    expect(toCsv({ header: ["a", "b"], rows: [['say "hi"', "x\ny"]] })).toBe('a,b\n"say ""hi""","x\ny"\n');
+  });
+
+  it("defuses text that would open as a formula but keeps negative numbers", () => {
+    const row = ["=HYPERLINK(\"x\")", "+1", "-cmd", "@SUM(A1)", -250, "ok"];
+    expect(toCsv({ header: ["a", "b", "c", "d", "e", "f"], rows: [row] }).split("\n")[1]).toBe(
+      `"'=HYPERLINK(""x"")","'+1","'-cmd","'@SUM(A1)",-250,ok`
+    );
+  });
+});
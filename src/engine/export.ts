@@ -0,0 +1,92 @@
+import type { Order } from "./types";
+import { finalEnd, hasTalWindow, type BuiltPlan } from "./plan";
+import { impliedMarketVWAP } from "./analytics";
+import { fillNotional } from "./fills";
+import { AUDITED_FIELDS, formatAuditValue } from "./audit";
+import type { ComplianceReport } from "./compliance";
+
+/* -------------------- Tabular export -------------------- */
+export type Table = { header: string[]; rows: (string | number)[][] };
+
+// Plan rows + auction/TAL buckets + totals, in the same order as the on-screen plan
+export function planTable(order: Order, plan: BuiltPlan): Table {
+  const rows: (string | number)[][] = plan.rows.map((r) => [
+    "CONTINUOUS", r.s, r.e, r.expMktVol, r.maxAllowed === "∞" ? "" : r.maxAllowed, r.suggestedQty,
+  ]);
+  rows.push(["AUCTION", order.auctionStart, order.auctionEnd, order.expectedAuctionVol, plan.auctionAllowed, plan.auctionPlanned]);
+  if (hasTalWindow(order)) {
+    rows.push(["TAL", order.talStart, order.talEnd, order.expectedTalVol, plan.talAllowed, plan.talPlanned]);
+  }
+  const total = plan.contPlanned + plan.auctionPlanned + plan.talPlanned;
+  rows.push(["TOTAL", order.sessionStart, finalEnd(order), "", "", total]);
+  return { header: ["phase", "start", "end", "expected_vol", "max_allowed", "suggested_qty"], rows };
+}
+
+// Snapshot journal in time order, with the VWAPs each snapshot implied
+export function snapshotTable(order: Order): Table {
+  const rows = order.snapshots.map((s) => {
+    const orderVWAP = s.orderExecQty > 0 ? s.orderExecNotional / s.orderExecQty : 0;
+    const marketVWAP = impliedMarketVWAP(s.marketTurnover, s.currentVol - order.startVol, s.marketVWAPInput);
+    return [
+      s.at, s.currentVol, s.orderExecQty, s.orderExecNotional, orderVWAP || "", s.marketTurnover, marketVWAP || "",
+      s.lastPrice || "", s.outOfLimit ? "OUT" : "", s.note || "",
+    ];
+  });
+  return {
+    header: [
+      "time", "current_vol", "exec_qty", "exec_notional", "order_vwap", "market_turnover", "market_vwap",
+      "last_price", "limit", "note",
+    ],
+    rows,
+  };
+}
+
+export function fillsTable(order: Order): Table {
+  return {
+    header: ["time", "kind", "qty", "price", "notional", "venue", "broker_ref"],
+    rows: order.fills.map((f) => [f.at, f.kind, f.qty, f.price, fillNotional(f), f.venue || "", f.brokerRef || ""]),
+  };
+}
+
+// Parameter change log, oldest first
+export function changeLogTable(order: Order): Table {
+  return {
+    header: ["time", "field", "from", "to", "reason"],
+    rows: (order.changeLog || []).map((c) => [
+      c.at, AUDITED_FIELDS[c.field] || c.field, formatAuditValue(c.from), formatAuditValue(c.to), c.reason || "",
+    ]),
+  };
+}
+
+// Realized participation per slice / auction / TAL against the cap, then the session
+export function complianceTable(report: ComplianceReport): Table {
+  const pct = (p: number | null) => (p === null ? "" : Math.round(p * 10000) / 100);
+  const rows: (string | number)[][] = report.buckets
+    .filter((b) => b.observedTo)
+    .map((b) => [
+      b.label, b.s, b.observedTo!.slice(0, 5) < b.e ? b.observedTo! : b.e, b.marketVol, b.executed, pct(b.participation),
+      b.allowed ?? "", b.breach?.severity || "", b.breach?.excessQty || "",
+    ]);
+  const s = report.session;
+  if (s.observedTo) {
+    rows.push(["SESSION", "", s.observedTo, s.marketVol, s.executed, pct(s.participation), "", s.breach?.severity || "", s.breach?.excessQty || ""]);
+  }
+  return {
+    header: ["interval", "start", "end", "market_vol", "executed", "participation_pct", "allowed", "breach", "excess_qty"],
+    rows,
+  };
+}
+
+// RFC 4180: quote fields containing the separator, quotes or line breaks.
+// Text a spreadsheet would run as a formula (=, +, -, @, tab, CR first) is
+// quoted behind a leading ' so notes and names open as plain text; numbers
+// are left as they are.
+function csvField(v: string | number) {
+  const s = String(v);
+  if (typeof v === "string" && /^[=+\-@\t\r]/.test(s)) return `"'${s.replace(/"/g, '""')}"`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(table: Table) {
+  return [table.header, ...table.rows].map((r) => r.map(csvField).join(",")).join("\n") + "\n";
+}
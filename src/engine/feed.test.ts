@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Order } from "./types";
+import { defaultOrder } from "./order";
+import { applyTick, createFeedClient, feedAgeMs, parseFeedMessage, type FeedStatus } from "./feed";
+
+const order = (o: Partial<Order> = {}): Order => ({ ...defaultOrder("BUY"), symbol: "QNBK", ...o });
+
+describe("parseFeedMessage", () => {
+  it("reads one tick or a batch and reports malformed entries", () => {
+    expect(parseFeedMessage('{"symbol":"qnbk","vol":"1000","turnover":15000,"price":15.1}').ticks).toEqual([
+      { symbol: "QNBK", volume: 1000, turnover: 15000, last: 15.1 },
+    ]);
+    const { ticks, errors } = parseFeedMessage('[{"symbol":"A","volume":1,"turnover":1},{"volume":2}]');
+    expect(ticks).toHaveLength(1);
+    expect(errors).toEqual(["Entry 2: needs symbol, volume and turnover."]);
+    expect(parseFeedMessage("nope").errors).toEqual(["Message is not JSON."]);
+  });
+});
+
+describe("applyTick", () => {
+  const tick = { symbol: "QNBK", volume: 200_000, turnover: 3_000_000, vwap: 15, last: 15.2 };
+
+  it("maps day-cumulative figures onto an order from the open", () => {
+    const o = applyTick(order(), tick, "bridge", 1_000);
+    expect([o.currentVol, o.marketTurnover, o.marketVWAPInput, o.lastPrice]).toEqual([200_000, 3_000_000, 15, 15.2]);
+    expect(o.feed).toEqual({ source: "bridge", at: 1_000, baseTurnover: 0 });
+    expect(feedAgeMs(o, 4_000)).toBe(3_000);
+  });
+
+  it("takes pre-start turnover off for an order started mid-session", () => {
+    let o = applyTick(order({ startVol: 100_000 }), tick, "bridge", 1_000);
+    expect(o.marketTurnover).toBe(1_500_000);
+    o = applyTick(o, { ...tick, volume: 300_000, turnover: 4_600_000 }, "bridge", 2_000);
+    expect(o.marketTurnover).toBe(3_100_000); // 200k since start at 15.5
+  });
+
+  it("ignores other symbols and markets", () => {
+    const o = order({ market: "Qatar" });
+    expect(applyTick(o, { ...tick, symbol: "IQCD" }, "bridge", 1)).toBe(o);
+    expect(applyTick(o, { ...tick, market: "Kuwait" }, "bridge", 1)).toBe(o);
+  });
+});
+
+describe("createFeedClient", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  class FakeSocket {
+    static all: FakeSocket[] = [];
+    onopen: ((ev: any) => void) | null = null;
+    onmessage: ((ev: { data: any }) => void) | null = null;
+    onerror: ((ev: any) => void) | null = null;
+    onclose: ((ev: any) => void) | null = null;
+    closed = false;
+    constructor(public url: string) {
+      FakeSocket.all.push(this);
+    }
+    close() {
+      this.closed = true;
+    }
+  }
+
+  it("delivers ticks, backs off on errors and reconnects a silent connection", () => {
+    vi.useFakeTimers();
+    FakeSocket.all = [];
+    const ticks: string[] = [];
+    const states: FeedStatus["state"][] = [];
+    const client = createFeedClient({
+      url: "ws://bridge", kind: "ws", staleMs: 10_000, now: () => Date.now(), WebSocket: FakeSocket,
+      onTicks: (t) => ticks.push(...t.map((x) => x.symbol)),
+      onStatus: (s) => states.push(s.state),
+    });
+    const first = FakeSocket.all[0];
+    first.onopen!({});
+    first.onmessage!({ data: '{"symbol":"QNBK","volume":1,"turnover":15}' });
+    expect(ticks).toEqual(["QNBK"]);
+
+    first.onerror!({});
+    expect(first.closed).toBe(true);
+    expect(client.status()).toMatchObject({ state: "RETRYING", retries: 1 });
+    vi.advanceTimersByTime(1_000);
+    expect(FakeSocket.all).toHaveLength(2);
+
+    FakeSocket.all[1].onopen!({});
+    vi.advanceTimersByTime(15_000);
+    expect(client.status().state).toBe("STALE");
+    vi.advanceTimersByTime(20_000);
+    expect(FakeSocket.all[1].closed).toBe(true);
+    expect(states).toContain("RETRYING");
+
+    client.close();
+    expect(client.status().state).toBe("CLOSED");
+  });
+});
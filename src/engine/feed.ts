@@ -0,0 +1,201 @@
+import type { Order } from "./types";
+
+/* -------------------- Market-data feed -------------------- */
+// Day-cumulative figures for one symbol, as sent by the local bridge
+export type FeedTick = {
+  symbol: string;
+  market?: string;
+  volume: number; // cumulative day volume
+  turnover: number; // cumulative day turnover
+  vwap?: number;
+  last?: number;
+};
+
+const num = (v: unknown) => (typeof v === "number" ? v : typeof v === "string" ? parseFloat(v) : NaN);
+
+/**
+ * Ticks from one feed message: a JSON object or an array of them with
+ * `symbol`, `volume` (or `vol`), `turnover` and optional `vwap`, `last`
+ * (or `price`) and `market`. Malformed entries are reported, not thrown.
+ */
+export function parseFeedMessage(text: string): { ticks: FeedTick[]; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ticks: [], errors: ["Message is not JSON."] };
+  }
+  const list = Array.isArray(raw) ? raw : [raw];
+  const ticks: FeedTick[] = [];
+  const errors: string[] = [];
+  list.forEach((m: any, i) => {
+    const symbol = typeof m?.symbol === "string" ? m.symbol.trim().toUpperCase() : "";
+    const volume = num(m?.volume ?? m?.vol);
+    const turnover = num(m?.turnover ?? 0);
+    const vwap = num(m?.vwap);
+    const last = num(m?.last ?? m?.price);
+    if (!symbol || !(volume >= 0) || !(turnover >= 0)) {
+      errors.push(`Entry ${i + 1}: needs symbol, volume and turnover.`);
+      return;
+    }
+    ticks.push({
+      symbol,
+      volume,
+      turnover,
+      ...(typeof m.market === "string" ? { market: m.market } : {}),
+      ...(vwap > 0 ? { vwap } : {}),
+      ...(last > 0 ? { last } : {}),
+    });
+  });
+  return { ticks, errors };
+}
+
+export function tickMatches(order: Order, tick: FeedTick) {
+  return order.symbol.toUpperCase() === tick.symbol && (!tick.market || !order.market || tick.market === order.market);
+}
+
+/**
+ * Market fields from a tick. Volume maps straight onto currentVol; turnover
+ * is day-cumulative, so for an order that started mid-session (startVol > 0)
+ * the turnover before the start is estimated once, on the first tick, as
+ * startVol × the day's average price so far, and taken off from then on.
+ */
+export function applyTick(order: Order, tick: FeedTick, source: string, receivedAt: number): Order {
+  if (!tickMatches(order, tick)) return order;
+  const baseTurnover =
+    order.feed && order.feed.source === source
+      ? order.feed.baseTurnover
+      : order.startVol > 0 && tick.volume > 0
+      ? (tick.turnover / tick.volume) * Math.min(order.startVol, tick.volume)
+      : 0;
+  return {
+    ...order,
+    currentVol: tick.volume,
+    marketTurnover: Math.max(0, tick.turnover - baseTurnover),
+    marketVWAPInput: tick.vwap ?? order.marketVWAPInput,
+    lastPrice: tick.last ?? order.lastPrice,
+    feed: { source, at: receivedAt, baseTurnover },
+  };
+}
+
+// No tick for this long = stale
+export const FEED_STALE_MS = 30_000;
+
+export function feedAgeMs(order: Order, now: number) {
+  return order.feed ? Math.max(0, now - order.feed.at) : null;
+}
+
+/* -------------------- Feed client -------------------- */
+export type FeedKind = "ws" | "sse";
+export type FeedState = "CONNECTING" | "OPEN" | "STALE" | "RETRYING" | "CLOSED";
+export type FeedStatus = { state: FeedState; url: string; lastMessageAt: number | null; retries: number; error?: string };
+
+// The subset of WebSocket / EventSource the client needs; injectable for tests
+type Socket = {
+  onopen: ((ev: any) => void) | null;
+  onmessage: ((ev: { data: any }) => void) | null;
+  onerror: ((ev: any) => void) | null;
+  close: () => void;
+};
+type SocketCtor = new (url: string) => Socket & { onclose?: ((ev: any) => void) | null };
+
+export type FeedClientOptions = {
+  url: string;
+  kind: FeedKind;
+  onTicks: (ticks: FeedTick[], receivedAt: number) => void;
+  onStatus?: (status: FeedStatus) => void;
+  staleMs?: number;
+  maxBackoffMs?: number;
+  now?: () => number;
+  WebSocket?: SocketCtor;
+  EventSource?: SocketCtor;
+};
+
+export type FeedClient = { status: () => FeedStatus; close: () => void };
+
+/**
+ * Connects to the bridge and keeps connecting: on error or close it retries
+ * with exponential backoff (1 s doubling up to `maxBackoffMs`). A connection
+ * that goes `staleMs` without a message is marked STALE, and after three
+ * times that it is dropped and re-established.
+ */
+export function createFeedClient(opts: FeedClientOptions): FeedClient {
+  const now = opts.now ?? Date.now;
+  const staleMs = opts.staleMs ?? FEED_STALE_MS;
+  const maxBackoff = opts.maxBackoffMs ?? 30_000;
+  const Ctor: SocketCtor | undefined =
+    opts.kind === "ws" ? opts.WebSocket ?? (globalThis as any).WebSocket : opts.EventSource ?? (globalThis as any).EventSource;
+
+  let status: FeedStatus = { state: "CONNECTING", url: opts.url, lastMessageAt: null, retries: 0 };
+  let socket: (Socket & { onclose?: ((ev: any) => void) | null }) | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let openedAt = 0;
+  let closed = false;
+
+  const set = (patch: Partial<FeedStatus>) => {
+    status = { ...status, ...patch };
+    opts.onStatus?.(status);
+  };
+
+  function drop() {
+    if (!socket) return;
+    socket.onopen = socket.onmessage = socket.onerror = null;
+    if ("onclose" in socket) socket.onclose = null;
+    try {
+      socket.close();
+    } catch {}
+    socket = null;
+  }
+
+  function retry(error?: string) {
+    drop();
+    if (closed) return;
+    const delay = Math.min(maxBackoff, 1000 * 2 ** status.retries);
+    set({ state: "RETRYING", retries: status.retries + 1, error });
+    retryTimer = setTimeout(connect, delay);
+  }
+
+  function connect() {
+    if (closed) return;
+    if (!Ctor) {
+      set({ state: "CLOSED", error: `${opts.kind === "ws" ? "WebSocket" : "EventSource"} is not available here.` });
+      return;
+    }
+    set({ state: "CONNECTING" });
+    try {
+      socket = new Ctor(opts.url);
+    } catch (e) {
+      retry(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    openedAt = now();
+    socket.onopen = () => set({ state: "OPEN", retries: 0, error: undefined });
+    socket.onmessage = (ev) => {
+      const at = now();
+      const { ticks } = parseFeedMessage(String(ev.data));
+      set({ state: "OPEN", lastMessageAt: at, error: undefined });
+      if (ticks.length) opts.onTicks(ticks, at);
+    };
+    socket.onerror = () => retry("Connection error.");
+    if (opts.kind === "ws") socket.onclose = () => retry("Connection closed.");
+  }
+
+  const watchdog = setInterval(() => {
+    if (closed || !socket) return;
+    const quiet = now() - (status.lastMessageAt ?? openedAt);
+    if (quiet > 3 * staleMs) retry("No data — reconnecting.");
+    else if (quiet > staleMs && status.state === "OPEN") set({ state: "STALE" });
+  }, Math.min(5_000, staleMs));
+
+  connect();
+  return {
+    status: () => status,
+    close: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      clearInterval(watchdog);
+      drop();
+      set({ state: "CLOSED" });
+    },
+  };
+}
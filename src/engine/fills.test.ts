@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import type { Fill } from "./types";
+import { defaultOrder } from "./order";
+import { executedByRow, reconcileTotals, withFills } from "./fills";
+
+const fill = (at: string, qty: number, price: number): Fill => ({ id: at, at, qty, price, kind: "FILL" });
+
+describe("fills ledger", () => {
+  it("keeps cumulative totals in sync and sorted by time", () => {
+    const o = withFills(defaultOrder("BUY"), [fill("10:05:00", 100, 10), fill("09:45:00", 200, 11)]);
+    expect(o.fills.map((f) => f.at)).toEqual(["09:45:00", "10:05:00"]);
+    expect(o.orderExecQty).toBe(300);
+    expect(o.orderExecNotional).toBe(3200);
+  });
+
+  it("turns hand-typed totals into a single RECON entry", () => {
+    const base = withFills(defaultOrder("BUY"), [fill("09:45:00", 200, 11)]);
+    const once = reconcileTotals(base, 250, 2700);
+    const twice = reconcileTotals(once, 300, 3250);
+    expect(twice.fills).toHaveLength(2);
+    expect(twice.fills[1]).toMatchObject({ kind: "RECON", qty: 100, notional: 1050 });
+    expect(twice.orderExecQty).toBe(300);
+    expect(reconcileTotals(twice, 200, 2200).fills).toHaveLength(1);
+  });
+
+  it("buckets executions by plan row", () => {
+    const rows = [{ s: "09:30", e: "10:00" }, { s: "10:00", e: "10:30" }];
+    expect(executedByRow(rows, [fill("09:59:59", 5, 1), fill("10:00:00", 7, 1), fill("11:00:00", 9, 1)])).toEqual([5, 7]);
+  });
+});
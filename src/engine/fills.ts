@@ -0,0 +1,59 @@
+import type { Fill, Order } from "./types";
+import { marketTz } from "./markets";
+import { nowHHMMSS } from "./time";
+
+/* -------------------- Fills ledger -------------------- */
+export function fillNotional(f: Fill) {
+  return f.kind === "RECON" ? f.notional || 0 : f.qty * f.price;
+}
+export function fillTotals(fills: Fill[]) {
+  return fills.reduce(
+    (t, f) => ({ qty: t.qty + f.qty, notional: t.notional + fillNotional(f) }),
+    { qty: 0, notional: 0 }
+  );
+}
+export function sortFills(fills: Fill[]) {
+  return [...fills].sort((a, b) => (a.at < b.at ? -1 : a.at > b.at ? 1 : 0));
+}
+
+// Single entry point for fill changes: keeps the cumulative fields in sync
+export function withFills(order: Order, fills: Fill[]): Order {
+  const sorted = sortFills(fills);
+  const t = fillTotals(sorted);
+  return { ...order, fills: sorted, orderExecQty: t.qty, orderExecNotional: t.notional };
+}
+
+/**
+ * Hand-typed cumulative totals become a RECON entry holding the difference to
+ * the ledger. Consecutive edits (e.g. each keystroke) update the same entry.
+ */
+export function reconcileTotals(order: Order, qty: number, notional: number): Order {
+  const last = order.fills[order.fills.length - 1];
+  const base = last && last.kind === "RECON" ? order.fills.slice(0, -1) : order.fills;
+  const t = fillTotals(base);
+  const dQty = qty - t.qty;
+  const dNotional = notional - t.notional;
+  if (dQty === 0 && Math.abs(dNotional) < 1e-9) return withFills(order, base);
+  const recon: Fill = {
+    id: last && last.kind === "RECON" ? last.id : newFillId(),
+    at: nowHHMMSS(marketTz(order.market)),
+    qty: dQty,
+    price: dQty !== 0 ? dNotional / dQty : 0,
+    kind: "RECON",
+    notional: dNotional,
+  };
+  const next = withFills(order, [...base, recon]);
+  // keep the edited RECON entry last so the next keystroke finds it
+  return { ...next, fills: [...next.fills.filter((f) => f.id !== recon.id), recon] };
+}
+
+export function newFillId() {
+  return "f" + Math.random().toString(36).slice(2, 9);
+}
+
+// Executed qty per plan row, by fill time (fills outside the rows are ignored)
+export function executedByRow(rows: { s: string; e: string }[], fills: Fill[]) {
+  return rows.map((r) =>
+    fills.filter((f) => f.at.slice(0, 5) >= r.s && f.at.slice(0, 5) < r.e).reduce((a, f) => a + f.qty, 0)
+  );
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import type { Order } from "./types";
+import { defaultOrder } from "./order";
+import { applyExecReports, parseFixLog } from "./fix";
+
+const order = (o: Partial<Order> = {}): Order => ({ ...defaultOrder("BUY"), symbol: "QNBK", market: "Qatar", ...o });
+
+// One ExecutionReport, "|"-delimited as most drop-copy logs are shown
+const er = (tags: Record<number, string | number>) =>
+  "8=FIX.4.4|9=200|35=8|" + Object.entries({ 55: "QNBK", 54: 1, ...tags }).map(([k, v]) => `${k}=${v}`).join("|") + "|10=000|";
+const trade = (execId: string, qty: number, px: number, cum: number, avg: number, extra: Record<number, string | number> = {}) =>
+  er({ 17: execId, 150: "F", 11: "C1", 32: qty, 31: px, 14: cum, 6: avg, 60: "20261019-07:15:00.250", 30: "XDSM", ...extra });
+
+describe("parseFixLog", () => {
+  it("reads execution reports in any delimiter and skips other messages", () => {
+    const log = [
+      "2026-10-19 10:15:00 IN " + trade("E1", 1000, 15, 1000, 15),
+      "8=FIX.4.4\x019=50\x0135=0\x0110=000\x01", // heartbeat
+      trade("E2", 500, 15.3, 1500, 15.1).replace(/\|/g, "^A"),
+    ].join("\n");
+    const { reports, errors } = parseFixLog(log);
+    expect(errors).toEqual([]);
+    expect(reports).toHaveLength(2);
+    expect(reports[0]).toMatchObject({ execId: "E1", clOrdId: "C1", symbol: "QNBK", side: "BUY", lastQty: 1000, lastPx: 15, lastMkt: "XDSM" });
+    expect(reports[0].transactTime).toBe(Date.UTC(2026, 9, 19, 7, 15, 0, 250));
+    expect(reports[1]).toMatchObject({ execId: "E2", cumQty: 1500, avgPx: 15.1 });
+  });
+
+  it("lists reports missing what their ExecType needs", () => {
+    const { reports, errors } = parseFixLog(er({ 17: "E1", 150: "F", 11: "C1", 32: 0, 31: 15 }) + er({ 17: "E2", 150: "H" }));
+    expect(reports).toEqual([]);
+    expect(errors).toEqual(["Message 1: LastQty (32) / LastPx (31) must be positive.", "Message 2: ExecRefID (19) missing."]);
+  });
+});
+
+describe("applyExecReports", () => {
+  const apply = (orders: Order[], log: string, mapping = {}) => applyExecReports(orders, parseFixLog(log).reports, mapping);
+
+  it("adds fills to the order matching symbol and side, in exchange time", () => {
+    const orders = [order({ id: "a" }), order({ id: "b", side: "SELL" })];
+    const res = apply(orders, trade("E1", 1000, 15, 1000, 15) + trade("E2", 500, 15.3, 1500, 15.1));
+    expect(res.added).toBe(2);
+    expect(res.warnings).toEqual([]);
+    const a = res.orders[0];
+    expect([a.orderExecQty, a.orderExecNotional]).toEqual([1500, 22_650]);
+    expect(a.fills[0]).toMatchObject({ at: "10:15:00", execId: "E1", brokerRef: "C1", venue: "XDSM", kind: "FILL" });
+    expect(res.orders[1]).toBe(orders[1]);
+  });
+
+  it("skips duplicates within a log and against fills already booked", () => {
+    const log = trade("E1", 1000, 15, 1000, 15);
+    const once = apply([order()], log + log);
+    expect([once.added, once.duplicates]).toEqual([1, 1]);
+    const again = apply(once.orders, log);
+    expect([again.added, again.duplicates]).toEqual([0, 1]);
+    expect(again.orders[0]).toBe(once.orders[0]);
+  });
+
+  it("applies busts and corrections to the referenced trade", () => {
+    const log =
+      trade("E1", 1000, 15, 1000, 15) +
+      trade("E2", 500, 15.3, 1500, 15.1) +
+      er({ 17: "E3", 150: "H", 19: "E1", 11: "C1", 14: 500, 6: 15.3 }) +
+      er({ 17: "E4", 150: "G", 19: "E2", 11: "C1", 32: 400, 31: 15.2, 14: 400, 6: 15.2 }) +
+      er({ 17: "E5", 150: "H", 19: "NOPE" });
+    const res = apply([order()], log);
+    expect([res.added, res.busted, res.corrected]).toEqual([2, 1, 1]);
+    expect(res.orders[0].fills).toHaveLength(1);
+    expect(res.orders[0].fills[0]).toMatchObject({ execId: "E2", qty: 400, price: 15.2, at: "10:15:00" });
+    expect(res.orders[0].orderExecQty).toBe(400);
+    expect(res.warnings).toEqual(["Message 5: bust of unknown trade NOPE."]);
+  });
+
+  it("asks for a mapping when symbol and side are ambiguous", () => {
+    const orders = [order({ id: "a" }), order({ id: "b" })];
+    const log = trade("E1", 1000, 15, 1000, 15);
+    const res = apply(orders, log);
+    expect(res.added).toBe(0);
+    expect(res.unmatched).toEqual(["C1"]);
+    expect(res.warnings[0]).toMatch(/2 orders are BUY QNBK/);
+    const mapped = apply(orders, log, { C1: "b" });
+    expect(mapped.orders[1].orderExecQty).toBe(1000);
+  });
+
+  it("follows replace chains and warns when CumQty disagrees", () => {
+    const log =
+      trade("E1", 1000, 15, 1000, 15) +
+      trade("E2", 500, 15, 2000, 15, { 11: "C2", 41: "C1" }); // a 500 trade is missing from the log
+    const res = apply([order({ id: "a" }), order({ id: "b" })], log, { C1: "a" });
+    expect(res.orders[0].orderExecQty).toBe(1500);
+    expect(res.warnings).toEqual(["ClOrdID C2: fills total 1,500 but CumQty is 2,000 — reports missing?"]);
+  });
+});
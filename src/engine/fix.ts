@@ -0,0 +1,235 @@
+import type { Fill, Order, Side } from "./types";
+import { marketTz } from "./markets";
+import { clockParts, nowHHMMSS } from "./time";
+import { fillTotals, newFillId, withFills } from "./fills";
+
+/* -------------------- FIX drop copy -------------------- */
+// ExecutionReport (35=8) fields we use
+export type ExecReport = {
+  msgNo: number; // position in the log, for messages
+  execId: string; // 17
+  execRefId?: string; // 19, the trade a bust / correction refers to
+  execType: string; // 150
+  clOrdId: string; // 11
+  origClOrdId?: string; // 41
+  symbol: string; // 55
+  side: Side | null; // 54
+  lastQty: number; // 32
+  lastPx: number; // 31
+  cumQty: number; // 14
+  avgPx: number; // 6
+  transactTime?: number; // 60, epoch ms (FIX times are UTC)
+  lastMkt?: string; // 30
+};
+
+// Trade (4.4 "F"; 4.2 partial / full fill "1" / "2"), bust, correction
+const TRADE = ["F", "1", "2"];
+const BUST = "H";
+const CORRECT = "G";
+
+const SOH = "\x01";
+
+// "20261019-10:15:23.123" (UTC) → epoch ms
+export function parseUtcTimestamp(v: string): number | undefined {
+  const m = /^(\d{4})(\d{2})(\d{2})-(\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,9}))?$/.exec(v.trim());
+  if (!m) return undefined;
+  const ms = m[7] ? Math.round(parseFloat(`0.${m[7]}`) * 1000) : 0;
+  return Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6], ms);
+}
+
+/**
+ * ExecutionReports from a drop-copy log. Fields may be separated by SOH, "|"
+ * or a literal "^A"; messages start at "8=FIX" (anything before, such as a
+ * log timestamp, is skipped). Other message types are ignored; reports that
+ * lack what their ExecType needs are listed as "Message N: …".
+ */
+export function parseFixLog(text: string): { reports: ExecReport[]; errors: string[] } {
+  const normalized = text.replace(/\^A/g, SOH).replace(/\|/g, SOH);
+  const chunks = normalized.split(/(?=8=FIX)/).filter((c) => c.startsWith("8=FIX"));
+  const reports: ExecReport[] = [];
+  const errors: string[] = [];
+
+  chunks.forEach((chunk, i) => {
+    const msgNo = i + 1;
+    const tags = new Map<number, string>();
+    for (const field of chunk.split(/[\x01\r\n]+/)) {
+      const eq = field.indexOf("=");
+      if (eq > 0) tags.set(parseInt(field.slice(0, eq), 10), field.slice(eq + 1).trim());
+    }
+    if (tags.get(35) !== "8") return;
+    const num = (tag: number) => parseFloat(tags.get(tag) || "0") || 0;
+    const side = tags.get(54);
+    const r: ExecReport = {
+      msgNo,
+      execId: tags.get(17) || "",
+      execType: tags.get(150) || "",
+      clOrdId: tags.get(11) || "",
+      symbol: (tags.get(55) || "").toUpperCase(),
+      side: side === "1" ? "BUY" : side === "2" || side === "5" || side === "6" ? "SELL" : null,
+      lastQty: num(32),
+      lastPx: num(31),
+      cumQty: num(14),
+      avgPx: num(6),
+      ...(tags.get(19) ? { execRefId: tags.get(19) } : {}),
+      ...(tags.get(41) ? { origClOrdId: tags.get(41) } : {}),
+      ...(tags.get(30) ? { lastMkt: tags.get(30) } : {}),
+      ...(tags.get(60) ? { transactTime: parseUtcTimestamp(tags.get(60)!) } : {}),
+    };
+    const problems: string[] = [];
+    if (!r.execId) problems.push("ExecID (17) missing");
+    if (!r.execType) problems.push("ExecType (150) missing");
+    const fills = TRADE.includes(r.execType) || r.execType === CORRECT;
+    if (fills) {
+      if (!r.clOrdId) problems.push("ClOrdID (11) missing");
+      if (!r.symbol || !r.side) problems.push("Symbol (55) / Side (54) missing");
+      if (!(r.lastQty > 0) || !(r.lastPx > 0)) problems.push("LastQty (32) / LastPx (31) must be positive");
+    }
+    if ((r.execType === BUST || r.execType === CORRECT) && !r.execRefId) problems.push("ExecRefID (19) missing");
+    if (problems.length) errors.push(`Message ${msgNo}: ${problems.join("; ")}.`);
+    else reports.push(r);
+  });
+  return { reports, errors };
+}
+
+// ClOrdID → order id; unmapped IDs match an open order on symbol + side
+export type FixMapping = Record<string, string>;
+
+export type FixImportResult = {
+  orders: Order[];
+  added: number;
+  duplicates: number;
+  busted: number;
+  corrected: number;
+  unmatched: string[]; // ClOrdIDs no order could be found for
+  warnings: string[];
+};
+
+// Follow OrigClOrdID (cancel / replace chains) back to the first ClOrdID
+function rootOf(reports: ExecReport[]) {
+  const parent = new Map<string, string>();
+  for (const r of reports) if (r.origClOrdId && r.origClOrdId !== r.clOrdId) parent.set(r.clOrdId, r.origClOrdId);
+  return (id: string) => {
+    let cur = id;
+    for (let guard = 0; parent.has(cur) && guard < 100; guard++) cur = parent.get(cur)!;
+    return cur;
+  };
+}
+
+/**
+ * Apply parsed reports, in log order, to the book. New trades become fills
+ * (skipped when the ExecID is already on an order, so re-loading a log is
+ * safe); a bust (ExecType H) removes the trade its ExecRefID points to and a
+ * correction (G) rewrites its qty and price. Afterwards each order chain's
+ * last CumQty / AvgPx is checked against the fills it produced.
+ */
+export function applyExecReports(orders: Order[], reports: ExecReport[], mapping: FixMapping = {}): FixImportResult {
+  const book = new Map(orders.map((o) => [o.id, o.fills] as const));
+  const byId = new Map(orders.map((o) => [o.id, o] as const));
+  const root = rootOf(reports);
+  const resolved = new Map<string, string | null>();
+  const warnings: string[] = [];
+  const unmatched = new Set<string>();
+  const seen = new Set<string>();
+  let added = 0;
+  let duplicates = 0;
+  let busted = 0;
+  let corrected = 0;
+
+  const orderFor = (r: ExecReport) => {
+    const key = root(r.clOrdId);
+    if (resolved.has(key)) return resolved.get(key)!;
+    let id: string | null = null;
+    const mapped = mapping[r.clOrdId] ?? mapping[key];
+    if (mapped) {
+      if (byId.has(mapped)) id = mapped;
+      else warnings.push(`ClOrdID ${r.clOrdId}: mapped order no longer exists.`);
+    } else {
+      const cands = orders.filter((o) => !o.completed && o.symbol.toUpperCase() === r.symbol && o.side === r.side);
+      if (cands.length === 1) id = cands[0].id;
+      else if (cands.length > 1) warnings.push(`ClOrdID ${r.clOrdId}: ${cands.length} orders are ${r.side} ${r.symbol} — map it to one.`);
+    }
+    if (!id) unmatched.add(key);
+    resolved.set(key, id);
+    return id;
+  };
+  const findTrade = (execId: string) => {
+    for (const [orderId, fills] of book) {
+      const f = fills.find((x) => x.execId === execId);
+      if (f) return { orderId, fill: f };
+    }
+    return null;
+  };
+  const fillTime = (r: ExecReport, orderId: string) => {
+    const tz = marketTz(byId.get(orderId)!.market);
+    if (r.transactTime === undefined) return nowHHMMSS(tz);
+    const c = clockParts(tz, r.transactTime);
+    return [c.h, c.m, c.s].map((n) => String(n).padStart(2, "0")).join(":");
+  };
+
+  for (const r of reports) {
+    if (seen.has(r.execId)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(r.execId);
+
+    if (TRADE.includes(r.execType)) {
+      if (findTrade(r.execId)) {
+        duplicates++;
+        continue;
+      }
+      const orderId = orderFor(r);
+      if (!orderId) continue;
+      const fill: Fill = {
+        id: newFillId(),
+        at: fillTime(r, orderId),
+        qty: r.lastQty,
+        price: r.lastPx,
+        kind: "FILL",
+        execId: r.execId,
+        brokerRef: r.clOrdId,
+        ...(r.lastMkt ? { venue: r.lastMkt } : {}),
+      };
+      book.set(orderId, [...book.get(orderId)!, fill]);
+      added++;
+    } else if (r.execType === BUST || r.execType === CORRECT) {
+      const hit = findTrade(r.execRefId!);
+      if (!hit) {
+        warnings.push(`Message ${r.msgNo}: ${r.execType === BUST ? "bust" : "correction"} of unknown trade ${r.execRefId}.`);
+        continue;
+      }
+      const fills = book.get(hit.orderId)!;
+      if (r.execType === BUST) {
+        book.set(hit.orderId, fills.filter((f) => f !== hit.fill));
+        busted++;
+      } else {
+        book.set(hit.orderId, fills.map((f) => (f === hit.fill ? { ...f, qty: r.lastQty, price: r.lastPx } : f)));
+        corrected++;
+      }
+    }
+  }
+
+  // The broker's running totals vs what the ledger now holds, per order chain
+  const last = new Map<string, ExecReport>();
+  for (const r of reports) if (r.cumQty > 0 && (TRADE.includes(r.execType) || r.execType === CORRECT)) last.set(root(r.clOrdId), r);
+  for (const [key, r] of last) {
+    const fills = [...book.values()].flat().filter((f) => f.brokerRef && root(f.brokerRef) === key);
+    if (fills.length === 0) continue;
+    const t = fillTotals(fills);
+    if (Math.abs(t.qty - r.cumQty) > 1e-6) {
+      warnings.push(`ClOrdID ${r.clOrdId}: fills total ${t.qty.toLocaleString("en-US")} but CumQty is ${r.cumQty.toLocaleString("en-US")} — reports missing?`);
+    } else if (r.avgPx > 0 && Math.abs(t.notional / t.qty - r.avgPx) > r.avgPx * 1e-4) {
+      warnings.push(`ClOrdID ${r.clOrdId}: fills average ${(t.notional / t.qty).toFixed(4)} but AvgPx is ${r.avgPx}.`);
+    }
+  }
+
+  return {
+    orders: orders.map((o) => (book.get(o.id) === o.fills ? o : withFills(o, book.get(o.id)!))),
+    added,
+    duplicates,
+    busted,
+    corrected,
+    unmatched: [...unmatched],
+    warnings,
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Headless planning engine — framework-free, shared by the React app and the CLI.
+ */
+export * from "./types";
+export * from "./time";
+export * from "./markets";
+export * from "./csv";
+export * from "./curves";
+export * from "./plan";
+export * from "./analytics";
+export * from "./fills";
+export * from "./order";
+export * from "./export";
+export * from "./report";
+export * from "./blotter";
+export * from "./sim";
+export * from "./compare";
+export * from "./basket";
+export * from "./multiday";
+export * from "./progress";
+export * from "./alerts";
+export * from "./reminders";
+export * from "./feed";
+export * from "./fix";
+export * from "./audit";
+export * from "./compliance";
+export * from "./auction";
+export * from "./sync";
+export * from "./persist";
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { CALENDAR_LAST_YEAR, earlyClose, MARKET_PRESET, scheduleFor } from "./markets";
+
+describe("scheduleFor", () => {
+  it("uses the regular preset on a normal trading day", () => {
+    const d = scheduleFor("Qatar", "2026-10-19");
+    expect(d).toEqual({ open: true, kind: "REGULAR", schedule: MARKET_PRESET.Qatar });
+  });
+
+  it("closes on the market's weekend", () => {
+    expect(scheduleFor("Qatar", "2026-10-16")).toEqual({ open: false, reason: "Weekend" });
+    expect(scheduleFor("DFM", "2026-10-16").open).toBe(true);
+    expect(scheduleFor("DFM", "2026-10-18")).toEqual({ open: false, reason: "Weekend" });
+  });
+
+  it("closes on built-in holidays", () => {
+    expect(scheduleFor("Qatar", "2026-12-18")).toEqual({ open: false, reason: "Qatar National Day" });
+  });
+
+  it("covers next year and flags dates past the built-in table", () => {
+    expect(scheduleFor("Qatar", "2027-12-16")).toEqual({ open: true, kind: "REGULAR", schedule: MARKET_PRESET.Qatar });
+    expect(scheduleFor("Saudi", "2027-02-22")).toEqual({ open: false, reason: "Founding Day" });
+    expect(scheduleFor("Qatar", "2027-03-01").open && scheduleFor("Qatar", "2027-03-01")).toMatchObject({ kind: "RAMADAN" });
+    expect(scheduleFor("Qatar", `${CALENDAR_LAST_YEAR + 1}-01-04`)).toMatchObject({ kind: "REGULAR", note: "No built-in holidays for 2028" });
+  });
+
+  it("switches to Ramadan hours", () => {
+    const d = scheduleFor("Qatar", "2026-03-01");
+    expect(d.open && d.kind).toBe("RAMADAN");
+    expect(d.open && d.schedule.auction).toBe("12:30");
+  });
+
+  it("lets desk overrides win over the built-in table", () => {
+    const d = scheduleFor("Qatar", "2026-10-19", [
+      { market: "Qatar", date: "2026-10-19", kind: "HALF_DAY", name: "Early close", auction: "11:30" },
+    ]);
+    expect(d.open && d.kind).toBe("HALF_DAY");
+    expect(d.open && d.schedule).toMatchObject({ auction: "11:30", auctionMatch: "11:40", talStart: "11:40", talEnd: "11:45" });
+    expect(scheduleFor("Qatar", "2026-10-19", [{ market: "Qatar", date: "2026-10-19", kind: "HOLIDAY", name: "Closed" }]).open).toBe(false);
+  });
+});
+
+describe("earlyClose", () => {
+  it("drops breaks that start after the new auction", () => {
+    const base = { ...MARKET_PRESET.Kuwait, breaks: [{ start: "10:30", end: "10:45" }, { start: "12:00", end: "12:10" }] };
+    expect(earlyClose(base, "11:00").breaks).toEqual([{ start: "10:30", end: "10:45" }]);
+  });
+
+  it("ends a break that runs into the new auction at the auction", () => {
+    const base = { ...MARKET_PRESET.Kuwait, breaks: [{ start: "10:30", end: "10:45" }, { start: "10:50", end: "11:20" }] };
+    expect(earlyClose(base, "11:00").breaks).toEqual([{ start: "10:30", end: "10:45" }, { start: "10:50", end: "11:00" }]);
+  });
+});
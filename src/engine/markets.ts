@@ -0,0 +1,181 @@
+import type { LiquidityProfile, MarketKey, SessionSchedule } from "./types";
+import { addMinutes, minutesBetween } from "./time";
+
+/* -------------------- Market presets -------------------- */
+// Regular (non-Ramadan, full-day) timetable
+export const MARKET_PRESET: Record<MarketKey, SessionSchedule> = {
+  Egypt: { start: "10:00", auction: "14:15", auctionMatch: "14:25", talStart: "14:25", talEnd: "14:30" },
+  Kuwait:{ start: "09:00", auction: "12:30", auctionMatch: "12:40", talStart: "12:40", talEnd: "12:45" },
+  Qatar: { start: "09:30", auction: "13:00", auctionMatch: "13:10", talStart: "13:10", talEnd: "13:15" },
+  DFM:   { start: "09:00", auction: "13:45", auctionMatch: "13:55", talStart: "13:55", talEnd: "14:00" },
+  ADX:   { start: "09:00", auction: "13:45", auctionMatch: "13:55", talStart: "13:55", talEnd: "14:00" },
+  Saudi: { start: "10:00", auction: "15:00", auctionMatch: "15:10", talStart: "15:10", talEnd: "15:20" },
+};
+
+// Exchange time zones — all session math runs on the market's wall clock
+export const MARKET_TZ: Record<MarketKey, string> = {
+  Egypt: "Africa/Cairo",
+  Kuwait: "Asia/Kuwait",
+  Qatar: "Asia/Qatar",
+  DFM: "Asia/Dubai",
+  ADX: "Asia/Dubai",
+  Saudi: "Asia/Riyadh",
+};
+export function marketTz(m?: MarketKey) {
+  return m ? MARKET_TZ[m] : undefined;
+}
+
+/* -------------------- Market calendars -------------------- */
+// Lunar holidays and Ramadan follow moon sighting and each exchange confirms its
+// dates by circular — treat the built-in table as a default and add desk
+// overrides (CalendarPanel) when the official notice differs.
+export type CalendarEntry = {
+  market: MarketKey;
+  date: string; // YYYY-MM-DD
+  kind: "HOLIDAY" | "HALF_DAY";
+  name: string;
+  auction?: string; // HALF_DAY: new closing-auction start
+};
+
+export type MarketCalendar = {
+  weekend: number[]; // Date#getDay(): 0 = Sun … 6 = Sat
+  ramadan: { from: string; to: string; schedule: SessionSchedule }[];
+};
+
+export type CalendarDay =
+  | { open: false; reason: string }
+  | { open: true; kind: "REGULAR" | "HALF_DAY" | "RAMADAN"; schedule: SessionSchedule; note?: string };
+
+export const RAMADAN_2026 = { from: "2026-02-18", to: "2026-03-19" };
+export const RAMADAN_2027 = { from: "2027-02-08", to: "2027-03-09" }; // expected; confirm by circular
+
+// Last year the built-in holidays and Ramadan dates cover; later dates plan on the regular timetable
+export const CALENDAR_LAST_YEAR = 2027;
+
+const ramadanHours = (schedule: SessionSchedule) => [RAMADAN_2026, RAMADAN_2027].map((r) => ({ ...r, schedule }));
+
+export const MARKET_CALENDAR: Record<MarketKey, MarketCalendar> = {
+  Egypt: {
+    weekend: [5, 6],
+    ramadan: ramadanHours({ start: "10:00", auction: "13:15", auctionMatch: "13:25", talStart: "13:25", talEnd: "13:30" }),
+  },
+  Kuwait: {
+    weekend: [5, 6],
+    ramadan: ramadanHours({ start: "10:00", auction: "12:30", auctionMatch: "12:40", talStart: "12:40", talEnd: "12:45" }),
+  },
+  Qatar: {
+    weekend: [5, 6],
+    ramadan: ramadanHours({ start: "10:00", auction: "12:30", auctionMatch: "12:40", talStart: "12:40", talEnd: "12:45" }),
+  },
+  DFM: {
+    weekend: [6, 0],
+    ramadan: ramadanHours({ start: "10:00", auction: "13:45", auctionMatch: "13:55", talStart: "13:55", talEnd: "14:00" }),
+  },
+  ADX: {
+    weekend: [6, 0],
+    ramadan: ramadanHours({ start: "10:00", auction: "13:45", auctionMatch: "13:55", talStart: "13:55", talEnd: "14:00" }),
+  },
+  Saudi: {
+    weekend: [5, 6],
+    ramadan: ramadanHours({ start: "10:00", auction: "14:20", auctionMatch: "14:30", talStart: "14:30", talEnd: "14:40" }),
+  },
+};
+
+export const ALL_MARKETS: MarketKey[] = ["Egypt", "Kuwait", "Qatar", "DFM", "ADX", "Saudi"];
+const forMarkets = (markets: MarketKey[], dates: string[], name: string): CalendarEntry[] =>
+  markets.flatMap((market) => dates.map((date) => ({ market, date, kind: "HOLIDAY" as const, name })));
+
+export const HOLIDAYS_2026: CalendarEntry[] = [
+  ...forMarkets(ALL_MARKETS, ["2026-03-19", "2026-03-20", "2026-03-22", "2026-03-23"], "Eid al-Fitr"),
+  ...forMarkets(ALL_MARKETS, ["2026-05-26", "2026-05-27", "2026-05-28"], "Arafat / Eid al-Adha"),
+  ...forMarkets(["Egypt", "Kuwait", "DFM", "ADX"], ["2026-06-16"], "Islamic New Year"),
+  ...forMarkets(["Egypt", "Kuwait", "DFM", "ADX"], ["2026-08-25"], "Prophet's Birthday"),
+  ...forMarkets(["DFM", "ADX"], ["2026-01-01"], "New Year's Day"),
+  ...forMarkets(["DFM", "ADX"], ["2026-12-02", "2026-12-03"], "UAE National Day"),
+  ...forMarkets(["Egypt"], ["2026-01-07"], "Coptic Christmas"),
+  ...forMarkets(["Egypt"], ["2026-04-13"], "Sham El-Nessim"),
+  ...forMarkets(["Egypt"], ["2026-06-30"], "June 30 Revolution"),
+  ...forMarkets(["Egypt"], ["2026-07-23"], "Revolution Day"),
+  ...forMarkets(["Egypt"], ["2026-10-06"], "Armed Forces Day"),
+  ...forMarkets(["Kuwait"], ["2026-02-25", "2026-02-26"], "National & Liberation Day"),
+  ...forMarkets(["Qatar"], ["2026-02-10"], "National Sport Day"),
+  ...forMarkets(["Qatar"], ["2026-12-18"], "Qatar National Day"),
+  ...forMarkets(["Saudi"], ["2026-02-22"], "Founding Day"),
+  ...forMarkets(["Saudi"], ["2026-09-23"], "Saudi National Day"),
+];
+
+// Lunar dates are the expected ones
+export const HOLIDAYS_2027: CalendarEntry[] = [
+  ...forMarkets(ALL_MARKETS, ["2027-03-09", "2027-03-10", "2027-03-11", "2027-03-14"], "Eid al-Fitr"),
+  ...forMarkets(ALL_MARKETS, ["2027-05-16", "2027-05-17", "2027-05-18"], "Arafat / Eid al-Adha"),
+  ...forMarkets(["Egypt", "Kuwait", "DFM", "ADX"], ["2027-06-06"], "Islamic New Year"),
+  ...forMarkets(["Egypt", "Kuwait", "DFM", "ADX"], ["2027-08-15"], "Prophet's Birthday"),
+  ...forMarkets(["DFM", "ADX"], ["2027-01-01"], "New Year's Day"),
+  ...forMarkets(["DFM", "ADX"], ["2027-12-02", "2027-12-03"], "UAE National Day"),
+  ...forMarkets(["Egypt"], ["2027-01-07"], "Coptic Christmas"),
+  ...forMarkets(["Egypt"], ["2027-05-03"], "Sham El-Nessim"),
+  ...forMarkets(["Egypt"], ["2027-06-30"], "June 30 Revolution"),
+  ...forMarkets(["Egypt"], ["2027-07-23"], "Revolution Day"),
+  ...forMarkets(["Egypt"], ["2027-10-06"], "Armed Forces Day"),
+  ...forMarkets(["Kuwait"], ["2027-02-25", "2027-02-26"], "National & Liberation Day"),
+  ...forMarkets(["Qatar"], ["2027-02-09"], "National Sport Day"),
+  ...forMarkets(["Qatar"], ["2027-12-18"], "Qatar National Day"),
+  ...forMarkets(["Saudi"], ["2027-02-22"], "Founding Day"),
+  ...forMarkets(["Saudi"], ["2027-09-23"], "Saudi National Day"),
+];
+
+const HOLIDAYS = [...HOLIDAYS_2026, ...HOLIDAYS_2027];
+
+export function calendarCovers(dateISO: string) {
+  return Number(dateISO.slice(0, 4)) <= CALENDAR_LAST_YEAR;
+}
+
+export function weekdayOf(dateISO: string) {
+  return new Date(`${dateISO}T00:00:00`).getDay();
+}
+
+// Move the close earlier, keeping the auction/TAL window lengths of the base timetable.
+// Breaks after the new auction go; one running into it ends at the auction.
+export function earlyClose(base: SessionSchedule, auction: string): SessionSchedule {
+  const match = addMinutes(auction, minutesBetween(base.auction, base.auctionMatch));
+  const talStart = addMinutes(match, minutesBetween(base.auctionMatch, base.talStart));
+  return {
+    ...base,
+    auction,
+    auctionMatch: match,
+    talStart,
+    talEnd: addMinutes(talStart, minutesBetween(base.talStart, base.talEnd)),
+    breaks: (base.breaks || []).filter((b) => b.start < auction).map((b) => (b.end > auction ? { ...b, end: auction } : b)),
+  };
+}
+
+/**
+ * Today's timetable for a market: desk overrides win over the built-in table.
+ * A regular day past CALENDAR_LAST_YEAR carries a note that the table has no
+ * holidays or Ramadan hours for it.
+ */
+export function scheduleFor(market: MarketKey, dateISO: string, overrides: CalendarEntry[] = []): CalendarDay {
+  const cal = MARKET_CALENDAR[market];
+  const match = (e: CalendarEntry) => e.market === market && e.date === dateISO;
+  const entry = overrides.find(match) || HOLIDAYS.find(match);
+  if (entry?.kind === "HOLIDAY") return { open: false, reason: entry.name };
+  if (cal.weekend.includes(weekdayOf(dateISO))) return { open: false, reason: "Weekend" };
+
+  const ramadan = cal.ramadan.find((r) => dateISO >= r.from && dateISO <= r.to);
+  const base = ramadan ? ramadan.schedule : MARKET_PRESET[market];
+  if (entry?.kind === "HALF_DAY" && entry.auction) {
+    return { open: true, kind: "HALF_DAY", schedule: earlyClose(base, entry.auction), note: entry.name };
+  }
+  return ramadan
+    ? { open: true, kind: "RAMADAN", schedule: base, note: "Ramadan hours" }
+    : calendarCovers(dateISO)
+    ? { open: true, kind: "REGULAR", schedule: base }
+    : { open: true, kind: "REGULAR", schedule: base, note: `No built-in holidays for ${dateISO.slice(0, 4)}` };
+}
+
+// Profiles minimize typing — used to prefill expected volumes
+export const PROFILE_VOLS: Record<LiquidityProfile, { cont: number; auction: number; tal: number }> = {
+  Quiet:   { cont: 400_000, auction: 300_000, tal: 30_000 },
+  Normal:  { cont: 800_000, auction: 400_000, tal: 60_000 },
+  Volatile:{ cont: 1_300_000, auction: 600_000, tal: 100_000 },
+};
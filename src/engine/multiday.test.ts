@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import type { MultiDay, Order } from "./types";
+import { defaultOrder, withMarket } from "./order";
+import { withFills } from "./fills";
+import { allocationFor, carryOver, dailySchedule, multiDaySummary, rollMultiDay } from "./multiday";
+
+// DFM, week of 2026-11-30: Tue 1 Dec open, 2–3 Dec UAE National Day, Fri 4 open, Sat/Sun weekend
+const md = (m: Partial<MultiDay> = {}): MultiDay => ({
+  parentQty: 250_000, adv: 1_000_000, maxAdvPct: 10, targetDays: 0, startDate: "2026-12-01", history: [], ...m,
+});
+const order = (o: Partial<Order> = {}): Order => ({ ...withMarket(defaultOrder("BUY"), "DFM", "2026-12-01"), ...o });
+
+describe("dailySchedule", () => {
+  it("fills each open session up to the ADV cap, skipping holidays and weekends", () => {
+    expect(dailySchedule(md(), "DFM", "2026-12-01").days).toEqual([
+      { date: "2026-12-01", qty: 100_000 },
+      { date: "2026-12-04", qty: 100_000 },
+      { date: "2026-12-07", qty: 50_000 },
+    ]);
+  });
+
+  it("spreads evenly over the target days and flags when the cap stretches them", () => {
+    const even = dailySchedule(md({ targetDays: 5 }), "DFM", "2026-12-01");
+    expect(even.days.map((d) => d.qty)).toEqual([50_000, 50_000, 50_000, 50_000, 50_000]);
+    expect(even.capBinding).toBe(false);
+    const tight = dailySchedule(md({ targetDays: 2 }), "DFM", "2026-12-01");
+    expect(tight.days.map((d) => d.qty)).toEqual([100_000, 100_000, 50_000]);
+    expect(tight.capBinding).toBe(true);
+  });
+
+  it("allocates nothing on a closed day", () => {
+    expect(allocationFor(md(), "DFM", "2026-12-02")).toBe(0);
+  });
+});
+
+describe("rollMultiDay", () => {
+  it("records the day and carries the remainder into the next session", () => {
+    const day1 = withFills(order({ orderQty: 100_000, multiDay: md(), startVol: 0, currentVol: 900_000, marketTurnover: 9_180_000, arrivalPrice: 10 }), [
+      { id: "f1", at: "11:00:00", qty: 80_000, price: 10.1, kind: "FILL" },
+    ]);
+    const day2 = rollMultiDay(day1, "2026-12-01", "2026-12-04")!;
+    expect(day2.multiDay!.history).toEqual([
+      {
+        date: "2026-12-01", allocated: 100_000, executedQty: 80_000, executedNotional: 808_000,
+        marketVol: 900_000, marketVWAP: 10.2, arrivalPrice: 10, closePrice: 0,
+      },
+    ]);
+    expect(day2.orderQty).toBe(100_000);
+    expect(day2.fills).toEqual([]);
+    expect(day2.arrivalPrice).toBe(0);
+  });
+
+  it("does not spend target days on a weekend", () => {
+    // Qatar: Thu 22 Oct traded 50k, Fri/Sat weekend
+    const qatar = (o: Partial<Order>) => ({ ...withMarket(defaultOrder("BUY"), "Qatar", "2026-10-22"), ...o });
+    const thu = withFills(qatar({ orderQty: 50_000, multiDay: md({ targetDays: 5, startDate: "2026-10-22" }) }), [
+      { id: "f1", at: "11:00:00", qty: 50_000, price: 10, kind: "FILL" },
+    ]);
+    const fri = rollMultiDay(thu, "2026-10-22", "2026-10-23")!;
+    const sat = rollMultiDay(fri, "2026-10-23", "2026-10-24")!;
+    const sun = rollMultiDay(sat, "2026-10-24", "2026-10-25")!;
+    expect(sun.multiDay!.history.map((d) => `${d.date}:${d.executedQty}`)).toEqual(["2026-10-22:50000"]);
+    expect(sun.orderQty).toBe(50_000);
+    expect(dailySchedule(sun.multiDay!, "Qatar", "2026-10-25").days.map((d) => d.qty)).toEqual([50_000, 50_000, 50_000, 50_000]);
+    // Closed days already in an older history are not counted either
+    const legacy = md({ targetDays: 5, startDate: "2026-10-22", history: [...sun.multiDay!.history, { ...sun.multiDay!.history[0], date: "2026-10-23", executedQty: 0 }] });
+    expect(dailySchedule(legacy, "Qatar", "2026-10-25").days).toHaveLength(4);
+  });
+
+  it("drops finished parents and single-day orders", () => {
+    const done = withFills(order({ multiDay: md({ parentQty: 50_000 }) }), [{ id: "f1", at: "11:00:00", qty: 50_000, price: 10, kind: "FILL" }]);
+    expect(rollMultiDay(done, "2026-12-01", "2026-12-04")).toBeNull();
+    expect(carryOver([done, order(), order({ multiDay: md() })], "2026-12-01", "2026-12-04")).toHaveLength(1);
+  });
+});
+
+describe("multiDaySummary", () => {
+  it("measures cumulative performance against the volume-weighted VWAP and the first arrival", () => {
+    const history = [
+      { date: "2026-12-01", allocated: 100, executedQty: 100, executedNotional: 1_000, marketVol: 1_000, marketVWAP: 10.2, arrivalPrice: 10, closePrice: 10.3 },
+    ];
+    const today = withFills(order({ multiDay: md({ parentQty: 400, history }), startVol: 0, currentVol: 1_000, marketTurnover: 10_400, arrivalPrice: 10.35 }), [
+      { id: "f1", at: "11:00:00", qty: 100, price: 10.4, kind: "FILL" },
+    ]);
+    const s = multiDaySummary(today, "2026-12-04")!;
+    expect(s.days.map((d) => d.date)).toEqual(["2026-12-01", "2026-12-04"]);
+    expect(s.executedQty).toBe(200);
+    expect(s.completion).toBe(0.5);
+    expect(s.avgPrice).toBeCloseTo(10.2);
+    expect(s.marketVWAP).toBeCloseTo(10.3);
+    expect(s.vwapBps).toBeCloseTo(97.09, 1);
+    expect(s.arrivalPrice).toBe(10);
+    expect(s.arrivalBps).toBeCloseTo(-200);
+  });
+});
@@ -0,0 +1,146 @@
+import type { DayResult, MarketKey, MultiDay, Order } from "./types";
+import { scheduleFor, type CalendarEntry } from "./markets";
+import { addDaysISO } from "./time";
+import { fillTotals } from "./fills";
+import { impliedMarketVWAP, performanceBps } from "./analytics";
+import { clearExecution, withMarket } from "./order";
+
+/* -------------------- Multi-day orders -------------------- */
+const MAX_SCHEDULE_DAYS = 60;
+
+export function newMultiDay(order: Order, startDate: string): MultiDay {
+  return {
+    parentQty: order.orderQty,
+    adv: order.expectedContVol + order.expectedAuctionVol + order.expectedTalVol,
+    maxAdvPct: 10,
+    targetDays: 0,
+    startDate,
+    history: [],
+  };
+}
+
+export function dailyCap(md: MultiDay) {
+  return Math.floor((md.adv * Math.max(0, md.maxAdvPct)) / 100);
+}
+export function multiDayRemaining(md: MultiDay) {
+  return Math.max(0, md.parentQty - md.history.reduce((a, d) => a + d.executedQty, 0));
+}
+
+export type DayAllocation = { date: string; qty: number };
+
+// A day the market was closed and nothing traded is not one of the target sessions
+const tradedSession = (d: DayResult, market: MarketKey | undefined, overrides: CalendarEntry[]) =>
+  d.executedQty > 0 || !market || scheduleFor(market, d.date, overrides).open;
+
+/**
+ * Daily quantities from `fromDate` on for what the closed days left over:
+ * spread evenly over the target days still to go (or as fast as the cap
+ * allows), never above maxAdvPct × ADV. Exchange holidays and weekends are
+ * skipped, and closed days in the history do not use up target days.
+ * `capBinding` = the cap stretches the order past its target days.
+ */
+export function dailySchedule(
+  md: MultiDay,
+  market: MarketKey | undefined,
+  fromDate: string,
+  overrides: CalendarEntry[] = []
+): { days: DayAllocation[]; capBinding: boolean } {
+  let remaining = multiDayRemaining(md);
+  const cap = dailyCap(md) || remaining; // no ADV → everything on the next session
+  const sessionsDone = md.history.filter((d) => tradedSession(d, market, overrides)).length;
+  const daysLeft = md.targetDays > 0 ? Math.max(1, md.targetDays - sessionsDone) : 0;
+  const days: DayAllocation[] = [];
+  const start = fromDate > md.startDate ? fromDate : md.startDate;
+  for (let i = 0; remaining > 0 && days.length < MAX_SCHEDULE_DAYS && i < MAX_SCHEDULE_DAYS * 2; i++) {
+    const date = addDaysISO(start, i);
+    if (market && !scheduleFor(market, date, overrides).open) continue;
+    const left = daysLeft > 0 ? Math.max(1, daysLeft - days.length) : 0;
+    const qty = Math.min(cap, remaining, left > 0 ? Math.ceil(remaining / left) : cap);
+    days.push({ date, qty });
+    remaining -= qty;
+  }
+  return { days, capBinding: daysLeft > 0 && days.length > daysLeft };
+}
+
+// Today's allocation (0 when the market is closed today or nothing is left)
+export function allocationFor(md: MultiDay, market: MarketKey | undefined, dateISO: string, overrides: CalendarEntry[] = []) {
+  const first = dailySchedule(md, market, dateISO, overrides).days[0];
+  return first && first.date === dateISO ? first.qty : 0;
+}
+
+export function dayResult(order: Order, dateISO: string): DayResult {
+  const t = fillTotals(order.fills);
+  const marketVol = Math.max(0, order.currentVol - order.startVol);
+  return {
+    date: dateISO,
+    allocated: order.orderQty,
+    executedQty: t.qty,
+    executedNotional: t.notional,
+    marketVol,
+    marketVWAP: impliedMarketVWAP(order.marketTurnover, marketVol, order.marketVWAPInput),
+    arrivalPrice: order.arrivalPrice,
+    closePrice: order.closePrice,
+  };
+}
+
+/**
+ * Close `closedDate` for a multi-day order and set it up for `nextDate`: the
+ * day goes into history (unless the market was closed and nothing traded),
+ * the session takes that day's timetable and orderQty becomes the new
+ * allocation (the remainder carries over). Null once the parent quantity is
+ * done.
+ */
+export function rollMultiDay(order: Order, closedDate: string, nextDate: string, overrides: CalendarEntry[] = []): Order | null {
+  if (!order.multiDay) return null;
+  const result = dayResult(order, closedDate);
+  const skip = order.multiDay.history.some((d) => d.date === closedDate) || !tradedSession(result, order.market, overrides);
+  const md: MultiDay = skip ? order.multiDay : { ...order.multiDay, history: [...order.multiDay.history, result] };
+  if (multiDayRemaining(md) <= 0) return null;
+  const fresh = clearExecution(order);
+  const next = fresh.market ? withMarket(fresh, fresh.market, nextDate, overrides) : fresh;
+  return { ...next, multiDay: md, orderQty: allocationFor(md, order.market, nextDate, overrides) };
+}
+
+// Multi-day orders still working, rolled into the next day's book
+export function carryOver(orders: Order[], closedDate: string, nextDate: string, overrides: CalendarEntry[] = []) {
+  return orders.flatMap((o) => {
+    const next = rollMultiDay(o, closedDate, nextDate, overrides);
+    return next ? [next] : [];
+  });
+}
+
+export type MultiDaySummary = {
+  days: DayResult[]; // closed days plus today so far
+  executedQty: number;
+  executedNotional: number;
+  completion: number; // of the parent qty, 0–1
+  avgPrice: number;
+  marketVWAP: number; // volume-weighted across the days
+  vwapBps: number;
+  arrivalPrice: number; // first day's arrival
+  arrivalBps: number;
+};
+
+export function multiDaySummary(order: Order, todayISO: string): MultiDaySummary | null {
+  const md = order.multiDay;
+  if (!md) return null;
+  const days = [...md.history.filter((d) => d.date !== todayISO), dayResult(order, todayISO)];
+  const executedQty = days.reduce((a, d) => a + d.executedQty, 0);
+  const executedNotional = days.reduce((a, d) => a + d.executedNotional, 0);
+  const avgPrice = executedQty > 0 ? executedNotional / executedQty : 0;
+  const priced = days.filter((d) => d.marketVWAP > 0 && d.marketVol > 0);
+  const mVol = priced.reduce((a, d) => a + d.marketVol, 0);
+  const marketVWAP = mVol > 0 ? priced.reduce((a, d) => a + d.marketVWAP * d.marketVol, 0) / mVol : 0;
+  const arrivalPrice = days.find((d) => d.arrivalPrice > 0)?.arrivalPrice || 0;
+  return {
+    days,
+    executedQty,
+    executedNotional,
+    completion: md.parentQty > 0 ? Math.min(1, executedQty / md.parentQty) : 0,
+    avgPrice,
+    marketVWAP,
+    vwapBps: performanceBps(order.side, avgPrice, marketVWAP),
+    arrivalPrice,
+    arrivalBps: performanceBps(order.side, avgPrice, arrivalPrice),
+  };
+}
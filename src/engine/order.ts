@@ -0,0 +1,126 @@
+import type { MarketKey, Order, Side } from "./types";
+import { MARKET_PRESET, PROFILE_VOLS, scheduleFor, type CalendarEntry } from "./markets";
+import { withFills } from "./fills";
+
+/* -------------------- Order defaults -------------------- */
+export function defaultOrder(side: Side, idx = 1): Order {
+  const pv = PROFILE_VOLS.Normal;
+  return {
+    id: Math.random().toString(36).slice(2, 9),
+    name: side === "BUY" ? `Buy ${idx}` : `Sell ${idx}`,
+    symbol: "QNBK",
+    side,
+    orderQty: 1_600_000,
+    limitPrice: 0,
+    outOfLimitSlices: [],
+
+    execMode: "OTD",
+    capMode: "PCT",
+    maxPart: 15,
+    reserveAuctionPct: 10,
+    deferCompletion: true,
+
+    sessionStart: "09:30",
+    sessionEnd: "13:00",
+    auctionStart: "13:00",
+    auctionEnd: "13:10",
+    talStart: "13:10",
+    talEnd: "13:15",
+    breaks: [],
+    intervalMins: 30,
+    curve: "ucurve",
+
+    startVol: 0,
+    currentVol: 0,
+    expectedContVol: pv.cont,
+    expectedAuctionVol: pv.auction,
+    expectedTalVol: pv.tal,
+
+    marketTurnover: 0,
+    marketVWAPInput: 0,
+
+    benchmark: "VWAP",
+    lastPrice: 0,
+    arrivalPrice: 0,
+    closePrice: 0,
+
+    orderExecQty: 0,
+    orderExecNotional: 0,
+    fills: [],
+
+    market: "Qatar",
+    startFromNow: false,
+    snapshots: [],
+    liquidity: "Normal",
+    completed: false,
+
+    notificationsOn: false,
+    soundOn: false,
+    sliceReminders: true,
+    remindEveryMins: 15,
+    eventReminders: true,
+    sessionEndLeadMins: 10,
+    staleAfterMins: 15,
+    imbalanceSharePct: 50,
+  };
+}
+
+// Fill any fields missing from older saves with the defaults of the same side
+export function normalizeOrder(raw: any): Order {
+  const side: Side = raw?.side === "SELL" ? "SELL" : "BUY";
+  const base = defaultOrder(side);
+  const merged: Order = {
+    ...base,
+    ...raw,
+    side,
+    snapshots: Array.isArray(raw?.snapshots) ? raw.snapshots : [],
+    fills: Array.isArray(raw?.fills) ? raw.fills : [],
+    completed: !!raw?.completed,
+  };
+  return withFills(merged, merged.fills);
+}
+
+// Same order terms, nothing traded or observed yet — a simulation run or a new session starts here
+export function clearExecution(order: Order): Order {
+  return withFills(
+    {
+      ...order,
+      startVol: 0,
+      currentVol: 0,
+      marketTurnover: 0,
+      marketVWAPInput: 0,
+      lastPrice: 0,
+      arrivalPrice: 0,
+      arrivalAt: undefined,
+      closePrice: 0,
+      snapshots: [],
+      outOfLimitSlices: [],
+      startFromNow: false,
+      completed: false,
+      lastUpdateAt: undefined,
+      feed: undefined,
+      changeLog: undefined,
+      auctionIndications: undefined,
+    },
+    []
+  );
+}
+
+// Session windows from the market's timetable on `dateISO` (regular hours when closed);
+// `from` starts the continuous session mid-day instead of at the open
+export function withMarket(order: Order, market: MarketKey, dateISO: string, overrides: CalendarEntry[] = [], from?: string): Order {
+  const day = scheduleFor(market, dateISO, overrides);
+  const p = day.open ? day.schedule : MARKET_PRESET[market];
+  return {
+    ...order,
+    market,
+    startFromNow: !!from,
+    sessionStart: from || p.start,
+    sessionEnd: p.auction,
+    auctionStart: p.auction,
+    auctionEnd: p.auctionMatch,
+    talStart: p.talStart,
+    talEnd: p.talEnd,
+    breaks: p.breaks || [],
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { defaultOrder } from "./order";
+import { SCHEMA_VERSION, migrateBook, newerSchema, writeBook, type PersistedBook } from "./persist";
+
+const KEY = "book";
+const storage = (value?: unknown) => {
+  const items = new Map<string, string>();
+  if (value !== undefined) items.set(KEY, JSON.stringify(value));
+  return { getItem: (k: string) => items.get(k) ?? null, setItem: (k: string, v: string) => void items.set(k, v) };
+};
+const book = (o: Partial<PersistedBook> = {}): PersistedBook => ({
+  version: SCHEMA_VERSION, tradeDate: "2026-10-19", savedAt: "", orders: [defaultOrder("BUY")], baskets: [], ...o,
+});
+
+describe("migrateBook", () => {
+  it("upgrades a bare pre-versioning order list", () => {
+    const b = migrateBook([{ ...defaultOrder("BUY"), fills: undefined, orderExecQty: 100, orderExecNotional: 1000 }]);
+    expect(b?.version).toBe(SCHEMA_VERSION);
+    expect(b?.orders[0].fills).toMatchObject([{ kind: "RECON", qty: 100, price: 10 }]);
+  });
+
+  it("refuses a book written by a newer version", () => {
+    const newer = { ...book(), version: SCHEMA_VERSION + 1 };
+    expect(migrateBook(newer)).toBeNull();
+    expect(newerSchema(newer)).toBe(SCHEMA_VERSION + 1);
+    expect(newerSchema(book())).toBeNull();
+  });
+});
+
+describe("writeBook", () => {
+  it("replaces a book this version can read", () => {
+    const s = storage(book({ tradeDate: "2026-10-16" }));
+    expect(writeBook(s, KEY, book())).toBe(true);
+    expect(JSON.parse(s.getItem(KEY)!).tradeDate).toBe("2026-10-19");
+    expect(writeBook(storage(), KEY, book())).toBe(true);
+  });
+
+  it("leaves a book saved by a newer version untouched", () => {
+    const stored = { ...book({ tradeDate: "2026-10-16" }), version: SCHEMA_VERSION + 1, extra: "kept" };
+    const s = storage(stored);
+    expect(writeBook(s, KEY, book())).toBe(false);
+    expect(JSON.parse(s.getItem(KEY)!)).toEqual(stored);
+  });
+});
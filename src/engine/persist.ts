@@ -0,0 +1,87 @@
+import type { Fill, LiquidityProfile, Order } from "./types";
+import type { Basket } from "./basket";
+import { todayISO } from "./time";
+import { newFillId } from "./fills";
+import { PROFILE_VOLS } from "./markets";
+import { normalizeOrder } from "./order";
+
+/* -------------------- Persisted book (versioned) -------------------- */
+// New fields with a default are filled in by normalizeOrder. Bump
+// SCHEMA_VERSION when a change needs more than that (renames, derived or
+// seeded values) and add a migration step keyed by the version it upgrades *from*.
+export const SCHEMA_VERSION = 3;
+
+export type PersistedBook = {
+  version: number;
+  tradeDate: string; // YYYY-MM-DD (local)
+  savedAt: string;   // ISO timestamp
+  orders: Order[];
+  baskets?: Basket[];
+};
+
+// v0 = pre-versioning: either a bare Order[] or { orders } without version/tradeDate
+const MIGRATIONS: Record<number, (raw: any) => any> = {
+  0: (raw) => {
+    const orders = Array.isArray(raw) ? raw : Array.isArray(raw?.orders) ? raw.orders : [];
+    return { version: 1, tradeDate: raw?.tradeDate || todayISO(), savedAt: raw?.savedAt || "", orders };
+  },
+  // v2: fill ledger — carry old hand-typed totals over as one RECON entry
+  1: (raw) => ({
+    ...raw,
+    version: 2,
+    orders: (raw.orders || []).map((o: any) => {
+      if (Array.isArray(o.fills)) return o;
+      const qty = Number(o.orderExecQty) || 0;
+      const notional = Number(o.orderExecNotional) || 0;
+      const fills: Fill[] =
+        qty || notional
+          ? [{ id: newFillId(), at: "00:00:00", qty, price: qty ? notional / qty : 0, kind: "RECON", notional }]
+          : [];
+      return { ...o, fills };
+    }),
+  }),
+  // v3: TAL bucket — seed expected TAL volume from the order's liquidity profile
+  2: (raw) => ({
+    ...raw,
+    version: 3,
+    orders: (raw.orders || []).map((o: any) => ({
+      ...o,
+      expectedTalVol: o.expectedTalVol ?? PROFILE_VOLS[o.liquidity as LiquidityProfile]?.tal ?? PROFILE_VOLS.Normal.tal,
+    })),
+  }),
+};
+
+export function migrateBook(raw: any): PersistedBook | null {
+  let book = raw;
+  let version = typeof raw?.version === "number" ? raw.version : 0;
+  if (version > SCHEMA_VERSION) return null; // written by a newer build; don't clobber
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) return null;
+    book = step(book);
+    version = book.version;
+  }
+  return { ...book, orders: (book.orders || []).map(normalizeOrder), baskets: Array.isArray(book.baskets) ? book.baskets : [] };
+}
+
+// Schema version of a stored book written by a newer build (this one cannot read it), else null
+export function newerSchema(raw: any): number | null {
+  return typeof raw?.version === "number" && raw.version > SCHEMA_VERSION ? raw.version : null;
+}
+
+type BookStorage = Pick<Storage, "getItem" | "setItem">;
+
+/**
+ * Save `book` under `key` unless what is stored there came from a newer
+ * build — that book is left alone rather than replaced by one this build
+ * understands. Returns whether it was written.
+ */
+export function writeBook(storage: BookStorage, key: string, book: PersistedBook): boolean {
+  let stored: unknown = null;
+  try {
+    stored = JSON.parse(storage.getItem(key) || "null");
+  } catch {}
+  if (newerSchema(stored) !== null) return false;
+  storage.setItem(key, JSON.stringify(book));
+  return true;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import type { Order } from "./types";
+import { defaultOrder } from "./order";
+import { accumulatedSuggested, buildPlan, remainingSlices, replanInputs, sessionPhase } from "./plan";
+import { timeSlices } from "./time";
+import { uCurveWeights } from "./curves";
+
+const order = (o: Partial<Order> = {}): Order => ({ ...defaultOrder("BUY"), ...o });
+const total = (p: ReturnType<typeof buildPlan>) => p.contPlanned + p.auctionPlanned + p.talPlanned;
+
+describe("buildPlan (OTD)", () => {
+  it("keeps every slice within the participation cap", () => {
+    const p = buildPlan(order());
+    expect(p.rows).toHaveLength(7);
+    for (const r of p.rows) expect(r.suggestedQty).toBeLessThanOrEqual(r.maxAllowed as number);
+    expect(p.auctionPlanned).toBe(p.auctionAllowed);
+    expect(p.talPlanned).toBe(p.talAllowed);
+  });
+
+  it("plans the whole order when nothing is capped", () => {
+    const p = buildPlan(order({ capMode: "NONE", deferCompletion: false, orderQty: 300_000 }));
+    expect(total(p)).toBe(300_000);
+    expect(p.auctionPlanned).toBeGreaterThanOrEqual(30_000);
+  });
+
+  it("spills what the auction cannot absorb into TAL", () => {
+    const p = buildPlan(
+      order({ capMode: "NONE", deferCompletion: false, orderQty: 1_000_000, reserveAuctionPct: 50, expectedAuctionVol: 100_000 })
+    );
+    expect(p.auctionPlanned).toBe(100_000);
+    expect(p.talPlanned).toBe(60_000);
+  });
+
+  it("has no TAL without a TAL window", () => {
+    const p = buildPlan(order({ capMode: "NONE", orderQty: 1_000_000, reserveAuctionPct: 50, expectedAuctionVol: 100_000, talStart: "", talEnd: "" }));
+    expect(p.talAllowed).toBe(0);
+    expect(p.talPlanned).toBe(0);
+  });
+});
+
+describe("buildPlan (INLINE)", () => {
+  it("never plans more than the order", () => {
+    const p = buildPlan(order({ execMode: "INLINE", capMode: "NONE", orderQty: 300_000 }));
+    expect(total(p)).toBeLessThanOrEqual(300_000);
+    expect(p.contPlanned).toBe(p.rows.reduce((a, r) => a + r.suggestedQty, 0));
+  });
+});
+
+describe("re-plan", () => {
+  it("cuts the live slice and keeps the remaining weights normalized", () => {
+    const slices = timeSlices("09:30", "13:00", 30);
+    const r = remainingSlices(slices, uCurveWeights(slices.length), "10:45");
+    expect(r.slices[0]).toMatchObject({ s: "10:45", e: "11:00", mins: 15 });
+    expect(r.slices).toHaveLength(5);
+    expect(r.weights.reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+  });
+
+  it("spreads the unfilled quantity over the rest of the session", () => {
+    const o = order({
+      capMode: "NONE",
+      startVol: 0,
+      currentVol: 400_000,
+      fills: [{ id: "a", at: "10:15:00", qty: 200_000, price: 10, kind: "FILL" }],
+    });
+    const inputs = replanInputs(o, buildPlan(o), "11:00");
+    expect(inputs.qty).toBe(1_400_000);
+    expect(inputs.volRatio).toBeGreaterThan(1);
+    const p = buildPlan(o, undefined, inputs);
+    expect(p.rows[0].s).toBe("11:00");
+    expect(total(p)).toBeLessThanOrEqual(1_400_000);
+  });
+});
+
+describe("accumulatedSuggested", () => {
+  const p = buildPlan(order({ intervalMins: 60 }));
+
+  it("accrues finished slices and a pro-rata share of the live one", () => {
+    expect(accumulatedSuggested(p, "09:30", "09:00")).toBe(0);
+    expect(accumulatedSuggested(p, "09:30", "10:30")).toBe(p.rows[0].suggestedQty);
+    expect(accumulatedSuggested(p, "09:30", "11:00")).toBe(p.rows[0].suggestedQty + Math.floor(p.rows[1].suggestedQty / 2));
+  });
+
+  it("ignores skipped slices", () => {
+    expect(accumulatedSuggested(p, "09:30", "11:30", ["09:30"])).toBe(p.rows[1].suggestedQty);
+  });
+});
+
+describe("sessionPhase", () => {
+  it("follows the timetable including breaks", () => {
+    const o = order({ breaks: [{ start: "11:00", end: "11:30" }] });
+    expect(["09:00", "10:00", "11:10", "13:05", "13:12", "13:20"].map((t) => sessionPhase(o, t))).toEqual([
+      "PRE", "CONTINUOUS", "BREAK", "AUCTION", "TAL", "CLOSED",
+    ]);
+  });
+});
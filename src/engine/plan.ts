@@ -0,0 +1,259 @@
+import type { CapMode, Order } from "./types";
+import { clamp, minutesBetween, timeSlices, type Slice } from "./time";
+import { equalWeights, historicalWeights, uCurveWeights, type VolumeCurve } from "./curves";
+import { fillTotals } from "./fills";
+
+/* -------------------- Planning -------------------- */
+export function applyCap(capMode: CapMode, maxPart: number, qty: number, sliceVol: number) {
+  if (capMode === "NONE") return Math.max(0, Math.floor(qty));
+  const allowed = Math.floor((sliceVol * maxPart) / 100);
+  return Math.max(0, Math.min(Math.floor(qty), allowed));
+}
+
+export function hasTalWindow(order: Pick<Order, "talStart" | "talEnd">) {
+  return !!order.talStart && !!order.talEnd && minutesBetween(order.talStart, order.talEnd) > 0;
+}
+
+export type SessionPhase = "PRE" | "CONTINUOUS" | "BREAK" | "AUCTION" | "TAL" | "CLOSED";
+export function sessionPhase(order: Order, now: string): SessionPhase {
+  if (now < order.sessionStart) return "PRE";
+  if (now < order.sessionEnd) {
+    return order.breaks.some((b) => now >= b.start && now < b.end) ? "BREAK" : "CONTINUOUS";
+  }
+  if (now < order.auctionEnd) return "AUCTION";
+  if (hasTalWindow(order) && now >= order.talStart && now < order.talEnd) return "TAL";
+  return "CLOSED";
+}
+// Last moment the order can still trade today (TAL end if there is a TAL window)
+export function finalEnd(order: Order) {
+  return hasTalWindow(order) ? order.talEnd : order.auctionEnd;
+}
+
+export type BuiltRow = {
+  interval: string;
+  s: string;
+  e: string;
+  mins: number;
+  expMktVol: number;
+  maxAllowed: number | "∞";
+  suggestedQty: number;
+};
+
+export type BuiltPlan = {
+  rows: BuiltRow[];
+  contPlanned: number;
+  auctionAllowed: number;
+  auctionPlanned: number;
+  talAllowed: number;
+  talPlanned: number;
+};
+
+export function sliceWeights(order: Order, slices: { s: string; e: string }[], hist?: VolumeCurve) {
+  if (order.curve === "equal") return equalWeights(slices.length);
+  if (order.curve === "historical" && hist) return historicalWeights(hist, slices);
+  return uCurveWeights(slices.length); // also the fallback when no historical curve is loaded
+}
+
+/**
+ * Re-plan inputs: spread `qty` over what is left of the session from `from`,
+ * with `contVol` the expected continuous volume still to trade.
+ */
+export type ReplanInput = { from: string; qty: number; contVol: number };
+
+export function buildPlan(order: Order, hist?: VolumeCurve, replan?: ReplanInput): BuiltPlan {
+  const allSlices = timeSlices(order.sessionStart, order.sessionEnd, order.intervalMins, order.breaks);
+  const allWeights = sliceWeights(order, allSlices, hist);
+  // Weights always come from the full session so the curve shape is preserved when re-planning
+  const { slices, weights } = replan
+    ? remainingSlices(allSlices, allWeights, replan.from)
+    : { slices: allSlices, weights: allWeights };
+  const qty = replan ? replan.qty : order.orderQty;
+  const contVol = replan ? replan.contVol : order.expectedContVol;
+  const contVolPerSlice = weights.map((w) => Math.floor(w * contVol));
+  // The reserve is an absolute share of the original order, even when re-planning
+  const reserveAuctionQty = Math.min(qty, Math.floor((order.orderQty * Math.max(0, order.reserveAuctionPct)) / 100));
+
+  const auctionAllowed =
+    order.capMode === "PCT" ? Math.floor((order.expectedAuctionVol * order.maxPart) / 100) : order.expectedAuctionVol;
+  const talVol = hasTalWindow(order) ? Math.max(0, order.expectedTalVol) : 0;
+  const talAllowed = order.capMode === "PCT" ? Math.floor((talVol * order.maxPart) / 100) : talVol;
+
+  const rows: BuiltRow[] = [];
+
+  if (order.execMode === "OTD") {
+    const targetContinuousQty = Math.max(0, qty - reserveAuctionQty);
+    let remaining = targetContinuousQty;
+
+    for (let i = 0; i < slices.length; i++) {
+      const sl = slices[i];
+      const sliceVol = Math.max(0, contVolPerSlice[i]);
+      let base = Math.floor(weights[i] * targetContinuousQty);
+      base = Math.min(base, remaining);
+      let suggested = applyCap(order.capMode, order.maxPart, base, sliceVol);
+
+      const isLast = i === slices.length - 1;
+      if (order.deferCompletion && !isLast) {
+        const keepBack = Math.ceil(targetContinuousQty * 0.05);
+        if (remaining - suggested <= 0) suggested = Math.max(0, remaining - keepBack);
+      }
+
+      suggested = Math.min(suggested, remaining);
+      remaining -= suggested;
+
+      rows.push({
+        interval: sl.label,
+        s: sl.s,
+        e: sl.e,
+        mins: sl.mins,
+        expMktVol: sliceVol,
+        maxAllowed: order.capMode === "PCT" ? Math.floor((sliceVol * order.maxPart) / 100) : "∞",
+        suggestedQty: suggested,
+      });
+    }
+
+    const contPlanned = rows.reduce((a, r) => a + r.suggestedQty, 0);
+    // Whatever wasn’t scheduled in continuous goes to auction, capped by auctionAllowed,
+    // and what the auction can't absorb spills into TAL, capped by talAllowed
+    const overflow = reserveAuctionQty + Math.max(0, targetContinuousQty - contPlanned);
+    const auctionPlanned = Math.min(overflow, auctionAllowed);
+    const talPlanned = Math.min(overflow - auctionPlanned, talAllowed);
+
+    return { rows, contPlanned, auctionAllowed, auctionPlanned, talAllowed, talPlanned };
+  }
+
+  // INLINE
+  const expectedTotalVol = (replan ? 0 : order.currentVol) + contVol + order.expectedAuctionVol + talVol;
+  const pov = expectedTotalVol > 0 ? Math.min(1, qty / expectedTotalVol) : 0;
+
+  for (let i = 0; i < slices.length; i++) {
+    const sl = slices[i];
+    const sliceVol = Math.max(0, contVolPerSlice[i]);
+    const base = Math.floor(sliceVol * pov);
+    const suggested = applyCap(order.capMode, order.maxPart, base, sliceVol);
+    rows.push({
+      interval: sl.label,
+      s: sl.s,
+      e: sl.e,
+      mins: sl.mins,
+      expMktVol: sliceVol,
+      maxAllowed: order.capMode === "PCT" ? Math.floor((sliceVol * order.maxPart) / 100) : "∞",
+      suggestedQty: suggested,
+    });
+  }
+
+  let contPlanned = rows.reduce((a, r) => a + r.suggestedQty, 0);
+  let auctionPlanned =
+    order.capMode === "PCT"
+      ? Math.floor((order.expectedAuctionVol * pov * order.maxPart) / 100)
+      : Math.floor(order.expectedAuctionVol * pov);
+
+  // Do not exceed total; shave auction or last slices if needed
+  let totalPlanned = contPlanned + auctionPlanned;
+  if (totalPlanned > qty) {
+    const excess = totalPlanned - qty;
+    if (order.deferCompletion) {
+      for (let i = rows.length - 1; i >= 0 && totalPlanned > qty; i--) {
+        const trim = Math.min(excess, rows[i].suggestedQty);
+        rows[i].suggestedQty -= trim;
+        totalPlanned -= trim;
+      }
+    } else {
+      auctionPlanned = Math.max(0, auctionPlanned - excess);
+    }
+  }
+  contPlanned = rows.reduce((a, r) => a + r.suggestedQty, 0);
+
+  // Leftovers go through the auction (up to its cap) and then TAL
+  let leftover = Math.max(0, qty - contPlanned - auctionPlanned);
+  const auctionTopUp = Math.min(leftover, Math.max(0, auctionAllowed - auctionPlanned));
+  auctionPlanned += auctionTopUp;
+  leftover -= auctionTopUp;
+  const talPlanned = Math.min(leftover, talAllowed);
+
+  return { rows, contPlanned, auctionAllowed, auctionPlanned, talAllowed, talPlanned };
+}
+
+/* -------------------- Row flags -------------------- */
+// Impact flag if suggested >25% of expected vol
+export const IMPACT_SHARE = 0.25;
+export function isImpactRow(r: BuiltRow, share = IMPACT_SHARE) {
+  return r.expMktVol > 0 && r.suggestedQty / r.expMktVol > share;
+}
+export function isCapBound(r: BuiltRow) {
+  return typeof r.maxAllowed === "number" && r.suggestedQty >= r.maxAllowed;
+}
+
+/* -------------------- Adaptive re-plan -------------------- */
+// Slices still ahead of `from`; the live slice is cut to start at `from` and keeps its share of weight
+export function remainingSlices(slices: Slice[], weights: number[], from: string) {
+  const out: Slice[] = [];
+  const w: number[] = [];
+  slices.forEach((sl, i) => {
+    if (from >= sl.e) return;
+    if (from > sl.s) {
+      const mins = Math.max(0, minutesBetween(from, sl.e));
+      out.push({ s: from, e: sl.e, label: `${from} – ${sl.e}`, mins });
+      w.push(sl.mins > 0 ? (weights[i] * mins) / sl.mins : 0);
+    } else {
+      out.push(sl);
+      w.push(weights[i]);
+    }
+  });
+  const sum = w.reduce((a, b) => a + b, 0);
+  return { slices: out, weights: sum > 0 ? w.map((x) => x / sum) : w };
+}
+
+// Expected continuous market volume between session start and `now`, per the original plan
+export function expectedVolUpTo(plan: BuiltPlan, now: string) {
+  let acc = 0;
+  for (const r of plan.rows) {
+    if (now >= r.e) acc += r.expMktVol;
+    else if (now > r.s) {
+      const frac = r.mins > 0 ? clamp(minutesBetween(r.s, now), 0, r.mins) / r.mins : 0;
+      acc += Math.floor(r.expMktVol * frac);
+    }
+  }
+  return acc;
+}
+
+/**
+ * Re-plan from "now": remaining qty = orderQty − executed, and the curve's
+ * remaining continuous volume scaled by how realized market volume compares
+ * with what the original plan expected by now (clamped to 0.25×–4×).
+ */
+export function replanInputs(order: Order, original: BuiltPlan, now: string): ReplanInput & { volRatio: number } {
+  const executed = fillTotals(order.fills).qty;
+  const from = now > order.sessionStart ? now : order.sessionStart;
+  const expectedSoFar = expectedVolUpTo(original, from);
+  const realized = Math.max(0, order.currentVol - order.startVol);
+  const volRatio = realized > 0 && expectedSoFar > 0 ? clamp(realized / expectedSoFar, 0.25, 4) : 1;
+  const curveRemaining = Math.max(0, order.expectedContVol - expectedSoFar);
+  return {
+    from,
+    qty: Math.max(0, order.orderQty - executed),
+    contVol: Math.floor(curveRemaining * volRatio),
+    volRatio,
+  };
+}
+
+/* -------------------- Accumulated Suggested (time-aware) -------------------- */
+// `skip` holds slice starts that don't count (e.g. market out of limit)
+export function accumulatedSuggested(plan: BuiltPlan, sessionStart: string, now: string, skip: string[] = []) {
+  let acc = 0;
+  for (const r of plan.rows) {
+    if (skip.includes(r.s)) {
+      if (now < r.e) break;
+      continue;
+    }
+    if (now >= r.e) acc += r.suggestedQty;
+    else if (now > r.s && now < r.e) {
+      const elapsed = clamp(minutesBetween(r.s, now), 0, r.mins);
+      const frac = r.mins > 0 ? elapsed / r.mins : 0;
+      acc += Math.floor(r.suggestedQty * frac);
+      break;
+    } else if (now < r.s) {
+      break;
+    }
+  }
+  return acc;
+}
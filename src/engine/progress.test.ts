@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import type { Order, Snapshot } from "./types";
+import { defaultOrder } from "./order";
+import { buildPlan, finalEnd } from "./plan";
+import { progressSeries } from "./progress";
+
+const snap = (at: string, currentVol: number, orderExecQty: number, orderExecNotional: number, marketTurnover: number): Snapshot => ({
+  at, currentVol, orderExecQty, orderExecNotional, marketTurnover,
+  expectedContVol: 0, expectedAuctionVol: 0, marketVWAPInput: 0,
+});
+const order = (o: Partial<Order> = {}): Order => ({ ...defaultOrder("BUY"), orderQty: 10_000, startVol: 1_000, ...o });
+
+describe("progressSeries", () => {
+  it("runs the cumulative plan from zero to the full plan over the session", () => {
+    const o = order();
+    const plan = buildPlan(o);
+    const s = progressSeries(o, plan);
+    expect(s.start).toBe(o.sessionStart);
+    expect(s.end).toBe(finalEnd(o));
+    expect(s.planned[0]).toEqual({ at: o.sessionStart, qty: 0 });
+    expect(s.planned[s.planned.length - 1].qty).toBe(Math.min(o.orderQty, plan.contPlanned + plan.auctionPlanned + plan.talPlanned));
+    expect(s.boundaries).toEqual(plan.rows.map((r) => r.s));
+    expect(s.windows.map((w) => w.kind)).toContain("AUCTION");
+  });
+
+  it("derives interval participation and both VWAPs from consecutive snapshots", () => {
+    const o = order({
+      snapshots: [snap("10:30:00", 21_000, 1_000, 10_500, 210_000), snap("10:00:00", 11_000, 500, 5_000, 100_000)],
+    });
+    const pts = progressSeries(o, buildPlan(o)).points;
+    expect(pts.map((p) => p.at)).toEqual(["10:00:00", "10:30:00"]);
+    expect(pts[0].participation).toBeCloseTo(0.05); // 500 of the 10,000 since start
+    expect(pts[1].participation).toBeCloseTo(0.05);
+    expect(pts[1].orderVWAP).toBeCloseTo(10.5);
+    expect(pts[1].marketVWAP).toBeCloseTo(10.5);
+    expect(pts[0].marketVWAP).toBeCloseTo(10);
+  });
+
+  it("leaves participation empty when the market did not trade between snapshots", () => {
+    const o = order({ snapshots: [snap("10:00:00", 11_000, 500, 5_000, 100_000), snap("10:05:00", 11_000, 500, 5_000, 100_000)] });
+    expect(progressSeries(o, buildPlan(o)).points[1].participation).toBeNull();
+  });
+});
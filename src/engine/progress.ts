@@ -0,0 +1,63 @@
+import type { Order } from "./types";
+import { finalEnd, hasTalWindow, type BuiltPlan } from "./plan";
+import { planTarget } from "./sim";
+import { impliedMarketVWAP } from "./analytics";
+
+/* -------------------- Intraday progress -------------------- */
+export type ProgressPoint = {
+  at: string; // HH:MM:SS of the snapshot
+  suggested: number; // cumulative plan by then
+  executed: number;
+  participation: number | null; // order / market volume since the previous snapshot, 0–1+; null = no market volume
+  orderVWAP: number; // 0 = nothing executed yet
+  marketVWAP: number; // 0 = unknown
+};
+
+export type ProgressWindow = { kind: "BREAK" | "AUCTION" | "TAL"; start: string; end: string };
+
+export type ProgressSeries = {
+  start: string; // HH:MM, session start
+  end: string; // HH:MM, last moment the order can trade
+  planned: { at: string; qty: number }[]; // cumulative plan at each boundary
+  points: ProgressPoint[];
+  boundaries: string[]; // slice starts
+  windows: ProgressWindow[];
+};
+
+/**
+ * How the day unfolded, from the snapshot journal: cumulative plan vs
+ * executed, realized participation between consecutive snapshots and order
+ * vs market VWAP, on the session's own timeline.
+ */
+export function progressSeries(order: Order, plan: BuiltPlan): ProgressSeries {
+  const windows: ProgressWindow[] = order.breaks.map((b) => ({ kind: "BREAK" as const, start: b.start, end: b.end }));
+  windows.push({ kind: "AUCTION", start: order.auctionStart, end: order.auctionEnd });
+  if (hasTalWindow(order)) windows.push({ kind: "TAL", start: order.talStart, end: order.talEnd });
+
+  const times = [order.sessionStart, ...plan.rows.map((r) => r.e), ...windows.flatMap((w) => (w.kind === "BREAK" ? [] : [w.start, w.end]))];
+  const planned = [...new Set(times)].sort().map((at) => ({ at, qty: planTarget(order, plan, at) }));
+
+  const snaps = [...order.snapshots].sort((a, b) => (a.at < b.at ? -1 : a.at > b.at ? 1 : 0));
+  const points = snaps.map((s, i): ProgressPoint => {
+    const prev = snaps[i - 1];
+    const dMkt = prev ? s.currentVol - prev.currentVol : s.currentVol - order.startVol;
+    const dExec = s.orderExecQty - (prev ? prev.orderExecQty : 0);
+    return {
+      at: s.at,
+      suggested: planTarget(order, plan, s.at.slice(0, 5)),
+      executed: s.orderExecQty,
+      participation: dMkt > 0 ? Math.max(0, dExec) / dMkt : null,
+      orderVWAP: s.orderExecQty > 0 ? s.orderExecNotional / s.orderExecQty : 0,
+      marketVWAP: impliedMarketVWAP(s.marketTurnover, s.currentVol - order.startVol, s.marketVWAPInput),
+    };
+  });
+
+  return {
+    start: order.sessionStart,
+    end: finalEnd(order),
+    planned,
+    points,
+    boundaries: plan.rows.map((r) => r.s),
+    windows,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { Order } from "./types";
+import { defaultOrder } from "./order";
+import { buildPlan } from "./plan";
+import { dueReminders, stampUpdate, staleness } from "./reminders";
+
+// Qatar defaults: continuous 09:30–13:00 in 30-min slices, auction 13:00–13:10, TAL 13:10–13:15
+const order = (o: Partial<Order> = {}): Order => ({ ...defaultOrder("BUY"), staleAfterMins: 0, ...o });
+const due = (o: Order, now: string, fired: string[] = []) => dueReminders(o, buildPlan(o), now, new Set(fired));
+const keys = (o: Order, now: string, fired: string[] = []) => due(o, now, fired).map((r) => r.key);
+
+describe("dueReminders", () => {
+  it("fires slice boundaries once and catches up within the grace window", () => {
+    expect(keys(order(), "10:00")).toEqual(["slice@10:00"]);
+    expect(keys(order(), "10:04")).toEqual(["slice@10:00"]);
+    expect(keys(order(), "10:04", ["slice@10:00"])).toEqual([]);
+    expect(keys(order(), "10:07")).toEqual([]);
+  });
+
+  it("anchors every-N-minute reminders to the open", () => {
+    const o = order({ sliceReminders: false, remindEveryMins: 20 });
+    expect(keys(o, "09:50")).toEqual(["every@09:50"]);
+    expect(keys(o, "09:45")).toEqual([]);
+  });
+
+  it("reminds ahead of the close and at auction and TAL start", () => {
+    const o = order({ sliceReminders: false, remindEveryMins: 600, sessionEndLeadMins: 10 });
+    expect(due(o, "12:50").map((r) => r.kind)).toEqual(["SESSION_END"]);
+    expect(due(o, "13:00").map((r) => r.kind)).toEqual(["AUCTION"]);
+    expect(due(o, "13:10").map((r) => r.kind)).toEqual(["TAL"]);
+    expect(keys({ ...o, eventReminders: false }, "13:00")).toEqual([]);
+  });
+
+  it("escalates each further period without an update, critical from the second", () => {
+    const o = order({ sliceReminders: false, remindEveryMins: 600, eventReminders: false, staleAfterMins: 15, lastUpdateAt: "10:00:12" });
+    expect(due(o, "10:10")).toEqual([]);
+    const [warn] = due(o, "10:15");
+    expect([warn.key, warn.level, warn.stage]).toEqual(["stale@10:00@1", "WARN", 1]);
+    const [crit] = due(o, "10:31", ["stale@10:00@1"]);
+    expect([crit.level, crit.stage]).toEqual(["CRIT", 2]);
+    expect(due(o, "10:31", ["stale@10:00@1", "stale@10:00@2"])).toEqual([]);
+  });
+
+  it("stays quiet for completed or fully executed orders", () => {
+    expect(keys(order({ completed: true }), "10:00")).toEqual([]);
+    expect(keys(order({ orderExecQty: 1_600_000 }), "10:00")).toEqual([]);
+  });
+});
+
+describe("staleness", () => {
+  it("counts from the open when the last update was before it", () => {
+    expect(staleness(order({ staleAfterMins: 15, lastUpdateAt: "08:00:00" }), "10:00")).toEqual({ since: "09:30", mins: 30, stage: 2 });
+  });
+
+  it("stamps only market and exec changes", () => {
+    const o = order();
+    expect(stampUpdate(o, { ...o, name: "X" }, "10:00:00").lastUpdateAt).toBeUndefined();
+    expect(stampUpdate(o, { ...o, currentVol: 5 }, "10:00:00").lastUpdateAt).toBe("10:00:00");
+  });
+});
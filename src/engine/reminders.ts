@@ -0,0 +1,97 @@
+import type { AlertLevel, Order } from "./types";
+import { finalEnd, hasTalWindow, sessionPhase, type BuiltPlan } from "./plan";
+import { addMinutes, minutesBetween } from "./time";
+
+/* -------------------- Reminders -------------------- */
+export type ReminderKind = "SLICE" | "EVERY" | "AUCTION" | "TAL" | "SESSION_END" | "STALE";
+
+export type Reminder = {
+  key: string; // one occurrence; a scheduler fires each key once
+  kind: ReminderKind;
+  level: AlertLevel;
+  title: string;
+  body: string;
+  stage: number; // 0 = routine, 1+ = escalation step for stale data
+};
+
+// A missed occurrence (sleeping laptop, throttled tab) still fires if caught this late
+export const REMINDER_GRACE_MINS = 5;
+
+// Any change to the fields a dealer refreshes through the day counts as an update
+export function stampUpdate(prev: Order, next: Order, at: string): Order {
+  const touched =
+    prev.currentVol !== next.currentVol ||
+    prev.marketTurnover !== next.marketTurnover ||
+    prev.orderExecQty !== next.orderExecQty ||
+    prev.orderExecNotional !== next.orderExecNotional;
+  return touched ? { ...next, lastUpdateAt: at } : next;
+}
+
+// Minutes without an update, counted from the open at the earliest; stage = whole `staleAfterMins` periods
+export function staleness(order: Order, now: string) {
+  const last = order.lastUpdateAt?.slice(0, 5) || "";
+  const since = last > order.sessionStart ? last : order.sessionStart;
+  const mins = Math.max(0, minutesBetween(since, now));
+  return { since, mins, stage: order.staleAfterMins > 0 ? Math.floor(mins / order.staleAfterMins) : 0 };
+}
+
+/**
+ * Reminders due for an order at `now` (HH:MM exchange time) that are not in
+ * `fired` yet: the routine slice-boundary / every-N-minutes nudge, auction and
+ * TAL start, the lead before the continuous close, and an escalation for each
+ * further `staleAfterMins` period the market / exec fields go unupdated while
+ * the market trades (critical from the second period).
+ */
+export function dueReminders(order: Order, plan: BuiltPlan, now: string, fired: ReadonlySet<string>): Reminder[] {
+  const out: Reminder[] = [];
+  const left = Math.max(0, order.orderQty - order.orderExecQty);
+  if (order.completed || left <= 0) return out;
+  const within = (at: string) => now >= at && minutesBetween(at, now) <= REMINDER_GRACE_MINS;
+  const push = (r: Reminder) => !fired.has(r.key) && out.push(r);
+  const routine = { kind: "SLICE" as const, level: "INFO" as const, stage: 0, title: `${order.name}: update market & exec` };
+  const leftTxt = `${left.toLocaleString("en-US")} left`;
+
+  if (order.sliceReminders) {
+    const edge = [...plan.rows].reverse().find((r) => r.e <= now);
+    if (edge && within(edge.e)) {
+      push({ ...routine, key: `slice@${edge.e}`, body: `Slice ${edge.interval} closed — refresh Current Vol, Exec Qty/Notional; pacing & coach will adjust.` });
+    }
+  } else {
+    const every = Math.max(1, order.remindEveryMins);
+    const n = Math.floor(minutesBetween(order.sessionStart, now) / every);
+    const at = addMinutes(order.sessionStart, n * every);
+    if (n > 0 && at <= finalEnd(order) && within(at)) {
+      push({ ...routine, kind: "EVERY", key: `every@${at}`, body: "Please refresh Current Vol, Exec Qty/Notional; pacing & coach will adjust." });
+    }
+  }
+
+  if (order.eventReminders) {
+    const lead = order.sessionEndLeadMins;
+    const leadAt = addMinutes(order.sessionEnd, -lead);
+    if (lead > 0 && leadAt > order.sessionStart && within(leadAt)) {
+      push({ key: `end@${leadAt}`, kind: "SESSION_END", level: "WARN", stage: 0, title: `${order.name}: continuous ends in ${lead} min`, body: `Continuous trading ends ${order.sessionEnd} — ${leftTxt}.` });
+    }
+    if (within(order.auctionStart)) {
+      push({ key: `auction@${order.auctionStart}`, kind: "AUCTION", level: "WARN", stage: 0, title: `${order.name}: closing auction open`, body: `Auction ${order.auctionStart}–${order.auctionEnd} — ${leftTxt}.` });
+    }
+    if (hasTalWindow(order) && within(order.talStart)) {
+      push({ key: `tal@${order.talStart}`, kind: "TAL", level: "WARN", stage: 0, title: `${order.name}: trading at last open`, body: `TAL ${order.talStart}–${order.talEnd} — ${leftTxt}.` });
+    }
+  }
+
+  const phase = sessionPhase(order, now);
+  if (phase === "CONTINUOUS" || phase === "AUCTION" || phase === "TAL") {
+    const st = staleness(order, now);
+    if (st.stage >= 1) {
+      push({
+        key: `stale@${st.since}@${st.stage}`,
+        kind: "STALE",
+        level: st.stage >= 2 ? "CRIT" : "WARN",
+        stage: st.stage,
+        title: `${order.name}: no update for ${st.mins} min`,
+        body: `Current Vol and exec fields unchanged since ${st.since} — refresh them; pacing is running blind.`,
+      });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { defaultOrder } from "./order";
+import { buildPlan } from "./plan";
+import { dayReportHtml, orderReportHtml } from "./report";
+
+const opts = { tradeDate: "2026-10-19", generatedAt: "2026-10-19 14:00" };
+
+describe("execution reports", () => {
+  it("escapes user text in the order report", () => {
+    const order = { ...defaultOrder("BUY"), name: "<b>Client & Co</b>" };
+    const html = orderReportHtml({ order, plan: buildPlan(order), now: "13:15" }, opts);
+    expect(html).toContain("&lt;b&gt;Client &amp; Co&lt;/b&gt;");
+    expect(html).not.toContain("<b>Client");
+    expect(html).toContain("No fills.");
+  });
+
+  it("puts a summary row per order ahead of the order pages", () => {
+    const items = [defaultOrder("BUY", 1), defaultOrder("SELL", 2)].map((order) => ({ order, plan: buildPlan(order), now: "13:15" }));
+    const html = dayReportHtml(items, opts);
+    expect(html).toContain("Daily execution report — 2026-10-19");
+    expect(html.match(/<section>/g)).toHaveLength(3);
+    expect(html.indexOf("Buy 1")).toBeLessThan(html.indexOf("<h2>Buy 1"));
+  });
+});
@@ -0,0 +1,143 @@
+import type { Order } from "./types";
+import type { BuiltPlan } from "./plan";
+import { aggregateOrders, hasLimit, postTradeSummary } from "./analytics";
+import { changeLogTable, complianceTable, fillsTable, planTable, snapshotTable, type Table } from "./export";
+import { complianceReport } from "./compliance";
+
+/* -------------------- Printable execution report -------------------- */
+// `now` is the order's exchange time (or its final end for a past day); it bounds the TWAP
+export type ReportItem = { order: Order; plan: BuiltPlan; now: string };
+export type ReportOptions = { tradeDate: string; generatedAt: string };
+
+const esc = (v: string | number) =>
+  String(v).replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+function num(v: string | number) {
+  if (typeof v !== "number") return v;
+  return v.toLocaleString("en-US", { maximumFractionDigits: Number.isInteger(v) ? 0 : 4 });
+}
+const price = (p: number) => (p ? num(p) : "—");
+const bps = (b: number, p: number) => (p && Number.isFinite(b) ? `${b.toFixed(1)} bps` : "—");
+
+function htmlTable(t: Table, empty = "None.") {
+  if (t.rows.length === 0) return `<p class="muted">${esc(empty)}</p>`;
+  const head = t.header.map((h) => `<th>${esc(h.replace(/_/g, " "))}</th>`).join("");
+  const body = t.rows
+    .map((r) => `<tr>${r.map((c) => `<td${typeof c === "number" ? ' class="n"' : ""}>${esc(num(c))}</td>`).join("")}</tr>`)
+    .join("");
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+const stat = (label: string, value: string | number) =>
+  `<div class="stat"><div class="muted">${esc(label)}</div><div class="v">${esc(value)}</div></div>`;
+
+function complianceSection(order: Order, plan: BuiltPlan) {
+  const r = complianceReport(order, plan);
+  if (r.capPct === null) return `<p class="muted">No participation cap on this order.</p>`;
+  const session = r.session.participation === null ? "—" : `${(r.session.participation * 100).toFixed(2)}%`;
+  const verdict = r.breaches === 0 ? "Within cap" : `${r.breaches} breach(es), ${num(r.excessQty)} over · worst ${r.worst}`;
+  return `<div class="stats">
+${stat("Max participation", `${r.capPct}%`)}
+${stat("Realized (session)", session)}
+${stat("Compliance", verdict)}
+</div>
+${htmlTable(complianceTable(r), "No market volume observed yet.")}`;
+}
+
+function orderSection({ order, plan, now }: ReportItem) {
+  const s = postTradeSummary(order, now);
+  const chosen = s.benchmarks[0];
+  const terms = [
+    `${order.execMode} · ${order.capMode === "PCT" ? `max ${order.maxPart}% participation` : "no cap"}`,
+    `auction reserve ${order.reserveAuctionPct}%`,
+    `session ${order.sessionStart}–${order.sessionEnd}, auction ${order.auctionStart}–${order.auctionEnd}`,
+    hasLimit(order) ? `limit ${num(order.limitPrice)}` : "no limit",
+  ];
+  const benchmarks: Table = {
+    header: ["benchmark", "price", "slippage"],
+    rows: s.benchmarks.map((b) => [b.label + (b.benchmark === order.benchmark ? " (chosen)" : ""), price(b.price), bps(b.bps, b.price)]),
+  };
+  return `<section>
+<h2>${esc(order.name)} — ${esc(order.side)} ${esc(num(order.orderQty))} ${esc(order.symbol)}${order.market ? ` · ${esc(order.market)}` : ""}</h2>
+<p class="muted">${terms.map(esc).join(" · ")}${order.completed ? "" : " · <b>not marked completed</b>"}</p>
+<div class="stats">
+${stat("Final Completion", `${s.completionPct}%`)}
+${stat("Executed", num(s.executedQty))}
+${stat("Order VWAP", price(s.orderVWAP))}
+${stat("Market VWAP", price(s.marketVWAP))}
+${stat(`Slippage vs ${chosen.label}`, bps(chosen.bps, chosen.price))}
+</div>
+<h3>Benchmarks</h3>
+${htmlTable(benchmarks)}
+<h3>Plan</h3>
+${htmlTable(planTable(order, plan))}
+<h3>Participation cap</h3>
+${complianceSection(order, plan)}
+<h3>Fills</h3>
+${htmlTable(fillsTable(order), "No fills.")}
+<h3>Snapshots</h3>
+${htmlTable(snapshotTable(order), "No snapshots.")}
+<h3>Parameter changes</h3>
+${htmlTable(changeLogTable(order), "No changes.")}
+</section>`;
+}
+
+function page(title: string, opts: ReportOptions, body: string) {
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${esc(title)}</title>
+<style>
+body{font:12px/1.4 system-ui,sans-serif;color:#0f172a;margin:24px}
+h1{font-size:18px;margin:0 0 4px}h2{font-size:15px;margin:16px 0 2px}h3{font-size:12px;margin:12px 0 4px}
+table{border-collapse:collapse;width:100%}th,td{border:1px solid #cbd5e1;padding:3px 6px;text-align:left}
+th{background:#f1f5f9;text-transform:capitalize}td.n{text-align:right;font-variant-numeric:tabular-nums}
+.muted{color:#64748b}.stats{display:flex;gap:8px;flex-wrap:wrap}.stat{border:1px solid #cbd5e1;border-radius:6px;padding:4px 8px}
+.stat .v{font-weight:600;font-size:14px}section+section{page-break-before:always}
+@media print{.no-print{display:none}body{margin:0}}
+</style></head><body>
+<button class="no-print" onclick="window.print()">Print / Save as PDF</button>
+<h1>${esc(title)}</h1>
+<p class="muted">Trade date ${esc(opts.tradeDate)} · generated ${esc(opts.generatedAt)}</p>
+${body}
+</body></html>
+`;
+}
+
+export function orderReportHtml(item: ReportItem, opts: ReportOptions) {
+  return page(`Execution report — ${item.order.name}`, opts, orderSection(item));
+}
+
+export function complianceReportHtml({ order, plan }: ReportItem, opts: ReportOptions) {
+  const body = `<section>
+<h2>${esc(order.name)} — ${esc(order.side)} ${esc(num(order.orderQty))} ${esc(order.symbol)}${order.market ? ` · ${esc(order.market)}` : ""}</h2>
+<p class="muted">Realized participation per slice from the snapshot journal and fills, against the order's cap.</p>
+${complianceSection(order, plan)}
+</section>`;
+  return page(`Participation-cap compliance — ${order.name}`, opts, body);
+}
+
+// Day summary table first, then one section (page) per order
+export function dayReportHtml(items: ReportItem[], opts: ReportOptions) {
+  const ag = aggregateOrders(items.map((i) => i.order));
+  const summary: Table = {
+    header: ["order", "side", "symbol", "qty", "executed", "completion", "order_vwap", "benchmark", "slippage"],
+    rows: items.map(({ order, now }) => {
+      const s = postTradeSummary(order, now);
+      const b = s.benchmarks[0];
+      return [
+        order.name, order.side, order.symbol, order.orderQty, s.executedQty, `${s.completionPct}%`,
+        price(s.orderVWAP), b.label, bps(b.bps, b.price),
+      ];
+    }),
+  };
+  const head = `<section>
+<div class="stats">
+${stat("Orders", items.length)}
+${stat("Total Qty", num(ag.qtyTotal))}
+${stat("Executed", num(ag.execQty))}
+${stat("Executed Notional", num(Math.round(ag.execNotional)))}
+</div>
+<h3>Orders</h3>
+${htmlTable(summary, "No orders.")}
+</section>`;
+  return page(`Daily execution report — ${opts.tradeDate}`, opts, [head, ...items.map(orderSection)].join("\n"));
+}
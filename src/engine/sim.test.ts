@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Order } from "./types";
+import { clearExecution, defaultOrder } from "./order";
+import { buildPlan } from "./plan";
+import { fillTotals } from "./fills";
+import { nowHHMM, setClock, todayISO, zonedEpoch } from "./time";
+import {
+  createSimClock, planTarget, recordedTape, replayStep, simStep, snapshotTape, syntheticTape, tapeAt,
+} from "./sim";
+
+const order = (o: Partial<Order> = {}): Order => ({ ...defaultOrder("BUY"), id: "o1", ...o });
+
+afterEach(() => {
+  setClock();
+  vi.useRealTimers();
+});
+
+describe("sim clock", () => {
+  it("drives every 'now' reader and runs at the chosen speed", () => {
+    vi.useFakeTimers();
+    const start = zonedEpoch("2026-10-19", "09:29", "Asia/Qatar");
+    const clock = createSimClock(start);
+    setClock(clock);
+    expect(nowHHMM("Asia/Qatar")).toBe("09:29");
+    expect(todayISO("Asia/Qatar")).toBe("2026-10-19");
+
+    clock.setSpeed(60);
+    clock.play();
+    vi.advanceTimersByTime(10_000);
+    expect(nowHHMM("Asia/Qatar")).toBe("09:39");
+    clock.pause();
+    vi.advanceTimersByTime(10_000);
+    expect(nowHHMM("Asia/Qatar")).toBe("09:39");
+    clock.seek(start);
+    expect(nowHHMM("Asia/Qatar")).toBe("09:29");
+  });
+
+  it("converts exchange wall time to epoch", () => {
+    expect(new Date(zonedEpoch("2026-10-19", "09:30", "Asia/Qatar")).toISOString()).toBe("2026-10-19T06:30:00.000Z");
+    expect(new Date(zonedEpoch("2026-07-01", "10:00", "Africa/Cairo")).toISOString()).toBe("2026-07-01T07:00:00.000Z");
+  });
+});
+
+describe("tapes", () => {
+  it("synthesizes a reproducible tape around the expected volumes", () => {
+    const o = order();
+    const a = syntheticTape(o, undefined, { seed: 7, price: 18 });
+    expect(syntheticTape(o, undefined, { seed: 7, price: 18 })).toEqual(a);
+    expect(a[0]).toEqual({ at: "09:30", vol: 0, turnover: 0, price: 18 });
+    const cont = tapeAt(a, "13:00")!.vol;
+    expect(cont / o.expectedContVol).toBeGreaterThan(0.8);
+    expect(cont / o.expectedContVol).toBeLessThan(1.2);
+    expect(tapeAt(a, "13:10")!.vol).toBeGreaterThan(cont + 0.7 * o.expectedAuctionVol);
+    expect(a[a.length - 1].at).toBe("13:15");
+  });
+
+  it("accumulates a recorded per-bucket tape", () => {
+    const { tape, errors } = recordedTape("time,volume,price\n09:31,1000,10\n09:32,500,10.2\n09:33,x,1");
+    expect(errors).toEqual(["Row 4: invalid time/volume/price."]);
+    expect(tape[1]).toEqual({ at: "09:32", vol: 1500, turnover: 15_100, price: 10.2 });
+    expect(tapeAt(tape, "09:30")).toBeUndefined();
+  });
+});
+
+describe("simStep", () => {
+  const o = clearExecution(order({ capMode: "NONE", orderQty: 100_000 }));
+  const plan = buildPlan(o);
+  const tape = syntheticTape(o, undefined, { seed: 1, price: 10 });
+
+  it("feeds market fields and fills up to the plan", () => {
+    const s = simStep(o, plan, tape, "11:00");
+    expect(s.currentVol).toBe(tapeAt(tape, "11:00")!.vol);
+    expect(s.lastPrice).toBe(tapeAt(tape, "11:00")!.price);
+    expect(s.arrivalPrice).toBe(10);
+    expect(s.orderExecQty).toBe(planTarget(o, plan, "11:00"));
+    expect(s.fills[0]).toMatchObject({ at: "11:00:00", venue: "SIM", kind: "FILL" });
+    // same minute again → nothing new
+    expect(simStep(s, plan, tape, "11:00").fills).toHaveLength(1);
+  });
+
+  it("lags the plan by the fill ratio and completes at the close", () => {
+    let s = o;
+    for (const t of ["10:00", "11:00", "12:00", "13:00", "13:10", "13:15"]) s = simStep(s, plan, tape, t, 0.5);
+    expect(fillTotals(s.fills).qty).toBe(Math.floor(o.orderQty * 0.5));
+    expect(s.closePrice).toBe(tapeAt(tape, "13:10")!.price);
+    expect(s.completed).toBe(true);
+  });
+});
+
+describe("replayStep", () => {
+  it("reveals the recorded fills and snapshots as the clock passes them", () => {
+    const recorded = order({
+      startVol: 1_000,
+      fills: [
+        { id: "a", at: "09:45:10", qty: 100, price: 10, kind: "FILL" },
+        { id: "b", at: "10:20:00", qty: 200, price: 10.1, kind: "FILL" },
+      ],
+      snapshots: [
+        { at: "10:00:00", currentVol: 50_000, expectedContVol: 0, expectedAuctionVol: 0, orderExecQty: 100, orderExecNotional: 1_000, marketTurnover: 495_000, marketVWAPInput: 0, lastPrice: 9.95 },
+      ],
+    });
+    const start = clearExecution(recorded);
+    const tape = snapshotTape(recorded);
+    const at1005 = replayStep(start, recorded, tape, "10:05");
+    expect(at1005.orderExecQty).toBe(100);
+    expect(at1005.snapshots).toHaveLength(1);
+    expect(at1005).toMatchObject({ currentVol: 50_000, marketTurnover: 495_000, lastPrice: 9.95 });
+    expect(replayStep(at1005, recorded, tape, "10:20").orderExecQty).toBe(300);
+  });
+});
@@ -0,0 +1,225 @@
+import type { Fill, Order } from "./types";
+import type { VolumeCurve } from "./curves";
+import { accumulatedSuggested, buildPlan, finalEnd, hasTalWindow, type BuiltPlan } from "./plan";
+import { addMinutes, clamp, minutesBetween, normalizeHHMM, type ClockSource } from "./time";
+import { fillTotals, newFillId, withFills } from "./fills";
+import { parseCsv } from "./csv";
+
+/* -------------------- Simulation clock -------------------- */
+export type SimClock = ClockSource & {
+  playing: () => boolean;
+  speed: () => number;
+  play: () => void;
+  pause: () => void;
+  setSpeed: (x: number) => void;
+  seek: (epochMs: number) => void;
+};
+
+// Starts paused at `startMs`; while playing, runs `speed`× real time
+export function createSimClock(startMs: number, speed = 1): SimClock {
+  let base = startMs;
+  let anchor = Date.now();
+  let playing = false;
+  let rate = speed;
+  const now = () => (playing ? base + (Date.now() - anchor) * rate : base);
+  const rebase = () => {
+    base = now();
+    anchor = Date.now();
+  };
+  return {
+    now,
+    rate: () => rate,
+    playing: () => playing,
+    speed: () => rate,
+    play: () => {
+      rebase();
+      playing = true;
+    },
+    pause: () => {
+      rebase();
+      playing = false;
+    },
+    setSpeed: (x) => {
+      rebase();
+      rate = x;
+    },
+    seek: (epochMs) => {
+      base = epochMs;
+      anchor = Date.now();
+    },
+  };
+}
+
+/* -------------------- Market tape -------------------- */
+// Cumulative market volume / turnover since the open, and the last price, as of HH:MM
+export type TapePoint = { at: string; vol: number; turnover: number; price: number };
+export type Tape = TapePoint[];
+
+// Deterministic PRNG so a seed replays the same day
+function rng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export type SyntheticTapeOptions = {
+  seed: number;
+  price: number; // opening price
+  volScale?: number; // realized vs expected volume (1 = as planned)
+  volatilityBps?: number; // per-minute price noise
+};
+
+/**
+ * Minute-by-minute tape that follows the order's own volume expectations:
+ * continuous volume along its slice curve (±50% noise per minute), the whole
+ * auction volume at the match and TAL volume spread over the TAL window at the
+ * auction price. Breaks carry no volume.
+ */
+export function syntheticTape(order: Order, hist: VolumeCurve | undefined, opts: SyntheticTapeOptions): Tape {
+  const rand = rng(opts.seed);
+  const scale = opts.volScale ?? 1;
+  const sigma = (opts.volatilityBps ?? 8) / 10000;
+  const plan = buildPlan(order, hist);
+  const tape: Tape = [{ at: order.sessionStart, vol: 0, turnover: 0, price: opts.price }];
+  let vol = 0;
+  let turnover = 0;
+  let price = opts.price;
+  const push = (at: string, v: number) => {
+    vol += v;
+    turnover += v * price;
+    tape.push({ at, vol, turnover, price });
+  };
+
+  for (const r of plan.rows) {
+    for (let m = 1; m <= r.mins; m++) {
+      // sum of uniforms ≈ normal, mean 0, sd 1
+      const z = (rand() + rand() + rand() + rand() - 2) * Math.sqrt(3);
+      price = Math.max(0.001, price * (1 + sigma * z));
+      push(addMinutes(r.s, m), Math.round(((r.expMktVol / Math.max(1, r.mins)) * (0.5 + rand())) * scale));
+    }
+  }
+  push(order.auctionEnd, Math.round(order.expectedAuctionVol * scale * (0.75 + rand() / 2)));
+  if (hasTalWindow(order)) {
+    const mins = Math.max(1, minutesBetween(order.talStart, order.talEnd));
+    for (let m = 1; m <= mins; m++) push(addMinutes(order.talStart, m), Math.round((order.expectedTalVol * scale) / mins));
+  }
+  return tape;
+}
+
+/**
+ * Recorded tape from CSV `time,volume,price[,turnover]` — per-bucket volume,
+ * stamped at the bucket's end. Turnover defaults to volume × price.
+ */
+export function recordedTape(text: string): { tape: Tape; errors: string[] } {
+  const rows = parseCsv(text);
+  if (rows.length < 2) return { tape: [], errors: ["Need a header row and at least one data row."] };
+  const header = rows[0].map((h) => h.toLowerCase());
+  const iTime = header.findIndex((h) => h === "time" || h === "bucket");
+  const iVol = header.findIndex((h) => h === "volume" || h === "vol");
+  const iPrice = header.findIndex((h) => h === "price" || h === "last");
+  const iTurn = header.indexOf("turnover");
+  if (iTime < 0 || iVol < 0 || iPrice < 0) return { tape: [], errors: ["Tape needs time, volume and price columns."] };
+
+  const errors: string[] = [];
+  const points: { at: string; v: number; p: number; t: number }[] = [];
+  rows.slice(1).forEach((r, idx) => {
+    const at = normalizeHHMM(r[iTime] || "");
+    const v = parseFloat((r[iVol] || "").replace(/,/g, ""));
+    const p = parseFloat((r[iPrice] || "").replace(/,/g, ""));
+    const t = iTurn >= 0 ? parseFloat((r[iTurn] || "").replace(/,/g, "")) : v * p;
+    if (!at || !Number.isFinite(v) || v < 0 || !(p > 0) || !Number.isFinite(t)) {
+      errors.push(`Row ${idx + 2}: invalid time/volume/price.`);
+      return;
+    }
+    points.push({ at, v, p, t });
+  });
+  points.sort((a, b) => (a.at < b.at ? -1 : a.at > b.at ? 1 : 0));
+  let vol = 0;
+  let turnover = 0;
+  const tape = points.map((x) => {
+    vol += x.v;
+    turnover += x.t;
+    return { at: x.at, vol, turnover, price: x.p };
+  });
+  return { tape, errors };
+}
+
+// Replay of a past day: the snapshot journal is the tape (volume relative to the order's start)
+export function snapshotTape(order: Order): Tape {
+  return order.snapshots
+    .filter((s) => s.currentVol > 0 || s.lastPrice)
+    .map((s) => ({
+      at: s.at.slice(0, 5),
+      vol: Math.max(0, s.currentVol - order.startVol),
+      turnover: s.marketTurnover,
+      price: s.lastPrice || 0,
+    }));
+}
+
+export function tapeAt(tape: Tape, now: string): TapePoint | undefined {
+  let last: TapePoint | undefined;
+  for (const p of tape) {
+    if (p.at > now) break;
+    last = p;
+  }
+  return last;
+}
+
+/* -------------------- Simulation step -------------------- */
+// What a dealer following the plan would have done by `now`
+export function planTarget(order: Order, plan: BuiltPlan, now: string) {
+  let target = accumulatedSuggested(plan, order.sessionStart, now);
+  if (now >= order.auctionEnd) target += plan.auctionPlanned;
+  if (hasTalWindow(order) && now > order.talStart) {
+    const mins = minutesBetween(order.talStart, order.talEnd);
+    target += Math.floor((plan.talPlanned * clamp(minutesBetween(order.talStart, now), 0, mins)) / mins);
+  }
+  return Math.min(order.orderQty, target);
+}
+
+/**
+ * Market fields from the tape as of `now`, plus a simulated fill for whatever
+ * the plan (scaled by `fillRatio`) says should be done by now. Arrival is the
+ * first tape price; close is the auction price once the auction has matched.
+ */
+export function simStep(order: Order, plan: BuiltPlan, tape: Tape, now: string, fillRatio = 1): Order {
+  const pt = tapeAt(tape, now);
+  if (!pt) return order;
+  let next: Order = {
+    ...order,
+    currentVol: order.startVol + pt.vol,
+    marketTurnover: pt.turnover,
+    lastPrice: pt.price,
+  };
+  if (!next.arrivalPrice && tape[0]?.price) next = { ...next, arrivalPrice: tape[0].price, arrivalAt: `${tape[0].at}:00` };
+  if (!next.closePrice && now >= order.auctionEnd) next = { ...next, closePrice: tapeAt(tape, order.auctionEnd)?.price || 0 };
+  if (now >= finalEnd(order) && pt === tape[tape.length - 1]) next = { ...next, completed: true };
+
+  const due = Math.floor(planTarget(order, plan, now) * fillRatio) - fillTotals(order.fills).qty;
+  if (due > 0 && pt.price > 0) {
+    const fill: Fill = { id: newFillId(), at: `${now}:00`, qty: due, price: pt.price, venue: "SIM", kind: "FILL" };
+    next = withFills(next, [...order.fills, fill]);
+  }
+  return next;
+}
+
+// Replay: the recorded ledger and snapshot journal are revealed as the clock passes them
+export function replayStep(order: Order, recorded: Order, tape: Tape, now: string): Order {
+  const nowS = `${now}:59`;
+  const fills = recorded.fills.filter((f) => f.at <= nowS);
+  let next = fills.length === order.fills.length ? order : withFills(order, fills);
+  const shown = recorded.snapshots.filter((s) => s.at <= nowS);
+  const own = order.snapshots.filter((s) => !recorded.snapshots.includes(s)); // logged during the replay
+  if (shown.length + own.length !== order.snapshots.length) {
+    next = { ...next, snapshots: [...shown, ...own].sort((a, b) => (a.at < b.at ? -1 : a.at > b.at ? 1 : 0)) };
+  }
+  if (now >= recorded.auctionEnd && next.closePrice !== recorded.closePrice) next = { ...next, closePrice: recorded.closePrice };
+  if (now >= finalEnd(recorded) && recorded.completed && !next.completed) next = { ...next, completed: true };
+  const pt = tapeAt(tape, now);
+  return pt ? { ...next, currentVol: recorded.startVol + pt.vol, marketTurnover: pt.turnover, lastPrice: pt.price || next.lastPrice } : next;
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Fill, Order } from "./types";
+import { defaultOrder } from "./order";
+import { withFills } from "./fills";
+import {
+  LEADER_HEARTBEAT_MS, createBookChannel, createLeaderElection, editedAfter, mergeBook, mergeOrder, type SyncedBook,
+} from "./sync";
+
+const order = (o: Partial<Order> = {}): Order => ({ ...defaultOrder("BUY"), id: "a", ...o });
+const fill = (id: string, qty: number): Fill => ({ id, at: "10:00:00", qty, price: 10, kind: "FILL" });
+const book = (...orders: Order[]): SyncedBook => ({ orders, baskets: [] });
+
+describe("mergeOrder", () => {
+  it("takes each side's own changes and reports parameters both changed", () => {
+    const base = order();
+    const mine = { ...base, maxPart: 20, name: "Mine" };
+    const theirs = { ...base, maxPart: 25, completed: true };
+    const r = mergeOrder(base, mine, theirs);
+    expect([r.order.maxPart, r.order.name, r.order.completed]).toEqual([25, "Mine", true]);
+    expect(r.conflicts).toEqual(["maxPart"]);
+    expect(mergeOrder(base, mine, theirs, true)).toMatchObject({ order: { maxPart: 20, completed: true }, conflicts: [] });
+  });
+
+  it("combines fills added in both windows and recomputes totals", () => {
+    const base = withFills(order(), [fill("f1", 100)]);
+    const mine = withFills(base, [...base.fills, fill("f2", 200)]);
+    const theirs = withFills(base, [fill("f3", 300)]); // f1 deleted there
+    const r = mergeOrder(base, mine, theirs);
+    expect(r.order.fills.map((f) => f.id).sort()).toEqual(["f2", "f3"]);
+    expect(r.order.orderExecQty).toBe(500);
+    expect(r.conflicts).toEqual([]);
+  });
+
+  it("keeps both windows' change log entries", () => {
+    const base = order({ changeLog: [{ at: "10:00:00", field: "maxPart", from: 15, to: 20 }] });
+    const mine = { ...base, orderQty: 1, changeLog: [...base.changeLog!, { at: "10:05:00", field: "orderQty" as const, from: 1_600_000, to: 1 }] };
+    const theirs = { ...base, limitPrice: 9, changeLog: [...base.changeLog!, { at: "10:04:00", field: "limitPrice" as const, from: 0, to: 9 }] };
+    expect(mergeOrder(base, mine, theirs).order.changeLog!.map((c) => c.field)).toEqual(["maxPart", "limitPrice", "orderQty"]);
+  });
+});
+
+describe("mergeBook", () => {
+  const a = order();
+  const b = order({ id: "b", name: "Buy 2" });
+
+  it("returns theirs untouched when nothing changed here", () => {
+    const theirs = book({ ...a, maxPart: 30 }, b);
+    const r = mergeBook(book(a, b), book(a, b), theirs);
+    expect(r.diverged).toBe(false);
+    expect(r.orders).toBe(theirs.orders);
+  });
+
+  it("keeps orders added here and honours removals on either side", () => {
+    const c = order({ id: "c", name: "Buy 3" });
+    const r = mergeBook(book(a, b), book(a, c), book(b));
+    expect(r.orders.map((o) => o.id)).toEqual(["c"]);
+    expect(r.diverged).toBe(true);
+    // Removed there while edited here: the edit survives
+    expect(mergeBook(book(a, b), book({ ...a, orderQty: 5 }, b), book(b)).orders.map((o) => o.id)).toEqual(["b", "a"]);
+  });
+
+  it("lists conflicts with both values", () => {
+    const c = mergeBook(book(a), book({ ...a, maxPart: 20 }), book({ ...a, maxPart: 5 }));
+    expect(c.conflicts).toEqual([{ orderId: "a", orderName: a.name, field: "maxPart", mine: 20, theirs: 5 }]);
+  });
+
+  it("settles simultaneous edits on the same book in both windows", () => {
+    const base = book(a, b);
+    const x = book({ ...a, maxPart: 20, name: "X" }, b); // edited first
+    const y = book({ ...a, maxPart: 25 }, { ...b, orderQty: 7 }, order({ id: "c" }));
+    const inX = mergeBook(base, x, y, editedAfter({ at: 1, from: "x" }, { at: 2, from: "y" }));
+    const inY = mergeBook(base, y, x, editedAfter({ at: 2, from: "y" }, { at: 1, from: "x" }));
+    expect(inX.orders).toEqual(inY.orders);
+    expect(inX.orders.map((o) => [o.id, o.name, o.maxPart, o.orderQty])).toEqual([
+      ["a", "X", 25, a.orderQty],
+      ["b", b.name, b.maxPart, 7],
+      ["c", a.name, a.maxPart, a.orderQty],
+    ]);
+    expect([inX.conflicts.length, inY.conflicts.length]).toEqual([1, 0]);
+  });
+});
+
+describe("createBookChannel", () => {
+  it("delivers books from other windows only", () => {
+    const peers: FakeChannel[] = [];
+    class FakeChannel {
+      onmessage: ((ev: { data: any }) => void) | null = null;
+      constructor(_name: string) {
+        peers.push(this);
+      }
+      postMessage(data: unknown) {
+        for (const p of peers) if (p !== this) p.onmessage?.({ data });
+      }
+      close() {}
+    }
+    const got: string[] = [];
+    const one = createBookChannel({ from: "w1", onBook: () => got.push("w1"), BroadcastChannel: FakeChannel });
+    createBookChannel({ from: "w2", onBook: (bk) => got.push(`w2:${bk.orders.length}`), BroadcastChannel: FakeChannel });
+    one.send({ tradeDate: "2026-10-19", base: book(), book: book(order()) });
+    expect(got).toEqual(["w2:1"]);
+    const native = createBookChannel({ from: "w3", onBook: () => {} });
+    expect(native.available).toBe(typeof BroadcastChannel !== "undefined");
+    native.close();
+  });
+});
+
+describe("createLeaderElection", () => {
+  it("lets the lowest live window lead and hands over when it goes", () => {
+    vi.useFakeTimers();
+    const peers: FakeChannel[] = [];
+    class FakeChannel {
+      onmessage: ((ev: { data: any }) => void) | null = null;
+      constructor(_name: string) {
+        peers.push(this);
+      }
+      postMessage(data: unknown) {
+        for (const p of peers) if (p !== this) p.onmessage?.({ data });
+      }
+      close() {
+        peers.splice(peers.indexOf(this), 1);
+      }
+    }
+    const opts = { BroadcastChannel: FakeChannel, now: () => Date.now() };
+    const a = createLeaderElection({ from: "a", ...opts });
+    const b = createLeaderElection({ from: "b", ...opts });
+    expect([a.role(), b.role()]).toEqual(["PENDING", "PENDING"]);
+    vi.advanceTimersByTime(LEADER_HEARTBEAT_MS);
+    expect([a.role(), b.role()]).toEqual(["LEADER", "FOLLOWER"]);
+    a.close();
+    expect(b.role()).toBe("LEADER");
+    b.close();
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,217 @@
+import type { AlertEvent, AuctionIndication, Fill, Order, ParamChange, Snapshot } from "./types";
+import type { Basket } from "./basket";
+import { AUDITED_FIELDS } from "./audit";
+import { withFills } from "./fills";
+
+/* -------------------- Cross-window sync -------------------- */
+export type SyncedBook = { orders: Order[]; baskets: Basket[] };
+
+// Both windows changed an order parameter differently since they last agreed; theirs was kept
+export type SyncConflict = {
+  orderId: string;
+  orderName: string;
+  field: keyof Order;
+  mine: Order[keyof Order];
+  theirs: Order[keyof Order];
+};
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Journals both windows append to: combined by key rather than one side winning
+type Stamped = { at: string };
+const JOURNAL_KEY: Partial<Record<keyof Order, (x: any) => string>> = {
+  fills: (f: Fill) => f.id,
+  snapshots: (s: Snapshot) => s.at,
+  changeLog: (c: ParamChange) => `${c.at}|${c.field}`,
+  alertLog: (e: AlertEvent) => `${e.at}|${e.rule}|${e.kind}`,
+  auctionIndications: (i: AuctionIndication) => i.at,
+};
+
+// Items either side added, minus items either side deleted, in time order
+function unionBy<T extends Stamped>(base: T[], mine: T[], theirs: T[], key: (t: T) => string): T[] {
+  const baseKeys = new Set(base.map(key));
+  const mineKeys = new Set(mine.map(key));
+  const theirKeys = new Set(theirs.map(key));
+  const kept = theirs.filter((t) => mineKeys.has(key(t)) || !baseKeys.has(key(t)));
+  const added = mine.filter((m) => !theirKeys.has(key(m)) && !baseKeys.has(key(m)));
+  const cmp = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+  return [...kept, ...added].sort((a, b) => cmp(a.at, b.at) || cmp(key(a), key(b)));
+}
+
+/**
+ * Three-way merge of one order against the copy both windows last agreed on:
+ * a field only one side changed takes that change; journals (fills,
+ * snapshots, change and alert logs) changed on both sides are combined; any
+ * other field changed on both sides takes theirs, or mine with `preferMine`.
+ * Order parameters where theirs overrode mine are reported.
+ */
+export function mergeOrder(
+  base: Order | undefined,
+  mine: Order,
+  theirs: Order,
+  preferMine = false
+): { order: Order; conflicts: (keyof Order)[] } {
+  const keys = new Set([...Object.keys(theirs), ...Object.keys(mine)] as (keyof Order)[]);
+  const merged: Record<string, unknown> = {};
+  const conflicts: (keyof Order)[] = [];
+  for (const k of keys) {
+    const m = mine[k];
+    const t = theirs[k];
+    const b = base?.[k];
+    const journal = JOURNAL_KEY[k];
+    if (same(m, t) || (base && same(m, b))) merged[k] = t;
+    else if (base && same(t, b)) merged[k] = m;
+    else if (journal) merged[k] = unionBy((b as Stamped[]) || [], (m as Stamped[]) || [], (t as Stamped[]) || [], journal);
+    else {
+      merged[k] = preferMine ? m : t;
+      if (!preferMine && k in AUDITED_FIELDS) conflicts.push(k);
+    }
+  }
+  const order = merged as Order;
+  return { order: same(order.fills, theirs.fills) ? order : withFills(order, order.fills), conflicts };
+}
+
+/**
+ * Fold a book broadcast by another window into ours. `base` is the book the
+ * sender started from; `preferMine` decides fields both changed (the window
+ * whose edit came last should win, so both sides settle on the same book).
+ * `diverged` is false when the result is exactly theirs (it is then
+ * returned as is, so it need not be broadcast back).
+ */
+export function mergeBook(
+  base: SyncedBook,
+  mine: SyncedBook,
+  theirs: SyncedBook,
+  preferMine = false
+): SyncedBook & { conflicts: SyncConflict[]; diverged: boolean } {
+  const conflicts: SyncConflict[] = [];
+  const find = (list: Order[], id: string) => list.find((o) => o.id === id);
+  const orders: Order[] = [];
+  for (const t of theirs.orders) {
+    const m = find(mine.orders, t.id);
+    const b = find(base.orders, t.id);
+    if (!m) {
+      // Removed here: stays removed unless they changed it meanwhile
+      if (!b || !same(b, t)) orders.push(t);
+      continue;
+    }
+    const r = mergeOrder(b, m, t, preferMine);
+    for (const field of r.conflicts) conflicts.push({ orderId: t.id, orderName: t.name, field, mine: m[field], theirs: t[field] });
+    orders.push(r.order);
+  }
+  for (const m of mine.orders) {
+    if (find(theirs.orders, m.id)) continue;
+    const b = find(base.orders, m.id);
+    // New here, or removed there after we changed it
+    if (!b || !same(b, m)) orders.push(m);
+  }
+  // Listed in the preferred side's order, then the other side's additions
+  const [lead, rest] = preferMine ? [mine.orders, theirs.orders] : [theirs.orders, mine.orders];
+  const rank = (id: string) => {
+    const i = lead.findIndex((o) => o.id === id);
+    return i >= 0 ? i : lead.length + rest.findIndex((o) => o.id === id);
+  };
+  orders.sort((a, b) => rank(a.id) - rank(b.id));
+
+  const baskets = same(mine.baskets, base.baskets)
+    ? theirs.baskets
+    : same(theirs.baskets, base.baskets) || preferMine
+    ? mine.baskets
+    : theirs.baskets;
+  const diverged = !same(orders, theirs.orders) || !same(baskets, theirs.baskets);
+  return diverged ? { orders, baskets, conflicts, diverged } : { ...theirs, conflicts, diverged };
+}
+
+/* -------------------- Channel -------------------- */
+type Stamp = { at: number; from: string };
+
+// Whether edit `a` came after `b`; ties go to the higher window id so both windows agree
+export const editedAfter = (a: Stamp, b: Stamp) => a.at > b.at || (a.at === b.at && a.from > b.from);
+
+// `base` is the book the sender last had in common with the others
+export type BookMessage = { type: "book"; from: string; at: number; tradeDate: string; base: SyncedBook; book: SyncedBook };
+
+type Channel = { postMessage: (msg: unknown) => void; onmessage: ((ev: { data: any }) => void) | null; close: () => void };
+type ChannelCtor = new (name: string) => Channel;
+
+export const SYNC_CHANNEL = "execution-planner.sync";
+
+/**
+ * A BroadcastChannel between the app's windows on this origin. Messages from
+ * this window (`from`) are ignored; without BroadcastChannel it does nothing.
+ */
+export function createBookChannel(opts: {
+  from: string;
+  onBook: (book: SyncedBook, msg: BookMessage) => void;
+  name?: string;
+  BroadcastChannel?: ChannelCtor;
+}) {
+  const Ctor: ChannelCtor | undefined = opts.BroadcastChannel ?? (globalThis as any).BroadcastChannel;
+  const ch = Ctor ? new Ctor(opts.name ?? SYNC_CHANNEL) : null;
+  if (ch) {
+    ch.onmessage = (ev) => {
+      const msg = ev.data as BookMessage;
+      if (msg?.type === "book" && msg.from !== opts.from && Array.isArray(msg.book?.orders) && Array.isArray(msg.base?.orders)) opts.onBook(msg.book, msg);
+    };
+  }
+  return {
+    available: !!ch,
+    send: (m: Pick<BookMessage, "tradeDate" | "base" | "book"> & { at?: number }) => {
+      const msg: BookMessage = { type: "book", from: opts.from, at: m.at ?? Date.now(), tradeDate: m.tradeDate, base: m.base, book: m.book };
+      ch?.postMessage(msg);
+    },
+    close: () => ch?.close(),
+  };
+}
+
+/* -------------------- Leader window -------------------- */
+export const LEADER_HEARTBEAT_MS = 2_000;
+
+// PENDING: still listening for the other windows after opening
+export type WindowRole = "LEADER" | "FOLLOWER" | "PENDING";
+
+/**
+ * Picks one of the app's windows for the duties only one should do (firing
+ * reminders). Each window announces itself every LEADER_HEARTBEAT_MS and the
+ * lowest id heard within three beats leads, so ids that start with the
+ * opening time make the oldest window lead. A window is PENDING until its
+ * first beat has had time to find the others; without BroadcastChannel each
+ * window leads on its own.
+ */
+export function createLeaderElection(opts: { from: string; name?: string; BroadcastChannel?: ChannelCtor; now?: () => number }) {
+  const now = opts.now ?? Date.now;
+  const Ctor: ChannelCtor | undefined = opts.BroadcastChannel ?? (globalThis as any).BroadcastChannel;
+  const ch = Ctor ? new Ctor(opts.name ?? `${SYNC_CHANNEL}.leader`) : null;
+  const startedAt = now();
+  const peers = new Map<string, number>();
+  const say = (type: "hello" | "bye") => ch?.postMessage({ type, from: opts.from });
+  if (ch) {
+    ch.onmessage = (ev) => {
+      const msg = ev.data as { type?: string; from?: string };
+      if (!msg?.from || msg.from === opts.from) return;
+      if (msg.type === "bye") peers.delete(msg.from);
+      else if (msg.type === "hello") {
+        // Answer newcomers straight away so they learn about us within their first beat
+        const isNew = !peers.has(msg.from);
+        peers.set(msg.from, now());
+        if (isNew) say("hello");
+      }
+    };
+  }
+  say("hello");
+  const timer = setInterval(() => say("hello"), LEADER_HEARTBEAT_MS);
+  return {
+    role: (): WindowRole => {
+      if (!ch) return "LEADER";
+      if (now() - startedAt < LEADER_HEARTBEAT_MS) return "PENDING";
+      const cutoff = now() - 3 * LEADER_HEARTBEAT_MS;
+      for (const [id, seenAt] of peers) if (seenAt >= cutoff && id < opts.from) return "FOLLOWER";
+      return "LEADER";
+    },
+    close: () => {
+      clearInterval(timer);
+      say("bye");
+      ch?.close();
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { addMinutes, minutesBetween, normalizeHHMM, timeSlices } from "./time";
+
+describe("time helpers", () => {
+  it("adds and diffs HH:MM", () => {
+    expect(minutesBetween("09:30", "13:00")).toBe(210);
+    expect(addMinutes("09:30", 45)).toBe("10:15");
+    expect(addMinutes("23:50", 20)).toBe("00:10");
+  });
+
+  it("normalizes loose time strings", () => {
+    expect(normalizeHHMM("9:30")).toBe("09:30");
+    expect(normalizeHHMM("13:05:00")).toBe("13:05");
+    expect(normalizeHHMM("24:00")).toBeNull();
+    expect(normalizeHHMM("noon")).toBeNull();
+  });
+});
+
+describe("timeSlices", () => {
+  it("cuts the window into steps with a short last slice", () => {
+    const s = timeSlices("09:30", "13:00", 60);
+    expect(s.map((x) => x.label)).toEqual(["09:30 – 10:30", "10:30 – 11:30", "11:30 – 12:30", "12:30 – 13:00"]);
+    expect(s[3].mins).toBe(30);
+  });
+
+  it("restarts slicing after a break", () => {
+    const s = timeSlices("10:00", "12:00", 30, [{ start: "10:45", end: "11:15" }]);
+    expect(s.map((x) => [x.s, x.e])).toEqual([
+      ["10:00", "10:30"],
+      ["10:30", "10:45"],
+      ["11:15", "11:45"],
+      ["11:45", "12:00"],
+    ]);
+  });
+
+  it("still yields one row for an empty window", () => {
+    expect(timeSlices("10:00", "10:00", 30)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,123 @@
+import type { SessionBreak } from "./types";
+
+/* -------------------- Time helpers -------------------- */
+export const clamp = (n: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, n));
+
+export function minutesBetween(t1: string, t2: string) {
+  const [h1, m1] = t1.split(":").map((x) => parseInt(x || "0", 10));
+  const [h2, m2] = t2.split(":").map((x) => parseInt(x || "0", 10));
+  return h2 * 60 + m2 - (h1 * 60 + m1);
+}
+export function addMinutes(t: string, mins: number) {
+  const [h, m] = t.split(":").map((x) => parseInt(x || "0", 10));
+  const total = h * 60 + m + mins;
+  const hh = Math.floor(total / 60) % 24;
+  const mm = ((total % 60) + 60) % 60;
+  return `${String(hh).padStart(2, "0")}:${String(mm).padStart(2, "0")}`;
+}
+/* -------------------- Clock source -------------------- */
+// Everything that reads "now" goes through here, so simulation/replay can swap in its own clock.
+// `rate` is clock ms per real ms — timers divide their delays by it.
+export type ClockSource = { now: () => number; rate: () => number };
+const SYSTEM_CLOCK: ClockSource = { now: () => Date.now(), rate: () => 1 };
+let clock = SYSTEM_CLOCK;
+
+export function setClock(source?: ClockSource) {
+  clock = source || SYSTEM_CLOCK;
+}
+export function clockNow() {
+  return clock.now();
+}
+export function clockRate() {
+  return clock.rate() || 1;
+}
+
+/* -------------------- Clocks (IANA time zones) -------------------- */
+// Wall-clock parts of "now" (or of `at`, epoch ms) in `tz`; browser local time when tz is omitted
+export function clockParts(tz?: string, at = clock.now()) {
+  const d = new Date(at);
+  if (!tz) {
+    return { y: d.getFullYear(), mo: d.getMonth() + 1, d: d.getDate(), h: d.getHours(), m: d.getMinutes(), s: d.getSeconds() };
+  }
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: tz, hourCycle: "h23",
+    year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit",
+  }).formatToParts(d);
+  const get = (t: Intl.DateTimeFormatPartTypes) => parseInt(parts.find((p) => p.type === t)?.value || "0", 10);
+  return { y: get("year"), mo: get("month"), d: get("day"), h: get("hour"), m: get("minute"), s: get("second") };
+}
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+export function nowHHMM(tz?: string) {
+  const c = clockParts(tz);
+  return `${pad2(c.h)}:${pad2(c.m)}`;
+}
+export function nowHHMMSS(tz?: string) {
+  const c = clockParts(tz);
+  return `${pad2(c.h)}:${pad2(c.m)}:${pad2(c.s)}`;
+}
+export function todayISO(tz?: string) {
+  const c = clockParts(tz);
+  return `${c.y}-${pad2(c.mo)}-${pad2(c.d)}`;
+}
+// Milliseconds until HH:MM on the `tz` wall clock today (negative once passed)
+export function msUntil(hhmm: string, tz?: string) {
+  const c = clockParts(tz);
+  const [h, m] = hhmm.split(":").map((x) => parseInt(x || "0", 10));
+  return ((h * 60 + m) * 60 - (c.h * 3600 + c.m * 60 + c.s)) * 1000;
+}
+export function addDaysISO(dateISO: string, days: number) {
+  const [y, mo, d] = dateISO.split("-").map((x) => parseInt(x, 10));
+  return new Date(Date.UTC(y, mo - 1, d + days)).toISOString().slice(0, 10);
+}
+// Epoch ms of HH:MM on `dateISO` on the `tz` wall clock (browser local when omitted)
+export function zonedEpoch(dateISO: string, hhmm: string, tz?: string) {
+  const [y, mo, d] = dateISO.split("-").map((x) => parseInt(x, 10));
+  const [h, m] = hhmm.split(":").map((x) => parseInt(x || "0", 10));
+  if (!tz) return new Date(y, mo - 1, d, h, m).getTime();
+  const guess = Date.UTC(y, mo - 1, d, h, m);
+  const p = clockParts(tz, guess);
+  const offset = Date.UTC(p.y, p.mo - 1, p.d, p.h, p.m) - guess;
+  return guess - offset;
+}
+export function tzLabel(tz: string) {
+  return tz.split("/").pop()!.replace(/_/g, " ");
+}
+
+export type Slice = { s: string; e: string; label: string; mins: number };
+
+export function timeSlices(start: string, end: string, step: number, breaks: SessionBreak[] = []) {
+  const out: Slice[] = [];
+  for (const seg of tradingSegments(start, end, breaks)) {
+    const total = Math.max(0, minutesBetween(seg.start, seg.end));
+    const n = Math.max(1, Math.ceil(total / step));
+    for (let i = 0; i < n; i++) {
+      const s = addMinutes(seg.start, i * step);
+      const e = i === n - 1 ? seg.end : addMinutes(seg.start, (i + 1) * step);
+      out.push({ s, e, label: `${s} – ${e}`, mins: Math.max(0, minutesBetween(s, e)) });
+    }
+  }
+  return out;
+}
+// [start, end) minus the breaks; always at least one segment so an empty window still yields a row
+export function tradingSegments(start: string, end: string, breaks: SessionBreak[]) {
+  const segs: SessionBreak[] = [];
+  let cur = start;
+  for (const b of [...breaks].sort((x, y) => (x.start < y.start ? -1 : 1))) {
+    if (b.end <= cur || b.start >= end) continue;
+    if (b.start > cur) segs.push({ start: cur, end: b.start });
+    cur = b.end > cur ? b.end : cur;
+  }
+  if (cur < end || segs.length === 0) segs.push({ start: cur < end ? cur : start, end });
+  return segs;
+}
+
+// "9:30", "09:30:00" → "09:30"; null if not a time
+export function normalizeHHMM(v: string): string | null {
+  const m = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(v.trim());
+  if (!m) return null;
+  const h = parseInt(m[1], 10);
+  const mm = parseInt(m[2], 10);
+  if (h > 23 || mm > 59) return null;
+  return `${String(h).padStart(2, "0")}:${m[2]}`;
+}
@@ -0,0 +1,215 @@
+/* -------------------- Domain types -------------------- */
+export type ExecMode = "OTD" | "INLINE";
+export type CapMode = "NONE" | "PCT";
+export type Curve = "equal" | "ucurve" | "historical";
+export type Side = "BUY" | "SELL";
+export type MarketKey = "Egypt" | "Kuwait" | "Qatar" | "DFM" | "ADX" | "Saudi";
+export type PaceClass = "AHEAD" | "ON" | "LAG";
+export type Benchmark = "VWAP" | "ARRIVAL" | "TWAP" | "CLOSE" | "IS";
+
+export type Snapshot = {
+  at: string; // HH:MM:SS
+  note?: string;
+  currentVol: number;
+  expectedContVol: number;
+  expectedAuctionVol: number;
+  expectedTalVol?: number;
+  orderExecQty: number;
+  orderExecNotional: number;
+  marketTurnover: number;
+  marketVWAPInput: number;
+  outOfLimit?: boolean; // market traded through the limit since the previous snapshot
+  lastPrice?: number;
+};
+
+export type LiquidityProfile = "Quiet" | "Normal" | "Volatile";
+
+export type FillKind = "FILL" | "RECON";
+
+export type Fill = {
+  id: string;
+  at: string; // HH:MM:SS
+  qty: number;
+  price: number;
+  venue?: string;
+  brokerRef?: string;
+  execId?: string; // FIX ExecID when the fill came from a drop copy
+  kind: FillKind;
+  // RECON entries carry their own notional (qty/notional deltas need not imply a price)
+  notional?: number;
+};
+
+export type Order = {
+  id: string;
+  name: string;
+  symbol: string;
+  side: Side;
+  basketId?: string;  // Basket.id when the order is a leg of a program trade
+
+  orderQty: number;
+  limitPrice: number;          // 0 = no limit (market order)
+  outOfLimitSlices: string[];  // plan slice starts (HH:MM) the market spent outside the limit
+
+  execMode: ExecMode;
+  capMode: CapMode;
+  maxPart: number; // %
+  reserveAuctionPct: number; // %
+  deferCompletion: boolean;
+
+  sessionStart: string;
+  sessionEnd: string;
+  auctionStart: string;
+  auctionEnd: string;
+  talStart: string;
+  talEnd: string;
+  breaks: SessionBreak[];      // intraday breaks inside the continuous session
+  intervalMins: number;
+  curve: Curve;
+
+  // volumes (dealer-updated intraday)
+  startVol: number;      // market volume at the time order starts tracking
+  currentVol: number;    // current cumulative market volume
+  expectedContVol: number;
+  expectedAuctionVol: number;
+  expectedTalVol: number;  // trade-at-last window after the auction match
+
+  // VWAP monitor
+  marketTurnover: number;
+  marketVWAPInput: number;
+
+  // benchmarks
+  benchmark: Benchmark;
+  lastPrice: number;     // dealer-updated last trade price
+  arrivalPrice: number;  // captured at order start or first snapshot
+  arrivalAt?: string;    // HH:MM:SS
+  closePrice: number;
+
+  // executed so far — derived from `fills`, kept for snapshots & display
+  orderExecQty: number;
+  orderExecNotional: number;
+  fills: Fill[];
+
+  // extras
+  market?: MarketKey;
+  startFromNow?: boolean;
+  replan?: boolean;            // show a re-plan of the remaining qty from "now"
+  multiDay?: MultiDay;         // parent order worked over several sessions; orderQty = today's allocation
+  feed?: FeedMark;             // market fields last set by the data feed (absent = typed in by hand)
+  snapshots: Snapshot[];
+  liquidity: LiquidityProfile;
+  completed: boolean;
+
+  // alerts
+  alertRules?: AlertRules;     // per-order thresholds; absent = the desk's
+  alerts?: AlertState[];       // currently raised, with acknowledgement / snooze
+  alertLog?: AlertEvent[];
+
+  // closing auction: published indications as they update, and how much of an opposing imbalance we may take
+  auctionIndications?: AuctionIndication[];
+  imbalanceSharePct: number;
+
+  // audit trail of the order's terms
+  changeLog?: ParamChange[];
+
+  // reminders / notifications
+  notificationsOn: boolean;
+  soundOn: boolean;
+  sliceReminders: boolean;     // remind at slice boundaries
+  remindEveryMins: number;     // or remind every N minutes
+  eventReminders: boolean;     // auction start, TAL start, session-end lead
+  sessionEndLeadMins: number;  // how long before sessionEnd to remind
+  staleAfterMins: number;      // escalate when market / exec fields go this long without an update; 0 = off
+  lastUpdateAt?: string;       // HH:MM:SS exchange time of the last market / exec update
+};
+
+// A closed session of a multi-day order
+export type DayResult = {
+  date: string; // YYYY-MM-DD
+  allocated: number;
+  executedQty: number;
+  executedNotional: number;
+  marketVol: number;
+  marketVWAP: number;
+  arrivalPrice: number;
+  closePrice: number;
+};
+
+export type MultiDay = {
+  parentQty: number;
+  adv: number;          // average daily volume
+  maxAdvPct: number;    // daily allocation cap, % of ADV
+  targetDays: number;   // 0 = as fast as the cap allows
+  startDate: string;    // YYYY-MM-DD
+  history: DayResult[];
+};
+
+// Where the order's market fields came from
+export type FeedMark = {
+  source: string;           // feed URL or name
+  at: number;               // epoch ms the last tick was received
+  baseTurnover: number;     // estimated turnover before the order started (startVol > 0)
+};
+
+export type AlertLevel = "CRIT" | "WARN" | "INFO";
+export type AlertRuleId =
+  | "missingVWAP"
+  | "staleVolume"
+  | "calendar"
+  | "break"
+  | "sessionEnd"
+  | "limitCapacity"
+  | "limitFills"
+  | "capBinding"
+  | "impact"
+  | "pace"
+  | "capBreach"
+  | "auctionImbalance"
+  | "slippage"
+  | "remainingVolume";
+
+export type AlertRules = {
+  paceBandPct: number;      // executed vs plan-by-now band for Ahead / Lag
+  capBindingPct: number;    // share of slices planned at their cap
+  impactPct: number;        // planned share of a slice's expected volume
+  sessionEndMins: number;   // warning lead before the close; 0 = one interval
+  slippageBps: number;      // alert when worse than −X bps vs the benchmark; 0 = off
+  remainingVolPct: number;  // alert when remaining qty > X% of remaining expected volume; 0 = off
+  off: AlertRuleId[];
+};
+
+export type Alert = { rule: AlertRuleId; level: AlertLevel; msg: string };
+export type AlertState = Alert & {
+  since: string;            // HH:MM:SS exchange time first raised
+  ack?: boolean;            // muted until it clears or escalates
+  snoozeUntil?: string;     // HH:MM, muted until then unless it escalates
+};
+export type AlertEvent = Alert & { at: string; kind: "RAISED" | "ESCALATED" | "CLEARED" | "ACK" | "SNOOZE" };
+
+// Exchange-published state of the closing auction at one moment
+export type AuctionIndication = {
+  at: string;                       // HH:MM:SS exchange time it was entered
+  price: number;                    // indicative auction price
+  matchedVol: number;               // indicative matched volume
+  imbalanceSide: Side | "NONE";     // side with unmatched surplus
+  imbalanceQty: number;
+};
+
+// One edit of an order parameter; values as shown (breaks as "12:00–12:30")
+export type AuditValue = string | number | boolean;
+export type ParamChange = {
+  at: string;               // HH:MM:SS exchange time
+  field: keyof Order;
+  from: AuditValue;
+  to: AuditValue;
+  reason?: string;
+};
+
+export type SessionBreak = { start: string; end: string };
+export type SessionSchedule = {
+  start: string;
+  auction: string;
+  auctionMatch: string;
+  talStart: string;
+  talEnd: string;
+  breaks?: SessionBreak[];
+};